@@ -10,18 +10,28 @@ import { type C2paError, type C2paResult } from './c2pa'
 import {
   MSG_GET_ID, MSG_L3_INSPECT_URL, MSG_REMOTE_INSPECT_URL, MSG_FORWARD_TO_CONTENT, REMOTE_VALIDATION_LINK,
   MSG_VALIDATE_URL, AWAIT_ASYNC_RESPONSE, MSG_C2PA_RESULT_FROM_CONTEXT, AUTO_SCAN_DEFAULT, MSG_AUTO_SCAN_UPDATED,
-  TRUSTLIST_UPDATE_INTERVAL
+  TRUSTLIST_UPDATE_INTERVAL, SIDECAR_LOOKUP_DEFAULT
 } from './constants'
 import { sendMessageToAllTabs } from './utils'
 
 console.debug('Background: Script: start')
 
+/*
+  PDF documents can be displayed by the browser; ZIP-based documents (EPUB, OOXML, ODF) are only linked to
+*/
+const DOCUMENT_URL_PATTERNS = urlPatterns(['pdf'])
+const LINKED_DOCUMENT_URL_PATTERNS = urlPatterns(['pdf', 'epub', 'docx', 'xlsx', 'pptx', 'odt', 'ods', 'odp', 'zip'])
+
+function urlPatterns (extensions: string[]): string[] {
+  return extensions.flatMap((extension) => [`*://*/*.${extension}`, `*://*/*.${extension}?*`, `*://*/*.${extension}#*`])
+}
+
 void initTrustlist()
 
 chrome.runtime.onInstalled.addListener(function (details) {
   if (details.reason === 'install') {
     console.debug('This is a first-time install!')
-    void chrome.storage.local.set({ autoScan: AUTO_SCAN_DEFAULT })
+    void chrome.storage.local.set({ autoScan: AUTO_SCAN_DEFAULT, sidecarLookup: SIDECAR_LOOKUP_DEFAULT })
   } else if (details.reason === 'update') {
     console.debug('The extension has been updated to version:', chrome.runtime.getManifest().version)
   } else if (details.reason === 'chrome_update') {
@@ -37,10 +47,30 @@ function createContextMenu (): void {
     contexts: ['audio', 'image', 'video'],
     documentUrlPatterns: ['<all_urls>']
   })
+  /*
+    Documents are not media elements; they are inspected from links to them
+    or, for PDF, from the page/frame that displays them in the browser's viewer.
+  */
+  chrome.contextMenus.create({
+    id: 'validateLinkedDocument',
+    title: 'Inspect Content Credentials',
+    contexts: ['link'],
+    targetUrlPatterns: LINKED_DOCUMENT_URL_PATTERNS
+  })
+  chrome.contextMenus.create({
+    id: 'validateDocument',
+    title: 'Inspect Content Credentials',
+    contexts: ['page', 'frame'],
+    documentUrlPatterns: DOCUMENT_URL_PATTERNS
+  })
 }
 
 chrome.contextMenus.onClicked.addListener((info, tab) => {
-  const url = info.srcUrl
+  const url = info.menuItemId === 'validateLinkedDocument'
+    ? info.linkUrl
+    : info.menuItemId === 'validateDocument'
+      ? info.frameUrl ?? info.pageUrl
+      : info.srcUrl
   if (url == null) {
     return
   }
@@ -105,7 +135,9 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
 })
 
 async function validateUrl (url: string): Promise<C2paResult | C2paError> {
-  const c2paResult = await c2paValidateUrl(url)
+  // the offscreen document that validates the asset cannot read the extension storage
+  const { sidecarLookup } = await chrome.storage.local.get('sidecarLookup')
+  const c2paResult = await c2paValidateUrl(url, { sidecar: sidecarLookup ?? SIDECAR_LOOKUP_DEFAULT })
   if (c2paResult instanceof Error) {
     return c2paResult
   }
@@ -4,11 +4,20 @@
  */
 
 import { createC2pa, selectEditsAndActivity, type C2pa, type C2paReadResult, type ManifestMap, type ManifestStore, type TranslatedDictionaryCategory } from 'c2pa'
+import { decodeAssertions, type Assertion } from './certs/assertions.js'
+import { getBmffFragments, type BmffFragment } from './certs/bmff.js'
 import { type CertificateInfoExtended } from './certs/certs.js'
-import { decode as coseDecode, type TSTInfo, type COSE_Sign1 } from './certs/cose.js'
-import { isContentBox, decode as jumbfDecode } from './certs/jumbf.js'
+import { decodeClaim, type Claim } from './certs/claim.js'
+import { type TSTInfo, type SignatureResult } from './certs/cose.js'
+import { hasC2paTable, isFont } from './certs/font.js'
+import { manifests, decode as jumbfDecode, type JumbfBox, type JumbfResult } from './certs/jumbf.js'
+import { verifyFragments, verifyHardBinding, type HardBindingResult } from './certs/hardBinding.js'
+import { getRemoteManifestUrl, getSidecarUrl } from './certs/manifestLocation.js'
+import { extractManifestSignatures, type ManifestSignature } from './certs/manifestSignatures.js'
 import { getManifestFromMetadata } from './certs/metadata.js'
-import { AWAIT_ASYNC_RESPONSE, MSG_C2PA_VALIDATE_URL, type MSG_PAYLOAD } from './constants.js'
+import { getCoverArt } from './certs/mp3.js'
+import { isMimeTypeMismatch, sniffMimeType } from './certs/sniff.js'
+import { AWAIT_ASYNC_RESPONSE, MIME, MSG_C2PA_VALIDATE_URL, type MSG_PAYLOAD } from './constants.js'
 import { type TrustListMatch } from './trustlistProxy.js'
 import { blobToDataURL } from './utils.js'
 
@@ -23,12 +32,73 @@ export interface C2paResult extends ExtensionC2paResult {
   trustList: TrustListMatch | null
   tsaTrustList: TrustListMatch | null
   editsAndActivity: TranslatedDictionaryCategory[] | null
+  fragments: BmffFragment[] | null
+  manifestSource: ManifestSource
+  hardBinding: HardBindingResult | null
+  /**
+   * The claim signature verified by the extension, independently of the C2PA library
+   */
+  signature: SignatureResult | null
+  /**
+   * The claim signature of every manifest in the manifest store, keyed by manifest label (URN).
+   * signature, certChain and tstTokens above are those of the active manifest.
+   */
+  manifestSignatures: Record<string, ManifestSignature>
+  warnings: string[]
+}
+
+/*
+  Where the manifest store was found: embedded in the asset, at a remote URL referenced by the asset's
+  XMP (dcterms:provenance) or HTTP Link header, or in a sidecar (.c2pa) file next to it
+*/
+export interface ManifestSource {
+  type: 'embedded' | 'remote' | 'sidecar'
+  url: string
+}
+
+/*
+  C2PA validation status codes of the hard binding and claim signature failures, which the extension also verifies
+*/
+const HARD_BINDING_FAILURE_CODES = [
+  'assertion.dataHash.mismatch', 'assertion.dataHash.malformed', 'assertion.boxesHash.mismatch', 'assertion.boxesHash.unknownBox',
+  'assertion.collectionHash.mismatch', 'assertion.collectionHash.malformed', 'assertion.collectionHash.incorrectFileCount', 'assertion.collectionHash.invalidURI'
+]
+const SIGNATURE_FAILURE_CODES = ['claimSignature.missing', 'claimSignature.mismatch', 'algorithm.unsupported']
+
+interface ManifestStoreResult {
+  url: string
+  result: C2paReadResult
+  bytes: Uint8Array
 }
 
 export interface C2paError extends Error {
   url: string
 }
 
+export interface ValidationOptions {
+  /**
+   * Look for a sidecar (.c2pa) manifest store next to an asset that has no manifest.
+   * Off by default: it requests a file from the asset's origin for every asset without Content Credentials.
+   */
+  sidecar: boolean
+}
+
+export interface ValidationRequest {
+  url: string
+  options: ValidationOptions
+}
+
+/*
+  The asset as fetched by the extension, with the response headers the validation uses
+*/
+interface FetchedAsset {
+  file: File
+  /**
+   * The HTTP Link header, which may reference a remote manifest
+   */
+  link: string | null
+}
+
 export async function init (): Promise<void> {
   const workerUrl = chrome.runtime.getURL('c2pa.worker.js')
   const wasmUrl = chrome.runtime.getURL('toolkit_bg.wasm')
@@ -46,19 +116,60 @@ export async function init (): Promise<void> {
   chrome.runtime.onMessage.addListener(
     (request: MSG_PAYLOAD, sender, sendResponse) => {
       if (request.action === MSG_C2PA_VALIDATE_URL) {
-        void validateUrl(request.data as string).then(sendResponse)
+        const { url, options } = request.data as ValidationRequest
+        // the sender waits for a response, so an unexpected error is returned like a read error
+        void validateUrl(url, options)
+          .catch((error: Error): C2paError => {
+            console.error('Error validating C2PA:', url, error)
+            return { message: error.message, url, name: error.name }
+          })
+          .then(sendResponse)
         return AWAIT_ASYNC_RESPONSE
       }
     }
   )
 }
 
-export async function validateUrl (url: string): Promise<C2paResult | C2paError> {
+export async function validateUrl (url: string, options: ValidationOptions = { sidecar: false }): Promise<C2paResult | C2paError> {
   if (c2pa == null) {
     return new Error('C2PA not initialized') as C2paError
   }
 
-  const c2paResult = await c2pa.read(url).catch((error: Error) => {
+  /*
+    The asset is fetched by the extension and handed to the library, so that the response headers
+    (e.g. a Link header referencing a remote manifest) are available without another request
+  */
+  const asset = await fetchAsset(url).catch((error: Error) => {
+    console.error('Error fetching asset:', url, error)
+    return error
+  })
+  if (asset instanceof Error) {
+    return { message: asset.message, url, name: asset.name } satisfies C2paError
+  }
+
+  /*
+    Every font loaded by a page is validated, and few carry a manifest: fonts without a C2PA table are not read.
+    A font whose table directory cannot be read is left to the library.
+  */
+  const sourceBytes = new Uint8Array(await asset.file.arrayBuffer())
+  if (isFont(sourceBytes) && !await hasC2paTable(sourceBytes).catch(() => true)) {
+    return { message: 'No manifest found', url, name: 'No Manifest' } satisfies C2paError
+  }
+
+  /*
+    The parser is chosen from the file signature; the declared type (e.g. application/octet-stream from a CDN)
+    is only used when the format is not recognized. The library, which also chooses its parser from the type,
+    is given the file with the sniffed type.
+  */
+  const declaredType = asset.file.type
+  const sniffedType = sniffMimeType(sourceBytes)
+  const sourceType = sniffedType ?? declaredType
+  const warnings: string[] = []
+  if (sniffedType != null && isMimeTypeMismatch(declaredType, sniffedType)) {
+    warnings.push(`Declared media type ${declaredType} does not match the file content (${sniffedType})`)
+  }
+
+  const c2paResult = await c2pa.read(new File([sourceBytes], asset.file.name, { type: sourceType })).catch((error: Error) => {
     console.error('Error reading C2PA:', url, error)
     return error
   })
@@ -67,68 +178,242 @@ export async function validateUrl (url: string): Promise<C2paResult | C2paError>
     return { message: c2paResult.message, url, name: c2paResult.name } satisfies C2paError
   }
 
+  let manifestSource: ManifestSource = { type: 'embedded', url }
+  let manifestResult = c2paResult
+  let storeBytes: Uint8Array | null = null
+  let hardBinding: HardBindingResult | null = null
+
   if (c2paResult.manifestStore?.activeManifest == null) {
-    return { message: 'No manifest found', url, name: 'No Manifest' } satisfies C2paError
+    /*
+      The C2PA library found no manifest: extract an embedded manifest store from formats the library
+      does not read (e.g. ZIP-based documents), follow a remote manifest reference,
+      or, if enabled, look for a sidecar manifest store next to the asset
+    */
+    const embedded = await readEmbeddedManifestStore(c2pa, url, sourceType, sourceBytes)
+    const remoteUrl = embedded == null ? getRemoteManifestUrl(url, sourceType, sourceBytes, asset.link) : null
+    const remote = remoteUrl != null ? await readManifestStore(c2pa, remoteUrl) : null
+    const store = embedded ?? remote ?? (options.sidecar ? await readSidecar(c2pa, url) : null)
+    if (store == null) {
+      return { message: 'No manifest found', url, name: 'No Manifest' } satisfies C2paError
+    }
+    manifestSource = { type: embedded != null ? 'embedded' : remote != null ? 'remote' : 'sidecar', url: store.url }
+    manifestResult = store.result
+    storeBytes = store.bytes
+    // the library only read the manifest store, so the binding to the asset is verified by the extension alone
+    hardBinding = await verifyHardBinding(store.bytes, sourceBytes, activeManifestLabel(manifestResult)).catch((error: Error): HardBindingResult => {
+      console.debug('Could not verify the hard binding:', url, error)
+      return { assertion: '', alg: '', valid: false, errors: [`Could not verify the binding to the asset: ${error.message}`] }
+    })
+    if (hardBinding == null) {
+      warnings.push('The manifest has no data, box or collection hash assertion; its binding to the asset was not verified')
+    }
+  } else {
+    storeBytes = await getManifestFromMetadata(sourceType, sourceBytes).catch((error: Error) => {
+      console.debug('Could not extract manifest store:', url, error)
+      warnings.push(`Could not extract the manifest store: ${error.message}`)
+      return null
+    })
+    /*
+      The library verifies the binding too, but does not say which bytes do not match;
+      BMFF assets are bound by c2pa.hash.bmff assertions, which are not verified here
+    */
+    hardBinding = storeBytes != null
+      ? await verifyHardBinding(storeBytes, sourceBytes, activeManifestLabel(manifestResult)).catch((error: Error) => {
+        console.debug('Could not verify the hard binding:', url, error)
+        warnings.push(`Could not verify the binding to the asset: ${error.message}`)
+        return null
+      })
+      : null
   }
 
-  const serializedResult = await serializeC2paReadResult(c2paResult)
-
-  const sourceBuffer = await c2paResult.source.arrayBuffer()
+  /*
+    The manifest store is decoded into a JUMBF structure, from which the claims, claim signatures and assertions are read
+  */
+  let jumbf: JumbfResult | null = null
+  try {
+    jumbf = storeBytes != null ? jumbfDecode(storeBytes) : null
+  } catch (error) {
+    console.debug('Could not decode manifest store:', url, error)
+    warnings.push(`Could not decode the manifest store: ${(error as Error).message}`)
+  }
+  const manifestSignatures = jumbf != null ? await extractManifestSignatures(jumbf) : {}
+  const claims = jumbf != null ? extractClaims(jumbf) : {}
+  const assertions = jumbf != null ? extractAssertions(jumbf) : {}
+
+  const serializedResult = await serializeC2paReadResult(manifestResult, claims, assertions)
+  // the active manifest is the one the library reports, or else the last manifest of the store
+  const activeLabel = activeManifestLabel(manifestResult) ?? Object.keys(manifestSignatures).pop()
+  const activeSignature = activeLabel != null ? manifestSignatures[activeLabel] ?? null : null
+  const signature = activeSignature?.signature ?? null
+  // the source is always the asset, even when the manifest store came from a remote or sidecar file
+  serializedResult.source = await serializeSource(c2paResult.source)
+  if (serializedResult.source.thumbnail.data === '' && sourceType === MIME.MPEG) {
+    serializedResult.source.thumbnail = await coverArtThumbnail(sourceBytes) ?? serializedResult.source.thumbnail
+  }
+  // failures the library already reported are not repeated
+  const libraryCodes: string[] = manifestResult.manifestStore?.validationStatus.map((status: { code: string }) => status.code) ?? []
+  if (!libraryCodes.some((code) => HARD_BINDING_FAILURE_CODES.includes(code))) {
+    hardBinding?.errors.forEach((error) => serializedResult.manifestStore.validationStatus.push(error))
+  }
+  if (signature?.valid === false && !libraryCodes.some((code) => SIGNATURE_FAILURE_CODES.includes(code))) {
+    signature.errors.forEach((error) => serializedResult.manifestStore.validationStatus.push(error))
+  }
+  Object.entries(manifestSignatures).forEach(([label, { signature }]) => {
+    if (label !== activeLabel && signature.valid === false) {
+      signature.errors.forEach((error) => warnings.push(`Manifest ${label}: ${error}`))
+    }
+  })
 
-  const cose = await extractC2paManifest(c2paResult.source.type, new Uint8Array(sourceBuffer))
+  /*
+    Fragmented BMFF media are covered fragment-by-fragment by C2PA merkle boxes.
+    Fragments that are not covered, or whose hash does not match the merkle tree of the active manifest's
+    c2pa.hash.bmff.v2 assertion, are reported as validation errors.
+  */
+  let fragments: BmffFragment[] | null = null
+  try {
+    fragments = getBmffFragments(sourceBytes)
+  } catch (error) {
+    warnings.push(`Could not read the fragments of the asset: ${(error as Error).message}`)
+  }
+  const bmffHash = (activeLabel != null ? assertions[activeLabel] ?? [] : []).find((assertion) => assertion.type === 'c2pa.hash.bmff')
+  if (fragments != null && bmffHash?.type === 'c2pa.hash.bmff' && bmffHash.data.merkle != null) {
+    fragments = await verifyFragments(sourceBytes, fragments, bmffHash.data)
+  }
+  fragments?.filter((fragment) => fragment.error != null).forEach((fragment) => {
+    serializedResult.manifestStore.validationStatus.push(`Fragment ${fragment.index} (offset ${fragment.offset}): ${fragment.error}`)
+  })
+  if (fragments?.some((fragment) => fragment.covered && !fragment.verified && fragment.error == null) === true) {
+    warnings.push('The manifest has no c2pa.hash.bmff.v2 merkle trees; the fragments were not verified')
+  }
 
-  const editsAndActivity = ((c2paResult.manifestStore?.activeManifest) != null) ? await selectEditsAndActivity(c2paResult.manifestStore?.activeManifest) : null
+  const editsAndActivity = ((manifestResult.manifestStore?.activeManifest) != null) ? await selectEditsAndActivity(manifestResult.manifestStore?.activeManifest) : null
 
   const result: C2paResult = {
     ...serializedResult,
     url,
     trustList: null,
     tsaTrustList: null,
-    certChain: cose?.unprotected?.x5chain ?? cose?.protected.x5chain ?? null,
-    tstTokens: cose?.unprotected?.sigTst?.tstTokens ?? null,
-    editsAndActivity
+    certChain: activeSignature?.certChain ?? null,
+    tstTokens: activeSignature?.tstTokens ?? null,
+    editsAndActivity,
+    fragments,
+    manifestSource,
+    hardBinding,
+    signature,
+    manifestSignatures,
+    warnings
   }
 
   return result
 }
 
-export async function extractC2paManifest (type: string, mediaBuffer: Uint8Array): Promise<COSE_Sign1 | null> {
-  const rawManifestBuffer = getManifestFromMetadata(type, mediaBuffer)
-  if (rawManifestBuffer == null) {
+/*
+  The label of the manifest the library reports as active, or null if it reports none
+*/
+function activeManifestLabel (result: C2paReadResult): string | null {
+  const manifestStore: ManifestStore | null = result.manifestStore
+  const c2paManifests: ManifestMap = manifestStore?.manifests ?? {}
+  return Object.entries(c2paManifests).find(([, manifest]) => manifest === manifestStore?.activeManifest)?.[0] ?? null
+}
+
+async function readSidecar (c2pa: C2pa, assetUrl: string): Promise<ManifestStoreResult | null> {
+  const sidecarUrl = getSidecarUrl(assetUrl)
+  if (sidecarUrl == null) {
     return null
   }
+  return await readManifestStore(c2pa, sidecarUrl)
+}
 
-  /*
-    The manifest buffer is decoded into a JUMBF structure.
-  */
-  const jumbf = jumbfDecode(rawManifestBuffer)
-
-  /*
-    C2PA manifest files are expected to have a jumbf box with a label 'c2pa.signature' containing a cbor box
-  */
-  const jumbfBox = jumbf.labels['c2pa.signature']
-  if (jumbfBox == null || jumbfBox.boxes.length === 0 || jumbfBox.boxes[0].type !== 'cbor') {
+/*
+  Extracts the manifest store from the asset and reads it on its own, as a bare (.c2pa) manifest store
+*/
+async function readEmbeddedManifestStore (c2pa: C2pa, assetUrl: string, type: string, assetBytes: Uint8Array): Promise<ManifestStoreResult | null> {
+  const bytes = await getManifestFromMetadata(type, assetBytes).catch((error: Error) => {
+    console.debug('Could not extract manifest store:', assetUrl, error)
+    return null
+  })
+  if (bytes == null) {
+    return null
+  }
+  const result = await c2pa.read(new Blob([bytes], { type: MIME.C2PA })).catch((error: Error) => {
+    console.debug('Could not read embedded manifest store:', assetUrl, error)
+    return null
+  })
+  if (result?.manifestStore?.activeManifest == null) {
     return null
   }
+  return { url: assetUrl, result, bytes }
+}
 
-  const contentBox = jumbfBox.boxes[0]
+async function fetchAsset (url: string): Promise<FetchedAsset> {
+  const response = await fetch(url)
+  if (!response.ok) {
+    throw new Error(`Could not fetch the asset: ${response.status} ${response.statusText}`)
+  }
+  const blob = await response.blob()
+  // the library names the source after the file
+  const { protocol, pathname } = new URL(url)
+  const name = protocol === 'http:' || protocol === 'https:' ? pathname.substring(pathname.lastIndexOf('/') + 1) : ''
+  return { file: new File([blob], name, { type: blob.type }), link: response.headers.get('Link') }
+}
 
-  /*
-    The first, and only box, should have a 'cbor' type
-  */
-  if (contentBox?.type !== 'cbor' || !isContentBox(contentBox)) {
-    console.error('Expected cbor content-box in jumbf')
+async function readManifestStore (c2pa: C2pa, storeUrl: string): Promise<ManifestStoreResult | null> {
+  const result = await c2pa.read(storeUrl).catch((error: Error) => {
+    console.debug('No manifest store:', storeUrl, error)
+    return null
+  })
+  if (result?.manifestStore?.activeManifest == null) {
     return null
   }
+  const buffer: ArrayBuffer = await result.source.arrayBuffer()
+  return { url: storeUrl, result, bytes: new Uint8Array(buffer) }
+}
 
-  const coseData = contentBox.data
+/*
+  MP3 files have no thumbnail in the manifest, the ID3 cover art is shown instead
+*/
+async function coverArtThumbnail (bytes: Uint8Array): Promise<ExtensionC2paResult['source']['thumbnail'] | null> {
+  try {
+    const coverArt = getCoverArt(bytes)
+    if (coverArt == null || !coverArt.mimeType.startsWith('image/')) {
+      return null
+    }
+    return { type: coverArt.mimeType, data: await blobToDataURL(new Blob([coverArt.data], { type: coverArt.mimeType })) }
+  } catch (error) {
+    console.debug('Could not read cover art:', error)
+    return null
+  }
+}
 
-  const cose = await coseDecode(coseData)
-  if (cose == null) {
-    console.error('Could not decode COSE')
+/*
+  Manifests whose claim is missing or malformed are left out; the C2PA library reports them as invalid
+*/
+function extractClaims (store: JumbfBox): Record<string, Claim> {
+  const claims: Record<string, Claim> = {}
+  for (const manifest of manifests(store)) {
+    try {
+      const claim = decodeClaim(manifest)
+      if (claim != null && manifest.label != null) {
+        claims[manifest.label] = claim
+      }
+    } catch (error) {
+      console.error('Could not decode claim:', manifest.label, error)
+    }
   }
+  return claims
+}
 
-  return cose
+/*
+  Assertions that cannot be decoded are kept as unknown assertions, so every manifest with a label has an entry
+*/
+function extractAssertions (store: JumbfBox): Record<string, Assertion[]> {
+  const assertions: Record<string, Assertion[]> = {}
+  for (const manifest of manifests(store)) {
+    if (manifest.label != null) {
+      assertions[manifest.label] = decodeAssertions(manifest)
+    }
+  }
+  return assertions
 }
 
 void init()
@@ -156,6 +441,14 @@ export interface ExtensionC2paManifest {
     issuer: string
   }
   ingredients: ExtensionC2paIngredient[]
+  /**
+   * The claim, decoded by the extension from the manifest store
+   */
+  claim: Claim | null
+  /**
+   * The assertions of the manifest's assertion store, decoded by the extension
+   */
+  assertions: Assertion[]
 }
 
 export interface ExtensionC2paResult {
@@ -175,7 +468,7 @@ export interface ExtensionC2paResult {
   }
 }
 
-async function serializeC2paReadResult (result: C2paReadResult): Promise<ExtensionC2paResult> {
+async function serializeC2paReadResult (result: C2paReadResult, claims: Record<string, Claim> = {}, assertions: Record<string, Assertion[]> = {}): Promise<ExtensionC2paResult> {
   const manifestStore: ManifestStore | null = result.manifestStore
   if (manifestStore == null) {
     throw new Error('Manifest store is null')
@@ -201,40 +494,46 @@ async function serializeC2paReadResult (result: C2paReadResult): Promise<Extensi
             data: ''
           }
         }
-      })
+      }),
+      claim: claims[key] ?? null,
+      assertions: assertions[key] ?? []
     }
   }
   )
 
   const activeManifestIndex = Object.values(c2paManifests).indexOf(c2paActiveManifest)
 
+  return {
+    manifestStore: {
+      manifests,
+      activeManifest: activeManifestIndex,
+      validationStatus: manifestStore.validationStatus.map(status => status.explanation ?? status.code.toString())
+    },
+    source: await serializeSource(result.source)
+  }
+}
+
+async function serializeSource (source: C2paReadResult['source']): Promise<ExtensionC2paResult['source']> {
   const thumbnailData =
-  !(result.source.thumbnail.contentType?.startsWith('image/') ?? false)
+  !(source.thumbnail.contentType?.startsWith('image/') ?? false)
     ? ''
-    : result.source.thumbnail.blob != null
-      ? await blobToDataURL(result.source.thumbnail.blob)
+    : source.thumbnail.blob != null
+      ? await blobToDataURL(source.thumbnail.blob)
       : ''
 
-  const sourceData = (result.source.type?.startsWith('video/') ?? false)
+  const sourceData = (source.type?.startsWith('video/') ?? false)
     ? ''
-    : result.source.blob != null
-      ? await blobToDataURL(result.source.blob)
+    : source.blob != null
+      ? await blobToDataURL(source.blob)
       : ''
 
   return {
-    manifestStore: {
-      manifests,
-      activeManifest: activeManifestIndex,
-      validationStatus: manifestStore.validationStatus.map(status => status.explanation ?? status.code.toString())
+    thumbnail: {
+      type: source.thumbnail.contentType ?? '',
+      data: thumbnailData
     },
-    source: {
-      thumbnail: {
-        type: result.source.thumbnail.contentType ?? '',
-        data: thumbnailData
-      },
-      type: result.source.type,
-      data: sourceData,
-      filename: result.source.metadata.filename ?? ''
-    }
+    type: source.type,
+    data: sourceData,
+    filename: source.metadata.filename ?? ''
   }
 }
@@ -0,0 +1,539 @@
+/*
+ *  Copyright (c) Microsoft Corporation.
+ *  Licensed under the MIT license.
+ */
+
+import { bytesToBase64, bytesToHex } from '../utils.js'
+import { decode as cborDecode, CBORSimpleValue, CBORTag } from './cbor.js'
+import { decodeHashedUri, type HashedUri } from './claim.js'
+import { childBox, isContentBox, type ContentBox, type JumbfBox } from './jumbf.js'
+
+const ASSERTION_STORE_LABEL = 'c2pa.assertions'
+const THUMBNAIL_PREFIX = 'c2pa.thumbnail.'
+
+/*
+  Assertions are decoded to JSON-compatible values, so they can be sent in extension messages:
+  byte strings become hex strings, dates ISO strings, big integers decimal strings, and maps with non-text keys objects
+*/
+type Json = string | number | boolean | null | Json[] | { [key: string]: Json }
+
+export interface Action {
+  action: string
+  when?: string
+  /**
+   * A user agent string (v1), or a claim generator info map (v2)
+   */
+  softwareAgent?: string | Record<string, Json>
+  digitalSourceType?: string
+  /**
+   * The part of the asset changed; v1 only
+   */
+  changed?: string
+  /**
+   * The regions of the asset changed; v2 only
+   */
+  changes?: Json[]
+  instanceId?: string
+  parameters?: Record<string, Json>
+  reason?: string
+  description?: string
+  [key: string]: Json | undefined
+}
+
+export interface ActionsAssertion {
+  actions: Action[]
+  templates?: Array<Record<string, Json>>
+  softwareAgents?: Json[]
+  allActionsIncluded?: boolean
+  metadata?: Record<string, Json>
+}
+
+export interface HashExclusion {
+  start: number
+  length: number
+}
+
+export interface DataHashAssertion {
+  exclusions?: HashExclusion[]
+  alg?: string
+  hash: string
+  pad?: string
+  name?: string
+}
+
+export interface BmffExclusion {
+  xpath: string
+  length?: number
+  data?: Array<{ offset: number, value: string }>
+  subset?: Array<{ offset: number, length: number }>
+  version?: number
+  flags?: string
+  exact?: boolean
+}
+
+export interface BmffMerkleMap {
+  uniqueId: number
+  localId: number
+  count: number
+  alg?: string
+  initHash?: string
+  hashes: string[]
+}
+
+export interface BmffHashAssertion {
+  exclusions?: BmffExclusion[]
+  alg?: string
+  /**
+   * The hash of the whole asset; absent when the asset is covered by merkle trees instead
+   */
+  hash?: string
+  merkle?: BmffMerkleMap[]
+  name?: string
+}
+
+export interface BoxHashEntry {
+  names: string[]
+  alg?: string
+  hash: string
+  pad?: string
+  excluded?: boolean
+}
+
+export interface BoxHashAssertion {
+  boxes: BoxHashEntry[]
+  alg?: string
+}
+
+export interface CollectionHashUri {
+  uri: string
+  hash: string
+  size?: number
+  dc_format?: string
+}
+
+export interface CollectionHashAssertion {
+  uris: CollectionHashUri[]
+  alg?: string
+  zip_central_directory_hash?: string
+}
+
+export interface ValidationStatusEntry {
+  code: string
+  url?: string
+  explanation?: string
+}
+
+/**
+ * An ingredient assertion; fields introduced by later versions are absent from earlier ones.
+ * v1 and v2 reference the ingredient's manifest with c2pa_manifest, v3 with activeManifest.
+ */
+export interface IngredientAssertion {
+  'dc:title'?: string
+  'dc:format'?: string
+  documentID?: string
+  instanceID?: string
+  relationship: string
+  c2pa_manifest?: HashedUri
+  activeManifest?: HashedUri
+  claimSignature?: HashedUri
+  thumbnail?: HashedUri
+  data?: HashedUri
+  validationStatus?: ValidationStatusEntry[]
+  validationResults?: Record<string, Json>
+  description?: string
+  informational_URI?: string
+  metadata?: Record<string, Json>
+  [key: string]: Json | HashedUri | ValidationStatusEntry[] | undefined
+}
+
+export interface ThumbnailAssertion {
+  mediaType: string
+  /**
+   * The thumbnail as a data URL
+   */
+  data: string
+}
+
+/**
+ * A JSON-LD assertion (stds.exif, stds.iptc, stds.schema-org.*)
+ */
+export interface JsonLdAssertion {
+  '@context'?: Json
+  [key: string]: unknown
+}
+
+export interface CreativeWorkAssertion extends JsonLdAssertion {
+  '@type'?: string
+  author?: Array<{ '@type'?: string, name?: string, identifier?: string, credential?: Json[], [key: string]: unknown }>
+}
+
+export interface TrainingMiningEntry {
+  use: 'allowed' | 'notAllowed' | 'constrained'
+  constraint_info?: string
+}
+
+export interface TrainingMiningAssertion {
+  entries: Record<string, TrainingMiningEntry>
+  metadata?: Record<string, Json>
+}
+
+export interface SoftBindingAssertion {
+  alg: string
+  blocks: Array<{ scope: Record<string, Json>, value: string }>
+  pad?: string
+  name?: string
+  alg_params?: string
+  url?: string
+}
+
+interface TypedAssertion<T extends string, D> {
+  /**
+   * The label of the assertion box, with its version and instance suffixes (e.g. 'c2pa.actions.v2__1')
+   */
+  label: string
+  type: T
+  /**
+   * The version of the label's '.vN' suffix, 1 if it has none
+   */
+  version: number
+  data: D
+}
+
+export type Assertion =
+  | TypedAssertion<'c2pa.actions', ActionsAssertion>
+  | TypedAssertion<'c2pa.hash.data', DataHashAssertion>
+  | TypedAssertion<'c2pa.hash.bmff', BmffHashAssertion>
+  | TypedAssertion<'c2pa.hash.boxes', BoxHashAssertion>
+  | TypedAssertion<'c2pa.hash.collection.data', CollectionHashAssertion>
+  | TypedAssertion<'c2pa.ingredient', IngredientAssertion>
+  | TypedAssertion<'c2pa.thumbnail', ThumbnailAssertion>
+  | TypedAssertion<'stds.exif', JsonLdAssertion>
+  | TypedAssertion<'stds.iptc', JsonLdAssertion>
+  | TypedAssertion<'stds.schema-org.CreativeWork', CreativeWorkAssertion>
+  | TypedAssertion<'c2pa.training-mining', TrainingMiningAssertion>
+  | TypedAssertion<'c2pa.soft-binding', SoftBindingAssertion>
+  | UnknownAssertion
+
+/**
+ * An assertion that is not one of the standard assertions above, or that does not have the expected structure
+ */
+export interface UnknownAssertion {
+  label: string
+  type: 'unknown'
+  version: number
+  /**
+   * The type of the assertion's content box (e.g. 'cbor', 'json')
+   */
+  contentType: string
+  data: Json
+  /**
+   * Why a standard assertion was not decoded
+   */
+  error?: string
+}
+
+/**
+ * Decodes the assertions of a manifest's assertion store, in store order.
+ * Assertions other than the standard ones, and malformed standard assertions, are returned as unknown assertions
+ * with their raw CBOR or JSON content.
+ */
+export function decodeAssertions (manifest: JumbfBox): Assertion[] {
+  const store = childBox(manifest, ASSERTION_STORE_LABEL)
+  if (store == null) {
+    return []
+  }
+  return store.boxes
+    .filter((box): box is JumbfBox => !isContentBox(box) && box.label != null)
+    .map((box) => decodeAssertion(box))
+}
+
+function decodeAssertion (box: JumbfBox): Assertion {
+  const label = box.label ?? ''
+  // 'c2pa.actions.v2__1': the '__N' suffix numbers the instances of an assertion, the '.vN' suffix its version
+  const base = label.replace(/__\d+$/, '')
+  const versionMatch = /\.v(\d+)$/.exec(base)
+  const version = versionMatch != null ? parseInt(versionMatch[1], 10) : 1
+  const type = versionMatch != null ? base.substring(0, versionMatch.index) : base
+  const contentBoxes = box.boxes.filter(isContentBox)
+
+  if (type.startsWith(THUMBNAIL_PREFIX)) {
+    try {
+      return { label, type: 'c2pa.thumbnail', version, data: decodeThumbnail(contentBoxes) }
+    } catch (error) {
+      return { label, type: 'unknown', version, contentType: contentBoxes[0]?.type ?? '', data: null, error: (error as Error).message }
+    }
+  }
+
+  const content = contentBoxes[0]
+  let value: unknown
+  try {
+    value = decodeContent(content)
+  } catch (error) {
+    return { label, type: 'unknown', version, contentType: content?.type ?? '', data: null, error: (error as Error).message }
+  }
+
+  try {
+    switch (type) {
+      case 'c2pa.actions':
+        return { label, type, version, data: decodeActions(value) }
+      case 'c2pa.hash.data':
+        return { label, type, version, data: decodeDataHash(value) }
+      case 'c2pa.hash.bmff':
+        return { label, type, version, data: decodeBmffHash(value) }
+      case 'c2pa.hash.boxes':
+        return { label, type, version, data: decodeBoxHash(value) }
+      case 'c2pa.hash.collection.data':
+        return { label, type, version, data: decodeCollectionHash(value) }
+      case 'c2pa.ingredient':
+        return { label, type, version, data: decodeIngredient(value, label) }
+      case 'stds.exif':
+      case 'stds.iptc':
+        return { label, type, version, data: decodeJsonLd(value) }
+      case 'stds.schema-org.CreativeWork':
+        return { label, type, version, data: decodeCreativeWork(value) }
+      case 'c2pa.training-mining':
+        return { label, type, version, data: decodeTrainingMining(value) }
+      case 'c2pa.soft-binding':
+        return { label, type, version, data: decodeSoftBinding(value) }
+      default:
+        return { label, type: 'unknown', version, contentType: content?.type ?? '', data: toJson(value) }
+    }
+  } catch (error) {
+    return { label, type: 'unknown', version, contentType: content?.type ?? '', data: toJson(value), error: (error as Error).message }
+  }
+}
+
+function decodeContent (content: ContentBox | undefined): unknown {
+  if (content == null) {
+    throw new Error('Assertion has no content box')
+  }
+  switch (content.type) {
+    case 'cbor':
+      return cborDecode(content.data)
+    case 'json':
+      return JSON.parse(new TextDecoder().decode(content.data))
+    default:
+      return bytesToHex(content.data)
+  }
+}
+
+function decodeActions (value: unknown): ActionsAssertion {
+  const assertion = record(value, 'actions assertion')
+  const actions = array(assertion.actions, 'actions').map((action) => {
+    const entry = record(action, 'action')
+    string(entry.action, 'action')
+    return toJson(entry) as Action
+  })
+  return { ...toJson(assertion) as Omit<ActionsAssertion, 'actions'>, actions }
+}
+
+/**
+ * Decodes the CBOR content of a c2pa.hash.data assertion; throws if it does not have the expected structure.
+ */
+export function decodeDataHash (value: unknown): DataHashAssertion {
+  const assertion = record(value, 'data hash assertion')
+  bytes(assertion.hash, 'hash')
+  optionalArray(assertion.exclusions, 'exclusions').forEach((exclusion) => {
+    const range = record(exclusion, 'exclusion')
+    number(range.start, 'exclusion start')
+    number(range.length, 'exclusion length')
+  })
+  return toJson(assertion) as unknown as DataHashAssertion
+}
+
+function decodeBmffHash (value: unknown): BmffHashAssertion {
+  const assertion = record(value, 'BMFF hash assertion')
+  if (assertion.hash != null) {
+    bytes(assertion.hash, 'hash')
+  }
+  optionalArray(assertion.exclusions, 'exclusions').forEach((exclusion) => {
+    string(record(exclusion, 'exclusion').xpath, 'exclusion xpath')
+  })
+  optionalArray(assertion.merkle, 'merkle').forEach((merkle) => {
+    const map = record(merkle, 'merkle map')
+    number(map.uniqueId, 'merkle uniqueId')
+    number(map.localId, 'merkle localId')
+    array(map.hashes, 'merkle hashes').forEach((hash) => bytes(hash, 'merkle hash'))
+  })
+  if (assertion.hash == null && assertion.merkle == null) {
+    throw new Error('BMFF hash assertion has neither a hash nor merkle trees')
+  }
+  return toJson(assertion) as unknown as BmffHashAssertion
+}
+
+/**
+ * Decodes the CBOR content of a c2pa.hash.boxes assertion; throws if it does not have the expected structure.
+ */
+export function decodeBoxHash (value: unknown): BoxHashAssertion {
+  const assertion = record(value, 'box hash assertion')
+  array(assertion.boxes, 'boxes').forEach((box) => {
+    const entry = record(box, 'box hash')
+    array(entry.names, 'box names').forEach((name) => string(name, 'box name'))
+    bytes(entry.hash, 'box hash')
+  })
+  return toJson(assertion) as unknown as BoxHashAssertion
+}
+
+/**
+ * Decodes the CBOR content of a c2pa.hash.collection.data assertion; throws if it does not have the expected structure.
+ * The uris are an array of maps with a uri, or, as c2pa-rs writes them, a map from each uri to the rest of its map.
+ */
+export function decodeCollectionHash (value: unknown): CollectionHashAssertion {
+  const assertion = { ...record(value, 'collection hash assertion') }
+  if (!Array.isArray(assertion.uris) && assertion.uris != null && typeof assertion.uris === 'object') {
+    assertion.uris = Object.entries(record(assertion.uris, 'uris')).map(([uri, entry]) => ({ uri, ...record(entry, 'collection hash uri') }))
+  }
+  array(assertion.uris, 'uris').forEach((uri) => {
+    const entry = record(uri, 'collection hash uri')
+    string(entry.uri, 'uri')
+    bytes(entry.hash, 'uri hash')
+  })
+  if (assertion.zip_central_directory_hash != null) {
+    bytes(assertion.zip_central_directory_hash, 'ZIP central directory hash')
+  }
+  return toJson(assertion) as unknown as CollectionHashAssertion
+}
+
+/*
+  The hashed URIs of an ingredient keep the structure of the claim's hashed URIs
+*/
+const INGREDIENT_HASHED_URIS = ['c2pa_manifest', 'activeManifest', 'claimSignature', 'thumbnail', 'data']
+
+function decodeIngredient (value: unknown, label: string): IngredientAssertion {
+  const assertion = record(value, 'ingredient assertion')
+  const ingredient = toJson(assertion) as IngredientAssertion
+  for (const key of INGREDIENT_HASHED_URIS) {
+    if (assertion[key] != null) {
+      ingredient[key] = decodeHashedUri(assertion[key], label)
+    }
+  }
+  // the relationship defaults to componentOf
+  ingredient.relationship = assertion.relationship != null ? string(assertion.relationship, 'relationship') : 'componentOf'
+  return ingredient
+}
+
+/*
+  Embedded file thumbnails: a description box ('bfdb') with the media type, followed by the data box ('bidb').
+  The description box is a toggles byte (0x01: a file name follows the media type, 0x02: the data is an external URL)
+  and the null-terminated media type.
+*/
+function decodeThumbnail (boxes: ContentBox[]): ThumbnailAssertion {
+  const description = boxes.find((box) => box.type === 'bfdb')
+  const data = boxes.find((box) => box.type === 'bidb')
+  if (description == null || data == null) {
+    throw new Error('Thumbnail assertion is not an embedded file')
+  }
+  if ((description.data[0] & 0x02) !== 0) {
+    throw new Error('Thumbnail assertion references an external file')
+  }
+  const end = description.data.indexOf(0, 1)
+  const mediaType = new TextDecoder().decode(description.data.subarray(1, end === -1 ? undefined : end))
+  return { mediaType, data: `data:${mediaType};base64,${bytesToBase64(data.data)}` }
+}
+
+function decodeJsonLd (value: unknown): JsonLdAssertion {
+  return toJson(record(value, 'JSON-LD assertion')) as JsonLdAssertion
+}
+
+function decodeCreativeWork (value: unknown): CreativeWorkAssertion {
+  const assertion = record(value, 'CreativeWork assertion')
+  optionalArray(assertion.author, 'author').forEach((author) => record(author, 'author'))
+  return toJson(assertion) as CreativeWorkAssertion
+}
+
+function decodeTrainingMining (value: unknown): TrainingMiningAssertion {
+  const assertion = record(value, 'training and data mining assertion')
+  Object.values(record(assertion.entries, 'entries')).forEach((entry) => {
+    const use = string(record(entry, 'entry').use, 'use')
+    if (!['allowed', 'notAllowed', 'constrained'].includes(use)) {
+      throw new Error(`Invalid training and data mining use: ${use}`)
+    }
+  })
+  return toJson(assertion) as unknown as TrainingMiningAssertion
+}
+
+function decodeSoftBinding (value: unknown): SoftBindingAssertion {
+  const assertion = record(value, 'soft binding assertion')
+  string(assertion.alg, 'alg')
+  array(assertion.blocks, 'blocks').forEach((block) => {
+    const entry = record(block, 'block')
+    record(entry.scope, 'block scope')
+    string(entry.value, 'block value')
+  })
+  return toJson(assertion) as unknown as SoftBindingAssertion
+}
+
+/**
+ * Converts a decoded CBOR value to a JSON-compatible value.
+ */
+export function toJson (value: unknown): Json {
+  if (value instanceof Uint8Array) {
+    return bytesToHex(value)
+  }
+  if (value instanceof Date) {
+    return value.toISOString()
+  }
+  if (value instanceof CBORTag) {
+    return { tag: value.tag, value: toJson(value.value) }
+  }
+  if (value instanceof CBORSimpleValue) {
+    return { simple: value.simple }
+  }
+  if (value instanceof Map) {
+    return Object.fromEntries(Array.from(value.entries()).map(([key, entry]) => [String(key), toJson(entry)]))
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => toJson(item))
+  }
+  switch (typeof value) {
+    case 'bigint':
+      return value.toString()
+    case 'string':
+    case 'number':
+    case 'boolean':
+      return value
+    case 'object':
+      return value == null ? null : Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, toJson(entry)]))
+    default:
+      return null
+  }
+}
+
+function record (value: unknown, name: string): Record<string, unknown> {
+  if (typeof value !== 'object' || value == null || Object.getPrototypeOf(value) !== Object.prototype) {
+    throw new Error(`Expected ${name} to be a map`)
+  }
+  return value as Record<string, unknown>
+}
+
+function array (value: unknown, name: string): unknown[] {
+  if (!Array.isArray(value)) {
+    throw new Error(`Expected ${name} to be an array`)
+  }
+  return value
+}
+
+function optionalArray (value: unknown, name: string): unknown[] {
+  return value == null ? [] : array(value, name)
+}
+
+function string (value: unknown, name: string): string {
+  if (typeof value !== 'string') {
+    throw new Error(`Expected ${name} to be a string`)
+  }
+  return value
+}
+
+function number (value: unknown, name: string): number {
+  if (typeof value !== 'number') {
+    throw new Error(`Expected ${name} to be a number`)
+  }
+  return value
+}
+
+function bytes (value: unknown, name: string): Uint8Array {
+  if (!(value instanceof Uint8Array)) {
+    throw new Error(`Expected ${name} to be a byte string`)
+  }
+  return value
+}
@@ -3,38 +3,378 @@
  *  Licensed under the MIT license.
  */
 
+import { MIME } from '../constants.js'
 import { bytesToHex, formatUUID } from '../utils.js'
 import { ByteReader } from './byteReader.js'
+import { decode as cborDecode } from './cbor.js'
 
-export function parseBmffHeader (buffer: Uint8Array): Uint8Array | null {
+const C2PA_UUID = 'd8fec3d6-1b0e-483c-9297-5828877ec481'
+
+/*
+  Boxes that can start an init segment or a media segment
+*/
+const SEGMENT_START_BOXES = ['ftyp', 'styp', 'sidx', 'moof', 'uuid']
+
+/*
+  Boxes that can start an ISO BMFF file. The 'ftyp' box usually comes first, but QuickTime files
+  may have no 'ftyp' box, or start with 'wide', 'mdat' or 'moov' and carry it later.
+*/
+const FILE_START_BOXES = [...SEGMENT_START_BOXES, 'moov', 'mdat', 'wide', 'free', 'skip', 'pnot', 'meta']
+
+export interface BmffBox {
+  type: string
+  offset: number
+  size: number
+  data: Uint8Array
+}
+
+export interface C2paBox {
+  offset: number
+  purpose: 'manifest' | 'merkle'
+  merkleOffset?: number
+  manifest?: Uint8Array
+  merkle?: MerkleMap
+}
+
+/*
+  Payload of a C2PA 'merkle' box: identifies the leaf of the
+  c2pa.hash.bmff.v2 merkle tree that covers the following fragment.
+*/
+export interface MerkleMap {
+  uniqueId: number
+  localId: number
+  location: number
+  hashes?: Uint8Array[]
+}
+
+/*
+  The merkle box of a fragment, with its proof: the hashes (hex) of the sibling nodes on the path
+  from the fragment's leaf up to the row of the merkle tree stored in the c2pa.hash.bmff.v2 assertion
+*/
+export interface FragmentMerkle {
+  uniqueId: number
+  localId: number
+  location: number
+  hashes: string[]
+}
+
+export interface BmffFragment {
+  index: number
+  offset: number
+  length: number
+  merkle: FragmentMerkle | null
+  /**
+   * True if the fragment is preceded by a valid C2PA merkle box with a unique location
+   */
+  covered: boolean
+  /**
+   * True once the fragment has been hashed against the merkle tree of the c2pa.hash.bmff.v2 assertion (see verifyFragments)
+   */
+  verified: boolean
+  error: string | null
+}
+
+export interface FileTypeBox {
+  majorBrand: string
+  minorVersion: number
+  compatibleBrands: string[]
+}
+
+/*
+  Maps ISO BMFF brands to the media type they identify.
+  The major brand is checked first, then the compatible brands in order.
+*/
+const BRAND_MIME_TYPES: Record<string, string> = {
+  avif: MIME.AVIF,
+  avis: MIME.AVIF,
+  heic: MIME.HEIC,
+  heix: MIME.HEIC,
+  heim: MIME.HEIC,
+  heis: MIME.HEIC,
+  hevc: MIME.HEIC,
+  hevx: MIME.HEIC,
+  mif1: MIME.HEIF,
+  msf1: MIME.HEIF,
+  'M4A ': MIME.AUDIO_MP4,
+  'M4B ': MIME.AUDIO_MP4,
+  'M4P ': MIME.AUDIO_MP4,
+  'qt  ': MIME.QUICKTIME,
+  '3gp4': MIME.VIDEO_3GPP,
+  '3gp5': MIME.VIDEO_3GPP,
+  '3gp6': MIME.VIDEO_3GPP,
+  '3gp7': MIME.VIDEO_3GPP,
+  '3gs7': MIME.VIDEO_3GPP,
+  '3g2a': MIME.VIDEO_3GPP2,
+  '3g2b': MIME.VIDEO_3GPP2,
+  '3g2c': MIME.VIDEO_3GPP2,
+  'M4V ': MIME.X_M4V,
+  isom: MIME.MP4,
+  iso2: MIME.MP4,
+  iso4: MIME.MP4,
+  iso5: MIME.MP4,
+  iso6: MIME.MP4,
+  mp41: MIME.MP4,
+  mp42: MIME.MP4,
+  avc1: MIME.MP4,
+  dash: MIME.MP4
+}
+
+/**
+ * Returns the top-level boxes of an ISO BMFF buffer.
+ * Handles 64-bit box sizes (size === 1) and boxes that extend to the end of the file (size === 0).
+ */
+export function decodeBoxes (buffer: Uint8Array): BmffBox[] {
   const reader = new ByteReader(buffer)
+  const boxes: BmffBox[] = []
 
-  while (reader.remaining > 0) {
-    const size = reader.uint32()
+  while (reader.remaining >= 8) {
+    const offset = reader.offset
+    let size = reader.uint32()
     const type = reader.string(4)
+    if (size === 1) {
+      size = reader.uint64()
+    } else if (size === 0) {
+      size = reader.length - offset
+    }
+    const headerSize = reader.offset - offset
+    if (size < headerSize) {
+      throw new Error(`Invalid BMFF box size: ${type}`)
+    }
+    const data = reader.Uint8Array(size - headerSize)
+    boxes.push({ type, offset, size, data })
+  }
+
+  return boxes
+}
+
+/**
+ * Returns true if the buffer starts with a box that can start an ISO BMFF or QuickTime file.
+ */
+export function isBmff (buffer: Uint8Array): boolean {
+  const reader = new ByteReader(buffer)
+  if (reader.remaining < 8) {
+    return false
+  }
+  const size = reader.uint32()
+  const type = reader.string(4)
+  return FILE_START_BOXES.includes(type) && (size === 0 || size === 1 || size >= 8)
+}
+
+/**
+ * Decodes the 'ftyp' box of an ISO BMFF file, scanning the top-level boxes for it.
+ * Returns null when the buffer is not ISO BMFF or has no 'ftyp' box.
+ */
+export function decodeFileType (buffer: Uint8Array): FileTypeBox | null {
+  if (!isBmff(buffer)) {
+    return null
+  }
+  const box = scanBoxes(buffer).find((box) => box.type === 'ftyp')
+  if (box == null || box.data.length < 8) {
+    return null
+  }
+  const reader = new ByteReader(box.data)
+  const majorBrand = reader.string(4)
+  const minorVersion = reader.uint32()
+  const compatibleBrands: string[] = []
+  while (reader.remaining >= 4) {
+    compatibleBrands.push(reader.string(4))
+  }
+  return { majorBrand, minorVersion, compatibleBrands }
+}
+
+/**
+ * Determines the media type of an ISO BMFF file from its 'ftyp' brands.
+ * A QuickTime file without an 'ftyp' box is recognized from its 'moov' box.
+ * Returns null if the buffer is not ISO BMFF or none of its brands are recognized.
+ */
+export function getBmffMimeType (buffer: Uint8Array): string | null {
+  const ftyp = decodeFileType(buffer)
+  if (ftyp == null) {
+    return isBmff(buffer) && scanBoxes(buffer).some((box) => box.type === 'moov') ? MIME.QUICKTIME : null
+  }
+  for (const brand of [ftyp.majorBrand, ...ftyp.compatibleBrands]) {
+    const mimeType = BRAND_MIME_TYPES[brand]
+    if (mimeType != null) {
+      return mimeType
+    }
+  }
+  return null
+}
 
-    if (type === 'uuid') {
-      const uuid = formatUUID(bytesToHex(reader.Uint8Array(16)))
-      if (uuid !== 'd8fec3d6-1b0e-483c-9297-5828877ec481') {
-        throw new Error('Invalid UUID')
+/**
+ * Decodes a top-level 'uuid' box as a C2PA box.
+ * Returns null for uuid boxes that belong to other specifications (e.g. XMP).
+ */
+export function decodeC2paBox (box: BmffBox): C2paBox | null {
+  if (box.type !== 'uuid') {
+    return null
+  }
+  const reader = new ByteReader(box.data)
+  const uuid = formatUUID(bytesToHex(reader.Uint8Array(16)))
+  if (uuid !== C2PA_UUID) {
+    return null
+  }
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const version = reader.byte()
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const flags = reader.uint24()
+  const purpose = reader.string(0)
+  if (purpose === 'manifest') {
+    const merkleOffset = reader.uint64()
+    const manifest = reader.Uint8Array()
+    return { offset: box.offset, purpose, merkleOffset, manifest }
+  } else if (purpose === 'merkle') {
+    const merkle = decodeMerkleMap(reader.Uint8Array())
+    return { offset: box.offset, purpose, merkle }
+  } else {
+    throw new Error(`Unknown purpose: ${purpose}`)
+  }
+}
+
+/**
+ * Returns the manifest store of the first top-level C2PA 'manifest' box of an ISO BMFF buffer.
+ * Returns null if the buffer is not ISO BMFF or has no manifest box.
+ */
+export function parseBmffHeader (buffer: Uint8Array): Uint8Array | null {
+  if (!isBmff(buffer)) {
+    return null
+  }
+
+  for (const box of decodeBoxes(buffer)) {
+    let c2paBox: C2paBox | null = null
+    try {
+      c2paBox = decodeC2paBox(box)
+    } catch {
+      // a malformed merkle box, or a box of an unknown purpose, is reported on the fragment that follows it
+      continue
+    }
+    if (c2paBox?.manifest != null) {
+      return c2paBox.manifest
+    }
+  }
+  return null
+}
+
+/**
+ * Lists the fragments (a 'moof' box and the media data boxes that follow it) of a fragmented BMFF buffer.
+ * The buffer may be an init segment followed by fragments, or fragments on their own.
+ * Each fragment is expected to be preceded by a C2PA 'merkle' box; fragments without one, or
+ * whose merkle box is malformed or duplicated, are reported with an error.
+ * Returns null if the buffer is not fragmented.
+ */
+export function getBmffFragments (buffer: Uint8Array): BmffFragment[] | null {
+  const reader = new ByteReader(buffer)
+  if (reader.remaining < 8 || !SEGMENT_START_BOXES.includes(reader.move(4).string(4))) {
+    return null
+  }
+
+  const boxes = decodeBoxes(buffer)
+  if (!boxes.some((box) => box.type === 'moof')) {
+    return null
+  }
+
+  const fragments: BmffFragment[] = []
+  const locations = new Set<string>()
+  let pendingMerkle: MerkleMap | Error | null = null
+  let current: BmffFragment | null = null
+
+  for (const box of boxes) {
+    if (box.type === 'moof') {
+      current = {
+        index: fragments.length,
+        offset: box.offset,
+        length: box.size,
+        merkle: null,
+        covered: false,
+        verified: false,
+        error: null
       }
-      // eslint-disable-next-line @typescript-eslint/no-unused-vars
-      const version = reader.byte()
-      // eslint-disable-next-line @typescript-eslint/no-unused-vars
-      const flags = reader.uint24()
-      const purpose = reader.string(0)
-      if (purpose === 'manifest') {
-        // eslint-disable-next-line @typescript-eslint/no-unused-vars
-        const merkleOffset = reader.uint64()
-        const manifest = reader.Uint8Array()
-        return manifest
-      } else if (purpose === 'merkle') {
-        throw new Error('purpose===merkle not supported')
+      fragments.push(current)
+
+      if (pendingMerkle == null) {
+        current.error = 'fragment is not covered by a C2PA merkle box'
+      } else if (pendingMerkle instanceof Error) {
+        current.error = `invalid C2PA merkle box: ${pendingMerkle.message}`
       } else {
-        throw new Error(`Unknown purpose: ${purpose}`)
+        const key = `${pendingMerkle.uniqueId}/${pendingMerkle.localId}/${pendingMerkle.location}`
+        current.merkle = {
+          uniqueId: pendingMerkle.uniqueId,
+          localId: pendingMerkle.localId,
+          location: pendingMerkle.location,
+          hashes: (pendingMerkle.hashes ?? []).map((hash) => bytesToHex(hash))
+        }
+        if (locations.has(key)) {
+          current.error = `duplicate C2PA merkle location ${key}`
+        } else {
+          locations.add(key)
+          current.covered = true
+        }
+      }
+      pendingMerkle = null
+      continue
+    }
+
+    if (box.type === 'mdat' && current != null) {
+      // media data belongs to the preceding fragment
+      current.length = box.offset + box.size - current.offset
+      continue
+    }
+
+    if (box.type === 'uuid') {
+      try {
+        const c2paBox = decodeC2paBox(box)
+        if (c2paBox?.merkle != null) {
+          pendingMerkle = c2paBox.merkle
+        }
+      } catch (error) {
+        pendingMerkle = error as Error
       }
     }
-    reader.move(size - 8)
+    current = null
   }
-  return null
+
+  return fragments
+}
+
+/*
+  Unlike decodeBoxes, stops at the first box with an invalid size instead of throwing:
+  used to identify a file, which may be truncated or not be ISO BMFF at all
+*/
+function scanBoxes (buffer: Uint8Array): BmffBox[] {
+  const reader = new ByteReader(buffer)
+  const boxes: BmffBox[] = []
+
+  while (reader.remaining >= 8) {
+    const offset = reader.offset
+    let size = reader.uint32()
+    const type = reader.string(4)
+    if (size === 1) {
+      // a 64-bit size beyond Number.MAX_SAFE_INTEGER cannot be valid either
+      size = reader.remaining >= 8 && reader.peek.uint32() <= 0x1FFFFF ? reader.uint64() : 0
+    } else if (size === 0) {
+      size = reader.length - offset
+    }
+    const headerSize = reader.offset - offset
+    if (size < headerSize || offset + size > reader.length) {
+      break
+    }
+    boxes.push({ type, offset, size, data: reader.Uint8Array(size - headerSize) })
+  }
+
+  return boxes
+}
+
+function decodeMerkleMap (bytes: Uint8Array): MerkleMap {
+  const map = cborDecode(bytes) as Record<string, unknown> | null
+  if (map == null || typeof map !== 'object') {
+    throw new Error('merkle map is not a CBOR map')
+  }
+  const { uniqueId, localId, location, hashes } = map
+  if (typeof uniqueId !== 'number' || typeof localId !== 'number' || typeof location !== 'number') {
+    throw new Error('merkle map is missing uniqueId, localId or location')
+  }
+  if (hashes != null && !(Array.isArray(hashes) && hashes.every((hash) => hash instanceof Uint8Array))) {
+    throw new Error('merkle map hashes must be an array of byte strings')
+  }
+  return { uniqueId, localId, location, hashes: hashes as Uint8Array[] | undefined }
 }
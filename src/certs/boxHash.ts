@@ -0,0 +1,156 @@
+/*
+ *  Copyright (c) Microsoft Corporation.
+ *  Licensed under the MIT license.
+ */
+
+import { ByteReader } from './byteReader.js'
+
+/*
+  The c2pa.hash.boxes assertion hashes an asset as a sequence of named boxes: JPEG marker segments or PNG chunks.
+  The box holding the manifest store is named 'C2PA', whatever its type in the format.
+*/
+export const C2PA_BOX_NAME = 'C2PA'
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]
+const PNG_C2PA_CHUNK = 'caBX'
+
+const JPEG_SOI = 0xD8
+const JPEG_EOI = 0xD9
+const JPEG_SOS = 0xDA
+const JPEG_APP11 = 0xEB
+const JPEG_XT_COMMON_IDENTIFIER = 0x4A50 // 'JP'
+
+const JPEG_MARKER_NAMES: Record<number, string> = {
+  0x01: 'TEM',
+  0xC4: 'DHT',
+  0xC8: 'JPG',
+  0xCC: 'DAC',
+  0xD8: 'SOI',
+  0xD9: 'EOI',
+  0xDA: 'SOS',
+  0xDB: 'DQT',
+  0xDC: 'DNL',
+  0xDD: 'DRI',
+  0xDE: 'DHP',
+  0xDF: 'EXP',
+  0xFE: 'COM'
+}
+
+export interface AssetBox {
+  name: string
+  offset: number
+  length: number
+}
+
+/**
+ * Returns the boxes of a JPEG or PNG asset, in file order, as named by the c2pa.hash.boxes assertion.
+ * Returns null for other formats.
+ */
+export function decodeBoxMap (asset: Uint8Array): AssetBox[] | null {
+  if (asset[0] === 0xFF && asset[1] === JPEG_SOI) {
+    return decodeJpegBoxes(asset)
+  }
+  if (PNG_SIGNATURE.every((byte, index) => asset[index] === byte)) {
+    return decodePngBoxes(asset)
+  }
+  return null
+}
+
+/*
+  JPEG boxes are marker segments, named after their marker (e.g. 'APP1', 'SOF0', 'DQT').
+  The SOS box extends over the entropy-coded data that follows the scan header, up to the next marker.
+  Consecutive APP11 segments carrying JUMBF (JPEG XT) form the single 'C2PA' box.
+*/
+function decodeJpegBoxes (asset: Uint8Array): AssetBox[] {
+  const reader = new ByteReader(asset)
+  const boxes: AssetBox[] = []
+
+  while (!reader.finished) {
+    const offset = reader.offset
+    if (reader.byte() !== 0xFF) {
+      throw new Error(`Invalid JPEG marker at offset ${offset}`)
+    }
+    let marker = reader.byte()
+    while (marker === 0xFF /* fill bytes */) {
+      marker = reader.byte()
+    }
+
+    // markers without a length: SOI, EOI, RSTn and TEM
+    if (marker === JPEG_SOI || marker === JPEG_EOI || marker === 0x01 || (marker >= 0xD0 && marker <= 0xD7)) {
+      boxes.push({ name: jpegMarkerName(marker), offset, length: reader.offset - offset })
+      if (marker === JPEG_EOI) {
+        break
+      }
+      continue
+    }
+
+    const length = reader.uint16(false)
+    reader.absolute(reader.offset + length - 2)
+
+    if (marker === JPEG_SOS) {
+      skipEntropyCodedData(asset, reader)
+    }
+
+    const isC2pa = marker === JPEG_APP11 && length >= 4 && ((asset[offset + 4] << 8) | asset[offset + 5]) === JPEG_XT_COMMON_IDENTIFIER
+    const previous = boxes[boxes.length - 1]
+    if (isC2pa && previous?.name === C2PA_BOX_NAME && previous.offset + previous.length === offset) {
+      previous.length += reader.offset - offset
+      continue
+    }
+    boxes.push({ name: isC2pa ? C2PA_BOX_NAME : jpegMarkerName(marker), offset, length: reader.offset - offset })
+  }
+
+  return boxes
+}
+
+/*
+  Entropy-coded data ends at the first marker other than a stuffed zero (FF 00) or a restart marker (FF D0-D7)
+*/
+function skipEntropyCodedData (asset: Uint8Array, reader: ByteReader): void {
+  let index = reader.offset
+  while (index < asset.length - 1) {
+    if (asset[index] === 0xFF && asset[index + 1] !== 0x00 && !(asset[index + 1] >= 0xD0 && asset[index + 1] <= 0xD7)) {
+      break
+    }
+    index++
+  }
+  reader.absolute(index < asset.length - 1 ? index : asset.length)
+}
+
+function jpegMarkerName (marker: number): string {
+  if (marker >= 0xE0 && marker <= 0xEF) {
+    return `APP${marker - 0xE0}`
+  }
+  if (marker >= 0xD0 && marker <= 0xD7) {
+    return `RST${marker - 0xD0}`
+  }
+  if (marker >= 0xC0 && marker <= 0xCF && JPEG_MARKER_NAMES[marker] == null) {
+    return `SOF${marker - 0xC0}`
+  }
+  if (marker >= 0xF0 && marker <= 0xFD) {
+    return `JPG${marker - 0xF0}`
+  }
+  return JPEG_MARKER_NAMES[marker] ?? `0x${marker.toString(16).toUpperCase()}`
+}
+
+/*
+  PNG boxes are the signature ('PNGh') and the chunks (length, type, data and CRC), named after their type
+*/
+function decodePngBoxes (asset: Uint8Array): AssetBox[] {
+  const reader = new ByteReader(asset)
+  const boxes: AssetBox[] = [{ name: 'PNGh', offset: 0, length: PNG_SIGNATURE.length }]
+  reader.move(PNG_SIGNATURE.length)
+
+  while (reader.remaining > 0) {
+    const offset = reader.offset
+    const length = reader.uint32(false)
+    const type = reader.string(4)
+    reader.move(length + 4 /* CRC */)
+    boxes.push({ name: type === PNG_C2PA_CHUNK ? C2PA_BOX_NAME : type, offset, length: reader.offset - offset })
+    if (type === 'IEND') {
+      break
+    }
+  }
+
+  return boxes
+}
@@ -97,8 +97,10 @@ export class ByteReader {
    * @returns {number} The next 64-bit unsigned integer in the buffer.
    */
   uint64 = (littleEndian?: boolean | undefined): number => {
-    const peeking = this.#noAdvance
-    const uint64 = (this.uint32(littleEndian) * 0x100000000) + (peeking ? this.peek.uint32(littleEndian) : this.uint32(littleEndian))
+    const index = this.advance(8)
+    const high = this.#view.getUint32(index + (littleEndian === true ? 4 : 0), littleEndian)
+    const low = this.#view.getUint32(index + (littleEndian === true ? 0 : 4), littleEndian)
+    const uint64 = (high * 0x100000000) + low
     if (uint64 > Number.MAX_SAFE_INTEGER) {
       throw new RangeError('Number exceeds MAX_SAFE_INTEGER')
     }
@@ -137,7 +139,7 @@ export class ByteReader {
      * @returns {ByteReader} This ByteReader instance for chaining.
      */
   absolute = (offset: number): this => {
-    this.test(offset)
+    this.test(offset - this.#index)
     this.#index = offset
     return this
   }
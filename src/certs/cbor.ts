@@ -14,105 +14,575 @@ const MAJOR_TYPE_MAP = 5
 const MAJOR_TYPE_TAG = 6
 const MAJOR_TYPE_SIMPLE_AND_FLOAT = 7
 
-let reader: ByteReader
+const ADDITIONAL_INFORMATION_INDEFINITE = 31
+const BREAK = 0xFF
 
-export type CBORType = number | Record<string, unknown> | string | unknown[] | Uint8Array | boolean | null | undefined
+/*
+  Nesting limit, so that malicious input cannot exhaust the stack
+*/
+const MAX_DEPTH = 256
+
+/*
+  Tags that are decoded to a native value
+*/
+const TAG_DATE_TIME_STRING = 0
+const TAG_EPOCH_DATE_TIME = 1
+const TAG_POSITIVE_BIGNUM = 2
+const TAG_NEGATIVE_BIGNUM = 3
+const TAG_SELF_DESCRIBED_CBOR = 55799
+
+/*
+  Tags that are returned as a CBORTag, with a name instead of a number
+*/
+const KNOWN_TAGS: Record<number, string> = {
+  16: 'COSE_Encrypt0',
+  17: 'COSE_Mac0',
+  18: 'COSE_Sign1',
+  21: 'ExpectedBase64Url',
+  22: 'ExpectedBase64',
+  23: 'ExpectedBase16',
+  24: 'EncodedCBOR',
+  32: 'URI',
+  96: 'COSE_Encrypt',
+  97: 'COSE_Mac',
+  98: 'COSE_Sign'
+}
+
+/**
+ * A tagged data item whose tag is not decoded to a native value.
+ * Known tags (e.g. 18, 'COSE_Sign1') are identified by name, others by number.
+ * Tags and simple values are class instances so that they are not mistaken for maps with the same keys.
+ */
+export class CBORTag {
+  constructor (public tag: number | string, public value: CBORType) {}
+}
+
+/**
+ * A simple value other than false, true, null and undefined
+ */
+export class CBORSimpleValue {
+  constructor (public simple: number) {}
+}
+
+/**
+ * Maps whose keys are all text strings are decoded to plain objects.
+ * Maps with other keys (e.g. the integer labels of COSE headers) are decoded to a Map, which keeps the keys' types.
+ */
+export type CBORMap = Record<string, unknown> | Map<CBORType, CBORType>
+
+export interface EncodeOptions {
+  /**
+   * Sort map keys by their encoded bytes (the default), as the core deterministic encoding requires
+   */
+  sortKeys?: boolean
+}
+
+export type CBORType = number | bigint | Record<string, unknown> | Map<CBORType, CBORType> | string | unknown[] | Uint8Array |
+Date | CBORTag | CBORSimpleValue | boolean | null | undefined
 
+/**
+ * Decodes a CBOR data item (RFC 8949), including floats, indefinite-length items and big integers.
+ *
+ * - Integers beyond Number.MAX_SAFE_INTEGER, and bignums (tags 2 and 3), are decoded to a bigint
+ * - Dates (tags 0 and 1) are decoded to a Date; a self-described CBOR tag (55799) is removed
+ * - Other tags are decoded to a CBORTag
+ *
+ * Malformed input throws an error giving the offset of the offending byte.
+ */
 export function decode (buffer: Uint8Array): CBORType {
-  reader = new ByteReader(buffer)
-  return _decode()
+  const reader = new ByteReader(buffer)
+  return decodeItem(reader, 0)
 }
 
-function _decode (): CBORType {
-  const header = reader.byte()
+/**
+ * Encodes a data item using the core deterministic encoding (RFC 8949, section 4.2.1):
+ * the shortest argument and float encodings, definite lengths only, and map keys sorted by their encoded bytes.
+ *
+ * Decoding the output returns an equal value, and re-encoding a decoded item returns the original bytes when it was
+ * deterministically encoded, with these exceptions:
+ * - Numbers do not tell integers from floats, so floats with an integral value are encoded as integers
+ * - Dates are encoded as RFC 3339 date/time strings (tag 0), without fractional seconds when they are zero
+ *
+ * Writers that do not sort map keys (such as the C2PA SDK) can be matched by setting `sortKeys` to false,
+ * which keeps the maps' key order (for plain objects, the JavaScript property order).
+ */
+export function encode (value: CBORType, options: EncodeOptions = {}): Uint8Array {
+  const chunks: Uint8Array[] = []
+  encodeItem(value, chunks, 0, options.sortKeys ?? true)
+  return concat(chunks)
+}
+
+function decodeItem (reader: ByteReader, depth: number): CBORType {
+  const offset = reader.offset
+  if (depth > MAX_DEPTH) {
+    throw new Error(`CBOR nesting exceeds ${MAX_DEPTH} levels at offset ${offset}`)
+  }
+  const header = readByte(reader)
   const majorType = header >>> 5
   const additionalInformation = header & 0b00011111
 
-  if (majorType === MAJOR_TYPE_POSITIVE_INTEGER) {
-    const value = getLength(additionalInformation)
-    return value
+  if (additionalInformation === ADDITIONAL_INFORMATION_INDEFINITE) {
+    return decodeIndefinite(reader, majorType, depth, offset)
   }
 
-  if (majorType === MAJOR_TYPE_NEGATIVE_INTEGER) {
-    const value = getLength(additionalInformation)
-    return -1 - value
-  }
+  switch (majorType) {
+    case MAJOR_TYPE_POSITIVE_INTEGER:
+      return getArgument(reader, additionalInformation, offset)
+
+    case MAJOR_TYPE_NEGATIVE_INTEGER: {
+      const value = getArgument(reader, additionalInformation, offset)
+      return typeof value === 'bigint' ? -1n - value : safeInteger(-1n - BigInt(value))
+    }
+
+    case MAJOR_TYPE_BYTE_STRING:
+      return readBytes(reader, getLength(reader, additionalInformation, offset), offset)
 
-  if (majorType === MAJOR_TYPE_TEXT_STRING) {
-    const length = getLength(additionalInformation)
-    const text = reader.string(length)
-    return text
+    case MAJOR_TYPE_TEXT_STRING:
+      return decodeText(readBytes(reader, getLength(reader, additionalInformation, offset), offset), offset)
+
+    case MAJOR_TYPE_ARRAY: {
+      const length = getLength(reader, additionalInformation, offset)
+      const array: unknown[] = []
+      for (let i = 0; i < length; i++) {
+        array.push(decodeItem(reader, depth + 1))
+      }
+      return array
+    }
+
+    case MAJOR_TYPE_MAP: {
+      const pairs = getLength(reader, additionalInformation, offset)
+      const entries: Array<[CBORType, CBORType]> = []
+      for (let i = 0; i < pairs; i++) {
+        entries.push([decodeItem(reader, depth + 1), decodeItem(reader, depth + 1)])
+      }
+      return toMap(entries, offset)
+    }
+
+    case MAJOR_TYPE_TAG:
+      return decodeTag(getArgument(reader, additionalInformation, offset), decodeItem(reader, depth + 1), offset)
+
+    case MAJOR_TYPE_SIMPLE_AND_FLOAT:
+    default:
+      return decodeSimpleOrFloat(reader, additionalInformation, offset)
   }
+}
 
-  if (majorType === MAJOR_TYPE_MAP) {
-    const pairs = getLength(additionalInformation)
-    const map: Record<string, unknown> = {}
-    for (let j = 0; j < pairs; j++) {
-      const key = _decode() as unknown as string
-      const value = _decode()
-      map[key] = value
+/*
+  Indefinite-length strings are a series of definite-length strings of the same major type, ended by a break;
+  indefinite-length arrays and maps hold items until a break
+*/
+function decodeIndefinite (reader: ByteReader, majorType: number, depth: number, offset: number): CBORType {
+  switch (majorType) {
+    case MAJOR_TYPE_BYTE_STRING:
+    case MAJOR_TYPE_TEXT_STRING: {
+      const chunks: Uint8Array[] = []
+      while (!isBreak(reader)) {
+        const chunkOffset = reader.offset
+        const header = readByte(reader)
+        if (header >>> 5 !== majorType || (header & 0b00011111) === ADDITIONAL_INFORMATION_INDEFINITE) {
+          throw new Error(`Invalid CBOR indefinite-length string chunk at offset ${chunkOffset}`)
+        }
+        chunks.push(readBytes(reader, getLength(reader, header & 0b00011111, chunkOffset), chunkOffset))
+      }
+      const bytes = concat(chunks)
+      return majorType === MAJOR_TYPE_BYTE_STRING ? bytes : decodeText(bytes, offset)
     }
-    return map
+
+    case MAJOR_TYPE_ARRAY: {
+      const array: unknown[] = []
+      while (!isBreak(reader)) {
+        array.push(decodeItem(reader, depth + 1))
+      }
+      return array
+    }
+
+    case MAJOR_TYPE_MAP: {
+      const entries: Array<[CBORType, CBORType]> = []
+      while (!isBreak(reader)) {
+        const key = decodeItem(reader, depth + 1)
+        if (reader.remaining > 0 && reader.peek.byte() === BREAK) {
+          throw new Error(`CBOR map has a key without a value at offset ${reader.offset}`)
+        }
+        entries.push([key, decodeItem(reader, depth + 1)])
+      }
+      return toMap(entries, offset)
+    }
+
+    case MAJOR_TYPE_SIMPLE_AND_FLOAT:
+      throw new Error(`Unexpected CBOR break at offset ${offset}`)
+
+    default:
+      throw new Error(`Invalid indefinite length for CBOR major type ${majorType} at offset ${offset}`)
   }
+}
+
+/*
+  Consumes the break that ends an indefinite-length item, if it is next
+*/
+function isBreak (reader: ByteReader): boolean {
+  if (reader.remaining === 0) {
+    throw new Error(`CBOR indefinite-length item is not terminated at offset ${reader.offset}`)
+  }
+  if (reader.peek.byte() !== BREAK) {
+    return false
+  }
+  reader.move(1)
+  return true
+}
 
-  if (majorType === MAJOR_TYPE_ARRAY) {
-    const length = getLength(additionalInformation)
-    const array: unknown[] = []
-    for (let j = 0; j < length; j++) {
-      array.push(_decode())
+function decodeTag (tag: number | bigint, value: CBORType, offset: number): CBORType {
+  switch (tag) {
+    case TAG_DATE_TIME_STRING:
+      if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) {
+        throw new Error(`Invalid CBOR date/time string at offset ${offset}`)
+      }
+      return new Date(value)
+    case TAG_EPOCH_DATE_TIME:
+      if (typeof value !== 'number') {
+        throw new Error(`Invalid CBOR epoch date/time at offset ${offset}`)
+      }
+      return new Date(value * 1000)
+    case TAG_POSITIVE_BIGNUM:
+    case TAG_NEGATIVE_BIGNUM: {
+      if (!(value instanceof Uint8Array)) {
+        throw new Error(`Invalid CBOR bignum at offset ${offset}`)
+      }
+      const magnitude = value.reduce((result, byte) => (result << 8n) | BigInt(byte), 0n)
+      return tag === TAG_POSITIVE_BIGNUM ? magnitude : -1n - magnitude
     }
-    return array
-  }
-
-  if (majorType === MAJOR_TYPE_BYTE_STRING) {
-    const length = getLength(additionalInformation)
-    const byteString = reader.Uint8Array(length)
-    return byteString
-  }
-
-  if (majorType === MAJOR_TYPE_TAG) {
-    let tag: number | string = getLength(additionalInformation)
-    tag = KNOWN_TAGS[tag] ?? tag
-    const value = _decode()
-    return { tag, value }
-  }
-
-  if (majorType === MAJOR_TYPE_SIMPLE_AND_FLOAT) {
-    switch (additionalInformation) {
-      case 20:
-        return false
-      case 21:
-        return true
-      case 22:
-        return null
-      case 23:
-        return undefined
-      default:
-        throw new Error('Unknown simple type')
+    case TAG_SELF_DESCRIBED_CBOR:
+      return value
+    default:
+      return new CBORTag(typeof tag === 'number' ? KNOWN_TAGS[tag] ?? tag : Number(tag), value)
+  }
+}
+
+function decodeSimpleOrFloat (reader: ByteReader, additionalInformation: number, offset: number): CBORType {
+  switch (additionalInformation) {
+    case 20:
+      return false
+    case 21:
+      return true
+    case 22:
+      return null
+    case 23:
+      return undefined
+    case 24: {
+      const simple = readByte(reader)
+      // simple values below 32 must use the one-byte encoding
+      if (simple < 32) {
+        throw new Error(`Invalid CBOR simple value ${simple} at offset ${offset}`)
+      }
+      return new CBORSimpleValue(simple)
     }
+    case 25:
+      return halfToNumber(read(reader, 2, offset, () => reader.uint16()))
+    case 26:
+      return read(reader, 4, offset, () => new DataView(reader.Uint8Array(4).slice().buffer).getFloat32(0))
+    case 27:
+      return read(reader, 8, offset, () => new DataView(reader.Uint8Array(8).slice().buffer).getFloat64(0))
+    default:
+      if (additionalInformation < 20) {
+        return new CBORSimpleValue(additionalInformation)
+      }
+      throw new Error(`Reserved CBOR additional information ${additionalInformation} at offset ${offset}`)
   }
+}
 
-  throw new Error('Unknown major type')
+/*
+  IEEE 754 half-precision: 1 sign bit, 5 exponent bits, 10 fraction bits
+*/
+function halfToNumber (half: number): number {
+  const sign = (half & 0x8000) !== 0 ? -1 : 1
+  const exponent = (half >> 10) & 0x1F
+  const fraction = half & 0x3FF
+  if (exponent === 0) {
+    return sign * fraction * 2 ** -24
+  }
+  if (exponent === 0x1F) {
+    return fraction === 0 ? sign * Infinity : NaN
+  }
+  return sign * (1 + fraction / 1024) * 2 ** (exponent - 15)
 }
 
-function getLength (additionalInformation: number): number {
+/*
+  Integers that fit in a number are returned as a number, larger ones as a bigint
+*/
+function getArgument (reader: ByteReader, additionalInformation: number, offset: number): number | bigint {
   if (additionalInformation < 24) {
     return additionalInformation
   }
   switch (additionalInformation) {
     case 24:
-      return reader.byte()
+      return readByte(reader)
     case 25:
-      return reader.uint16()
+      return read(reader, 2, offset, () => reader.uint16())
     case 26:
-      return reader.uint32()
-    case 27:
-      return reader.uint64()
+      return read(reader, 4, offset, () => reader.uint32())
+    case 27: {
+      const [high, low] = read(reader, 8, offset, () => [reader.uint32(), reader.uint32()])
+      return safeInteger((BigInt(high) << 32n) | BigInt(low))
+    }
     default:
-      return -1
+      throw new Error(`Reserved CBOR additional information ${additionalInformation} at offset ${offset}`)
   }
 }
 
-const KNOWN_TAGS: Record<number, string> = {
-  18: 'COSE_Sign1'
+/*
+  Lengths must fit in the remaining input; the item cannot be longer than the buffer holding it
+*/
+function getLength (reader: ByteReader, additionalInformation: number, offset: number): number {
+  const length = getArgument(reader, additionalInformation, offset)
+  if (typeof length === 'bigint' || length > reader.remaining) {
+    throw new Error(`CBOR length ${length} exceeds the remaining ${reader.remaining} bytes at offset ${offset}`)
+  }
+  return length
+}
+
+function safeInteger (value: bigint): number | bigint {
+  return value <= BigInt(Number.MAX_SAFE_INTEGER) && value >= BigInt(Number.MIN_SAFE_INTEGER) ? Number(value) : value
+}
+
+function toMap (entries: Array<[CBORType, CBORType]>, offset: number): CBORMap {
+  if (entries.some(([key]) => typeof key !== 'string')) {
+    const map = new Map(entries)
+    if (map.size !== entries.length) {
+      throw new Error(`CBOR map has duplicate keys at offset ${offset}`)
+    }
+    return map
+  }
+  const map: Record<string, unknown> = {}
+  for (const [key, value] of entries) {
+    if (Object.prototype.hasOwnProperty.call(map, key as string)) {
+      throw new Error(`CBOR map has duplicate key '${key as string}' at offset ${offset}`)
+    }
+    map[key as string] = value
+  }
+  return map
+}
+
+function readByte (reader: ByteReader): number {
+  return read(reader, 1, reader.offset, () => reader.byte())
+}
+
+function readBytes (reader: ByteReader, length: number, offset: number): Uint8Array {
+  return read(reader, length, offset, () => reader.Uint8Array(length))
+}
+
+function read <T> (reader: ByteReader, length: number, offset: number, readValue: () => T): T {
+  if (reader.remaining < length) {
+    throw new Error(`Unexpected end of CBOR data at offset ${reader.offset} (item at offset ${offset})`)
+  }
+  return readValue()
+}
+
+function decodeText (bytes: Uint8Array, offset: number): string {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes)
+  } catch {
+    throw new Error(`Invalid UTF-8 in CBOR text string at offset ${offset}`)
+  }
+}
+
+function encodeItem (value: unknown, chunks: Uint8Array[], depth: number, sortKeys: boolean): void {
+  if (depth > MAX_DEPTH) {
+    throw new Error(`CBOR nesting exceeds ${MAX_DEPTH} levels`)
+  }
+  switch (typeof value) {
+    case 'boolean':
+      chunks.push(new Uint8Array([value ? 0xF5 : 0xF4]))
+      return
+    case 'undefined':
+      chunks.push(new Uint8Array([0xF7]))
+      return
+    case 'number':
+      chunks.push(Number.isSafeInteger(value) ? encodeInteger(value) : encodeFloat(value))
+      return
+    case 'bigint':
+      chunks.push(encodeInteger(value))
+      return
+    case 'string': {
+      const bytes = new TextEncoder().encode(value)
+      chunks.push(encodeHead(MAJOR_TYPE_TEXT_STRING, bytes.length), bytes)
+      return
+    }
+    case 'object':
+      break
+    default:
+      throw new Error(`Cannot encode ${typeof value} as CBOR`)
+  }
+
+  if (value === null) {
+    chunks.push(new Uint8Array([0xF6]))
+  } else if (value instanceof Uint8Array) {
+    chunks.push(encodeHead(MAJOR_TYPE_BYTE_STRING, value.length), value)
+  } else if (Array.isArray(value)) {
+    chunks.push(encodeHead(MAJOR_TYPE_ARRAY, value.length))
+    value.forEach((item) => { encodeItem(item, chunks, depth + 1, sortKeys) })
+  } else if (value instanceof Map) {
+    encodeMap(Array.from(value.entries()), chunks, depth, sortKeys)
+  } else if (value instanceof Date) {
+    chunks.push(encodeHead(MAJOR_TYPE_TAG, TAG_DATE_TIME_STRING))
+    encodeItem(value.toISOString().replace('.000Z', 'Z'), chunks, depth + 1, sortKeys)
+  } else if (value instanceof CBORTag) {
+    chunks.push(encodeHead(MAJOR_TYPE_TAG, tagNumber(value.tag)))
+    encodeItem(value.value, chunks, depth + 1, sortKeys)
+  } else if (value instanceof CBORSimpleValue) {
+    chunks.push(encodeSimple(value.simple))
+  } else {
+    encodeMap(Object.entries(value), chunks, depth, sortKeys)
+  }
+}
+
+/*
+  Map keys are sorted by the bytewise lexicographic order of their encodings
+*/
+function encodeMap (entries: Array<[unknown, unknown]>, chunks: Uint8Array[], depth: number, sortKeys: boolean): void {
+  const encoded = entries.map(([key, value]) => ({ key: encode(key as CBORType, { sortKeys }), value }))
+  const sorted = [...encoded].sort((a, b) => compareBytes(a.key, b.key))
+  sorted.forEach(({ key }, i) => {
+    if (i > 0 && compareBytes(sorted[i - 1].key, key) === 0) {
+      throw new Error('CBOR map has duplicate keys')
+    }
+  })
+  const ordered = sortKeys ? sorted : encoded
+  chunks.push(encodeHead(MAJOR_TYPE_MAP, ordered.length))
+  ordered.forEach(({ key, value }) => {
+    chunks.push(key)
+    encodeItem(value, chunks, depth + 1, sortKeys)
+  })
+}
+
+/*
+  Integers beyond 64 bits are encoded as bignums, with no leading zero bytes
+*/
+function encodeInteger (value: number | bigint): Uint8Array {
+  const integer = BigInt(value)
+  const majorType = integer < 0n ? MAJOR_TYPE_NEGATIVE_INTEGER : MAJOR_TYPE_POSITIVE_INTEGER
+  const argument = integer < 0n ? -1n - integer : integer
+  if (argument <= 0xFFFFFFFFFFFFFFFFn) {
+    return encodeHead(majorType, argument)
+  }
+  const hex = argument.toString(16)
+  const magnitude = new Uint8Array((hex.length + 1) >> 1)
+  for (let i = magnitude.length - 1, shifted = argument; i >= 0; i--, shifted >>= 8n) {
+    magnitude[i] = Number(shifted & 0xFFn)
+  }
+  return concat([
+    encodeHead(MAJOR_TYPE_TAG, majorType === MAJOR_TYPE_POSITIVE_INTEGER ? TAG_POSITIVE_BIGNUM : TAG_NEGATIVE_BIGNUM),
+    encodeHead(MAJOR_TYPE_BYTE_STRING, magnitude.length),
+    magnitude
+  ])
+}
+
+/*
+  The shortest of half, single and double precision that represents the value exactly
+*/
+function encodeFloat (value: number): Uint8Array {
+  const half = numberToHalf(value)
+  if (half != null) {
+    return new Uint8Array([0xF9, half >> 8, half & 0xFF])
+  }
+  if (Object.is(Math.fround(value), value)) {
+    const bytes = new Uint8Array(5)
+    bytes[0] = 0xFA
+    new DataView(bytes.buffer).setFloat32(1, value)
+    return bytes
+  }
+  const bytes = new Uint8Array(9)
+  bytes[0] = 0xFB
+  new DataView(bytes.buffer).setFloat64(1, value)
+  return bytes
+}
+
+/*
+  Returns the half-precision encoding of the value, or null if it has none (NaN is encoded as the quiet NaN 0x7E00)
+*/
+function numberToHalf (value: number): number | null {
+  if (Number.isNaN(value)) {
+    return 0x7E00
+  }
+  const sign = value < 0 || Object.is(value, -0) ? 0x8000 : 0
+  const magnitude = Math.abs(value)
+  if (magnitude === Infinity) {
+    return sign | 0x7C00
+  }
+  if (magnitude < 2 ** -14) {
+    // zero and subnormals: a multiple of 2^-24
+    const fraction = magnitude / 2 ** -24
+    return Number.isInteger(fraction) ? sign | fraction : null
+  }
+  let exponent = Math.floor(Math.log2(magnitude))
+  while (2 ** exponent > magnitude) exponent--
+  while (2 ** (exponent + 1) <= magnitude) exponent++
+  if (exponent > 15) {
+    return null
+  }
+  const fraction = (magnitude / 2 ** exponent - 1) * 1024
+  return Number.isInteger(fraction) ? sign | ((exponent + 15) << 10) | fraction : null
+}
+
+function encodeSimple (simple: number): Uint8Array {
+  if (!Number.isInteger(simple) || simple < 0 || simple > 255 || (simple >= 20 && simple < 32)) {
+    throw new Error(`Invalid CBOR simple value ${simple}`)
+  }
+  return simple < 20 ? new Uint8Array([0xE0 | simple]) : new Uint8Array([0xF8, simple])
+}
+
+/*
+  The head of a data item: the major type and the argument (a value or a length) in its shortest form
+*/
+function encodeHead (majorType: number, argument: number | bigint): Uint8Array {
+  const value = BigInt(argument)
+  const type = majorType << 5
+  if (value < 24n) {
+    return new Uint8Array([type | Number(value)])
+  }
+  if (value <= 0xFFn) {
+    return new Uint8Array([type | 24, Number(value)])
+  }
+  if (value <= 0xFFFFn) {
+    const bytes = new Uint8Array([type | 25, 0, 0])
+    new DataView(bytes.buffer).setUint16(1, Number(value))
+    return bytes
+  }
+  if (value <= 0xFFFFFFFFn) {
+    const bytes = new Uint8Array([type | 26, 0, 0, 0, 0])
+    new DataView(bytes.buffer).setUint32(1, Number(value))
+    return bytes
+  }
+  const bytes = new Uint8Array(9)
+  bytes[0] = type | 27
+  new DataView(bytes.buffer).setBigUint64(1, value)
+  return bytes
+}
+
+function tagNumber (tag: number | string): number {
+  if (typeof tag === 'number') {
+    return tag
+  }
+  const entry = Object.entries(KNOWN_TAGS).find(([, name]) => name === tag)
+  if (entry == null) {
+    throw new Error(`Unknown CBOR tag ${tag}`)
+  }
+  return Number(entry[0])
+}
+
+function compareBytes (a: Uint8Array, b: Uint8Array): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) {
+      return a[i] - b[i]
+    }
+  }
+  return a.length - b.length
+}
+
+function concat (chunks: Uint8Array[]): Uint8Array {
+  const bytes = new Uint8Array(chunks.reduce((length, chunk) => length + chunk.length, 0))
+  let offset = 0
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset)
+    offset += chunk.length
+  }
+  return bytes
 }
@@ -3,6 +3,7 @@
  *  Licensed under the MIT license.
  */
 
+import { ASN1, Tag } from '@fidm/asn1'
 import { Certificate, type DistinguishedName as x509DistinguishedName } from '@fidm/x509'
 import { Buffer } from 'buffer' // required for polyfill
 import { bytesToHex } from '../utils.js'
@@ -25,6 +26,33 @@ export interface DistinguishedName {
 
 export type isoDateString = string
 
+/**
+ * The key type of a public key: 'EC' (with its named curve), 'RSA', 'RSA-PSS', 'Ed25519', 'Ed448', or the key algorithm OID
+ */
+export interface PublicKeyType {
+  type: string
+  curve: string | null
+}
+
+const PUBLIC_KEY_ALGORITHMS: Record<string, string> = {
+  '1.2.840.10045.2.1': 'EC',
+  '1.2.840.113549.1.1.1': 'RSA',
+  '1.2.840.113549.1.1.10': 'RSA-PSS',
+  '1.3.101.112': 'Ed25519',
+  '1.3.101.113': 'Ed448'
+}
+
+const NAMED_CURVES: Record<string, string> = {
+  '1.2.840.10045.3.1.7': 'P-256',
+  '1.3.132.0.34': 'P-384',
+  '1.3.132.0.35': 'P-521',
+  '1.3.132.0.10': 'secp256k1',
+  '1.3.36.3.3.2.8.1.1.7': 'brainpoolP256r1',
+  '1.3.36.3.3.2.8.1.1.9': 'brainpoolP320r1',
+  '1.3.36.3.3.2.8.1.1.11': 'brainpoolP384r1',
+  '1.3.36.3.3.2.8.1.1.13': 'brainpoolP512r1'
+}
+
 export interface CertificateInfo {
   issuer: DistinguishedName
   subject: DistinguishedName
@@ -62,6 +90,29 @@ export async function certificateFromDer (der: Uint8Array): Promise<CertificateI
   return certInfoEx
 }
 
+/**
+ * Returns the DER encoded SubjectPublicKeyInfo of a DER encoded certificate, as imported by crypto.subtle.importKey('spki').
+ */
+export function publicKeyFromDer (der: Uint8Array): Uint8Array {
+  const cert = Certificate.fromPEM(Buffer.from(DERtoPEM(der), 'utf-8'))
+  return new Uint8Array(cert.publicKeyRaw)
+}
+
+/**
+ * Returns the key type of the public key of a DER encoded certificate, read from the SubjectPublicKeyInfo's
+ * AlgorithmIdentifier: the key algorithm OID and, for EC keys, the named curve OID of its parameters.
+ */
+export function publicKeyTypeFromDer (der: Uint8Array): PublicKeyType {
+  const spki = ASN1.fromDER(Buffer.from(publicKeyFromDer(der)))
+  const [algorithm, parameters] = (spki.value as ASN1[])[0].value as ASN1[]
+  const oid = algorithm.value as string
+  const curve = parameters?.tag === Tag.OID ? parameters.value as string : null
+  return {
+    type: PUBLIC_KEY_ALGORITHMS[oid] ?? oid,
+    curve: curve != null ? NAMED_CURVES[curve] ?? curve : null
+  }
+}
+
 /**
  * Converts a DER encoded certificate to a PEM encoded certificate.
  */
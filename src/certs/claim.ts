@@ -0,0 +1,175 @@
+/*
+ *  Copyright (c) Microsoft Corporation.
+ *  Licensed under the MIT license.
+ */
+
+import { bytesToHex } from '../utils.js'
+import { decode as cborDecode } from './cbor.js'
+import { childBox, isContentBox, type JumbfBox } from './jumbf.js'
+
+const CLAIM_LABEL = 'c2pa.claim'
+const CLAIM_V2_LABEL = 'c2pa.claim.v2'
+
+/**
+ * A reference to a box of the manifest store by JUMBF URI, with the hash of the box
+ */
+export interface HashedUri {
+  url: string
+  /**
+   * The hash algorithm, when it differs from the claim's
+   */
+  alg: string | null
+  /**
+   * The hash, as a hex string
+   */
+  hash: string
+}
+
+export interface ClaimGeneratorInfo {
+  name: string
+  version: string | null
+  icon: HashedUri | null
+  [key: string]: unknown
+}
+
+export interface Claim {
+  /**
+   * 1 for a c2pa.claim box, 2 for a c2pa.claim.v2 box
+   */
+  version: 1 | 2
+  instanceId: string
+  /**
+   * The claim generator's user agent string; v1 claims only
+   */
+  claimGenerator: string | null
+  /**
+   * The software that created the claim; a v1 claim may list several, a v2 claim has one
+   */
+  claimGeneratorInfo: ClaimGeneratorInfo[]
+  /**
+   * The JUMBF URI of the claim signature box
+   */
+  signature: string
+  /**
+   * The assertions made by the claim generator; the assertions of a v1 claim
+   */
+  createdAssertions: HashedUri[]
+  /**
+   * The assertions gathered from other sources; v2 claims only
+   */
+  gatheredAssertions: HashedUri[]
+  /**
+   * The JUMBF URIs of the ingredient assertions this claim redacts
+   */
+  redactedAssertions: string[]
+  /**
+   * The default hash algorithm of the claim's hashed URIs
+   */
+  alg: string | null
+}
+
+/**
+ * Decodes the claim of a manifest: its c2pa.claim.v2 box, or its c2pa.claim box for v1 manifests.
+ * Returns null if the manifest has no claim box; throws if the claim is malformed.
+ */
+export function decodeClaim (manifest: JumbfBox): Claim | null {
+  const claimBox = childBox(manifest, CLAIM_V2_LABEL) ?? childBox(manifest, CLAIM_LABEL)
+  if (claimBox == null) {
+    return null
+  }
+  const contentBox = claimBox.boxes[0]
+  if (contentBox == null || !isContentBox(contentBox) || contentBox.type !== 'cbor') {
+    throw new Error(`${claimBox.label}: expected cbor content-box`)
+  }
+  const claim = cborDecode(contentBox.data)
+  if (!isRecord(claim)) {
+    throw new Error(`${claimBox.label}: expected a map`)
+  }
+  const version = claimBox.label === CLAIM_V2_LABEL ? 2 : 1
+
+  /*
+    v1 claims list their assertions in 'assertions' and their generators in an array;
+    v2 claims split their assertions into created and gathered ones, and have a single generator
+  */
+  const generatorInfo = claim.claim_generator_info
+  const generators = Array.isArray(generatorInfo) ? generatorInfo : generatorInfo != null ? [generatorInfo] : []
+
+  return {
+    version,
+    instanceId: requiredString(claim, 'instanceID', claimBox.label),
+    claimGenerator: optionalString(claim, 'claim_generator', claimBox.label),
+    claimGeneratorInfo: generators.map((info) => claimGeneratorInfo(info, claimBox.label)),
+    signature: requiredString(claim, 'signature', claimBox.label),
+    createdAssertions: hashedUris(claim, version === 2 ? 'created_assertions' : 'assertions', claimBox.label),
+    gatheredAssertions: version === 2 ? hashedUris(claim, 'gathered_assertions', claimBox.label) : [],
+    redactedAssertions: stringArray(claim, 'redacted_assertions', claimBox.label),
+    alg: optionalString(claim, 'alg', claimBox.label)
+  }
+}
+
+function claimGeneratorInfo (value: unknown, label: string | undefined): ClaimGeneratorInfo {
+  if (!isRecord(value)) {
+    throw new Error(`${label}: claim_generator_info: expected a map`)
+  }
+  return {
+    ...value,
+    name: requiredString(value, 'name', label),
+    version: optionalString(value, 'version', label),
+    icon: value.icon != null ? decodeHashedUri(value.icon, label) : null
+  }
+}
+
+function hashedUris (claim: Record<string, unknown>, key: string, label: string | undefined): HashedUri[] {
+  const value = claim[key]
+  if (value == null) {
+    return []
+  }
+  if (!Array.isArray(value)) {
+    throw new Error(`${label}: ${key}: expected an array`)
+  }
+  return value.map((uri) => decodeHashedUri(uri, label))
+}
+
+/**
+ * Decodes a hashed URI map (url, optional alg, hash), as found in claims and assertions.
+ */
+export function decodeHashedUri (value: unknown, label: string | undefined): HashedUri {
+  if (!isRecord(value) || typeof value.url !== 'string' || !(value.hash instanceof Uint8Array)) {
+    throw new Error(`${label}: expected a hashed URI (url, hash)`)
+  }
+  return { url: value.url, alg: optionalString(value, 'alg', label), hash: bytesToHex(value.hash) }
+}
+
+function stringArray (object: Record<string, unknown>, key: string, label: string | undefined): string[] {
+  const value = object[key]
+  if (value == null) {
+    return []
+  }
+  if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) {
+    throw new Error(`${label}: ${key}: expected an array of strings`)
+  }
+  return value
+}
+
+function requiredString (object: Record<string, unknown>, key: string, label: string | undefined): string {
+  const value = optionalString(object, key, label)
+  if (value == null) {
+    throw new Error(`${label}: missing ${key}`)
+  }
+  return value
+}
+
+function optionalString (object: Record<string, unknown>, key: string, label: string | undefined): string | null {
+  const value = object[key]
+  if (value != null && typeof value !== 'string') {
+    throw new Error(`${label}: ${key}: expected a string`)
+  }
+  return value ?? null
+}
+
+/*
+  Maps with text keys only are decoded as plain objects; other maps are decoded as Map
+*/
+function isRecord (value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value != null && Object.getPrototypeOf(value) === Object.prototype
+}
@@ -5,14 +5,62 @@
 
 import { ASN1, Class, Tag, type Captures, type Template } from '@fidm/asn1'
 import { Buffer } from 'buffer' // required for polyfill
-import { decode as cborDecode } from './cbor.js'
-import { type DistinguishedName, certificateFromDer, type CertificateInfoExtended } from './certs.js'
+import { decode as cborDecode, encode as cborEncode, type CBORMap, type CBORTag } from './cbor.js'
+import { type DistinguishedName, type PublicKeyType, certificateFromDer, publicKeyFromDer, publicKeyTypeFromDer, type CertificateInfoExtended } from './certs.js'
+import { checkC2paSignatureAlgorithm, coseAlgorithm, coseAlgorithmName } from './coseAlgorithms.js'
 
 interface COSE_Sign1 {
   protected: ProtectedHeader
   unprotected: UnprotectedHeader
   payload: Uint8Array | null
   signature: Uint8Array
+  /**
+   * The protected header as encoded, which the signature covers
+   */
+  protectedBytes: Uint8Array
+  /**
+   * The COSE algorithm identifier of the protected 'alg' header
+   */
+  algId: number | null
+  /**
+   * The DER encoded x5chain certificates, the signer's certificate first
+   */
+  certificates: Uint8Array[]
+}
+
+interface SignatureResult {
+  /**
+   * The registry name of the signature algorithm (e.g. 'ES256')
+   */
+  alg: string
+  /**
+   * The registry description of the signature algorithm (e.g. 'ECDSA w/ SHA-256'), null if it is unassigned
+   */
+  algDescription: string | null
+  /**
+   * null when the signature could not be checked, e.g. when the browser does not support the algorithm
+   */
+  valid: boolean | null
+  errors: string[]
+}
+
+/*
+  WebCrypto parameters of the COSE signature algorithms.
+  ECDSA signatures are encoded in COSE as r || s, which is also the WebCrypto format.
+*/
+interface SignatureAlgorithm {
+  importParams: Algorithm | EcKeyImportParams | RsaHashedImportParams
+  verifyParams: Algorithm | EcdsaParams | RsaPssParams
+}
+
+const SIGNATURE_ALGORITHMS: Record<number, SignatureAlgorithm> = {
+  [-7]: { importParams: { name: 'ECDSA', namedCurve: 'P-256' }, verifyParams: { name: 'ECDSA', hash: 'SHA-256' } },
+  [-35]: { importParams: { name: 'ECDSA', namedCurve: 'P-384' }, verifyParams: { name: 'ECDSA', hash: 'SHA-384' } },
+  [-36]: { importParams: { name: 'ECDSA', namedCurve: 'P-521' }, verifyParams: { name: 'ECDSA', hash: 'SHA-512' } },
+  [-37]: { importParams: { name: 'RSA-PSS', hash: 'SHA-256' }, verifyParams: { name: 'RSA-PSS', saltLength: 32 } },
+  [-38]: { importParams: { name: 'RSA-PSS', hash: 'SHA-384' }, verifyParams: { name: 'RSA-PSS', saltLength: 48 } },
+  [-39]: { importParams: { name: 'RSA-PSS', hash: 'SHA-512' }, verifyParams: { name: 'RSA-PSS', saltLength: 64 } },
+  [-8]: { importParams: { name: 'Ed25519' }, verifyParams: { name: 'Ed25519' } }
 }
 
 interface ProtectedHeader {
@@ -77,55 +125,115 @@ const keyMapping: Record<number, string> = {
   33: 'x5chain'
 }
 
-const algMapping: Record<number, string> = {
-  [-7]: 'ECDSA_256'
-}
-
 async function decode (bytes: Uint8Array): Promise<COSE_Sign1 | null> {
-  const cbor = cborDecode(bytes) as { tag: string, value: Record<number, unknown> }
+  const cbor = cborDecode(bytes) as CBORTag
 
-  if (cbor.tag == null) {
+  if (cbor?.tag == null) {
     console.error('Unexpected COSE tag:', cbor.tag)
     return null
   }
 
   switch (cbor.tag) {
     case 'COSE_Sign1':
-      return await decodeCoseSign1(cbor.value)
+      return await decodeCoseSign1(cbor.value as unknown[])
     default:
       console.error('Unexpected COSE tag:', cbor.tag)
       return null
   }
 }
 
-async function decodeCoseSign1 (fields: Record<number, unknown>): Promise<COSE_Sign1 | null> {
-  const protectedHeader = cborDecode(fields[0] as Uint8Array) as ProtectedHeader
+async function decodeCoseSign1 (fields: unknown[]): Promise<COSE_Sign1 | null> {
+  // an empty protected header is encoded as a zero-length byte string
+  const protectedBytes = fields[0] as Uint8Array
+  const protectedHeader = protectedBytes.length > 0 ? cborDecode(protectedBytes) as CBORMap : {}
   if (protectedHeader == null) {
     console.error('No protected header header in COSE')
     return null
   }
 
+  // the raw values are kept for signature verification; parseLabels replaces them with readable ones
+  const protectedLabels = mapNumberKeysToLabels(protectedHeader)
+  const unprotectedLabels = mapNumberKeysToLabels(fields[1] as CBORMap)
+  const algId = typeof protectedLabels.alg === 'number' ? protectedLabels.alg : null
+  const x5chain = (unprotectedLabels.x5chain ?? protectedLabels.x5chain ?? []) as Uint8Array | Uint8Array[]
+  const certificates = x5chain instanceof Uint8Array ? [x5chain] : x5chain
+
   const result = {
-    protected: await parseLabels(mapNumberKeysToLabels(protectedHeader)),
-    unprotected: await parseLabels(fields[1] as UnprotectedHeader),
+    protected: await parseLabels(protectedLabels) as ProtectedHeader,
+    unprotected: await parseLabels(unprotectedLabels) as UnprotectedHeader,
     payload: fields[2] as Uint8Array | null,
-    signature: fields[3] as Uint8Array
+    signature: fields[3] as Uint8Array,
+    protectedBytes,
+    algId,
+    certificates
   }
 
   return result
 }
 
-function mapNumberKeysToLabels (object: Record<number | string, unknown>): Record<number | string, unknown> {
-  for (const key in object) {
-    if (Object.prototype.hasOwnProperty.call(object, key)) {
-      const numberKey = Number.parseInt(key)
-      const newKey = keyMapping[numberKey] as string | undefined
-      if (newKey != null) {
-        object[newKey] = object[numberKey]
-        // eslint-disable-next-line @typescript-eslint/no-dynamic-delete
-        delete object[numberKey]
-      }
-    }
+/**
+ * Verifies the signature of a COSE_Sign1 with the public key of the signer's certificate (the first x5chain certificate).
+ * C2PA claim signatures are detached: the claim is passed as the payload.
+ * Algorithms outside the C2PA allowlist, and algorithms that do not match the signer's key type, are reported as invalid.
+ */
+async function verify (cose: COSE_Sign1, detachedPayload: Uint8Array | null = null): Promise<SignatureResult> {
+  if (cose.algId == null) {
+    return { alg: 'none', algDescription: null, valid: false, errors: ['COSE signature has no algorithm (alg) header'] }
+  }
+  const alg = coseAlgorithmName(cose.algId)
+  const algDescription = coseAlgorithm(cose.algId)?.description ?? null
+  const payload = cose.payload ?? detachedPayload
+  if (payload == null) {
+    return { alg, algDescription, valid: false, errors: ['COSE signature has no payload to verify'] }
+  }
+  if (cose.certificates.length === 0) {
+    return { alg, algDescription, valid: false, errors: ['COSE signature has no signer certificate (x5chain)'] }
+  }
+
+  let keyType: PublicKeyType | null = null
+  try {
+    keyType = publicKeyTypeFromDer(cose.certificates[0])
+  } catch (error) {
+    console.warn('Cannot read the signer certificate\'s key type:', error)
+  }
+  const algorithmErrors = checkC2paSignatureAlgorithm(cose.algId, keyType)
+  if (algorithmErrors.length > 0) {
+    return { alg, algDescription, valid: false, errors: algorithmErrors }
+  }
+
+  const algorithm = SIGNATURE_ALGORITHMS[cose.algId]
+  if (algorithm == null) {
+    return { alg, algDescription, valid: null, errors: [`COSE signature algorithm ${alg} is not supported`] }
+  }
+
+  let key: CryptoKey
+  try {
+    key = await crypto.subtle.importKey('spki', publicKeyFromDer(cose.certificates[0]), algorithm.importParams, false, ['verify'])
+  } catch (error) {
+    // an unsupported algorithm (e.g. Ed25519 in older browsers) is reported as NotSupportedError
+    const unsupported = (error as Error).name === 'NotSupportedError'
+    return { alg, algDescription, valid: unsupported ? null : false, errors: [`Cannot use the signer certificate's key for ${alg}: ${(error as Error).message}`] }
+  }
+
+  /*
+    Sig_structure (RFC 9052, section 4.4): the context, the protected header, the external additional data (empty),
+    and the payload
+  */
+  const sigStructure = cborEncode(['Signature1', cose.protectedBytes, new Uint8Array(0), payload])
+  const valid = await crypto.subtle.verify(algorithm.verifyParams, key, cose.signature, sigStructure)
+  return { alg, algDescription, valid, errors: valid ? [] : [`COSE ${alg} signature does not match the claim`] }
+}
+
+/*
+  COSE headers are keyed by integer labels for registered parameters (e.g. 1: alg, 33: x5chain) and by text otherwise.
+  Headers with integer labels are decoded to a Map.
+*/
+function mapNumberKeysToLabels (header: CBORMap): Record<number | string, unknown> {
+  const entries = header instanceof Map ? Array.from(header.entries()) : Object.entries(header)
+  const object: Record<number | string, unknown> = {}
+  for (const [key, value] of entries) {
+    const label = typeof key === 'number' ? keyMapping[key] ?? key : String(key)
+    object[label] = value
   }
   return object
 }
@@ -134,7 +242,7 @@ async function parseLabels (object: Record<string, unknown>): Promise<Record<str
   for (const key in object) {
     switch (key) {
       case 'alg':
-        object[key] = alg(object[key] as number)
+        object[key] = coseAlgorithmName(object[key] as number)
         break
       case 'x5chain':
         object[key] = await x5Chain(object[key] as Uint8Array | Uint8Array[])
@@ -149,10 +257,6 @@ async function parseLabels (object: Record<string, unknown>): Promise<Record<str
   return object
 }
 
-function alg (value: number): string {
-  return algMapping[value] ?? value.toString()
-}
-
 function getHashAlgorithmName (oid: string): string {
   // Map of OIDs to their corresponding hash algorithm names
   const oidToAlgorithmMap: Record<string, string> = {
@@ -616,4 +720,4 @@ const tstInfoTemplate = {
   ]
 }
 
-export { decode, type TSTInfo, type COSE_Sign1 }
+export { decode, verify, type TSTInfo, type COSE_Sign1, type SignatureResult }
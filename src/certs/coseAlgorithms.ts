@@ -0,0 +1,149 @@
+/*
+ *  Copyright (c) Microsoft Corporation.
+ *  Licensed under the MIT license.
+ */
+
+import { type PublicKeyType } from './certs.js'
+
+export interface CoseAlgorithm {
+  /**
+   * The algorithm name from the IANA COSE Algorithms registry (e.g. 'ES256')
+   */
+  name: string
+  description: string
+  /**
+   * The key type a signature algorithm requires of the signer's certificate
+   */
+  key?: PublicKeyType
+}
+
+/*
+  The IANA COSE Algorithms registry (https://www.iana.org/assignments/cose/cose.xhtml#algorithms)
+*/
+const COSE_ALGORITHMS: Record<number, CoseAlgorithm> = {
+  [-65535]: { name: 'RS1', description: 'RSASSA-PKCS1-v1_5 using SHA-1', key: { type: 'RSA', curve: null } },
+  [-65534]: { name: 'A128CTR', description: 'AES-CTR w/ 128-bit key' },
+  [-65533]: { name: 'A192CTR', description: 'AES-CTR w/ 192-bit key' },
+  [-65532]: { name: 'A256CTR', description: 'AES-CTR w/ 256-bit key' },
+  [-65531]: { name: 'A128CBC', description: 'AES-CBC w/ 128-bit key' },
+  [-65530]: { name: 'A192CBC', description: 'AES-CBC w/ 192-bit key' },
+  [-65529]: { name: 'A256CBC', description: 'AES-CBC w/ 256-bit key' },
+  [-268]: { name: 'ESB512', description: 'ECDSA using BrainpoolP512r1 curve and SHA-512', key: { type: 'EC', curve: 'brainpoolP512r1' } },
+  [-267]: { name: 'ESB384', description: 'ECDSA using BrainpoolP384r1 curve and SHA-384', key: { type: 'EC', curve: 'brainpoolP384r1' } },
+  [-266]: { name: 'ESB320', description: 'ECDSA using BrainpoolP320r1 curve and SHA-384', key: { type: 'EC', curve: 'brainpoolP320r1' } },
+  [-265]: { name: 'ESB256', description: 'ECDSA using BrainpoolP256r1 curve and SHA-256', key: { type: 'EC', curve: 'brainpoolP256r1' } },
+  [-260]: { name: 'WalnutDSA', description: 'WalnutDSA signature' },
+  [-259]: { name: 'RS512', description: 'RSASSA-PKCS1-v1_5 using SHA-512', key: { type: 'RSA', curve: null } },
+  [-258]: { name: 'RS384', description: 'RSASSA-PKCS1-v1_5 using SHA-384', key: { type: 'RSA', curve: null } },
+  [-257]: { name: 'RS256', description: 'RSASSA-PKCS1-v1_5 using SHA-256', key: { type: 'RSA', curve: null } },
+  [-53]: { name: 'Ed448', description: 'EdDSA using the Ed448 parameter set', key: { type: 'Ed448', curve: null } },
+  [-52]: { name: 'ESP512', description: 'ECDSA using P-521 curve and SHA-512', key: { type: 'EC', curve: 'P-521' } },
+  [-51]: { name: 'ESP384', description: 'ECDSA using P-384 curve and SHA-384', key: { type: 'EC', curve: 'P-384' } },
+  [-47]: { name: 'ES256K', description: 'ECDSA using secp256k1 curve and SHA-256', key: { type: 'EC', curve: 'secp256k1' } },
+  [-46]: { name: 'HSS-LMS', description: 'HSS/LMS hash-based digital signature' },
+  [-45]: { name: 'SHAKE256', description: 'SHAKE-256 512-bit Hash Value' },
+  [-44]: { name: 'SHA-512', description: 'SHA-2 512-bit Hash' },
+  [-43]: { name: 'SHA-384', description: 'SHA-2 384-bit Hash' },
+  [-42]: { name: 'RSAES-OAEP w/ SHA-512', description: 'RSAES-OAEP w/ SHA-512' },
+  [-41]: { name: 'RSAES-OAEP w/ SHA-256', description: 'RSAES-OAEP w/ SHA-256' },
+  [-40]: { name: 'RSAES-OAEP w/ RFC 8017 default parameters', description: 'RSAES-OAEP w/ SHA-1' },
+  [-39]: { name: 'PS512', description: 'RSASSA-PSS w/ SHA-512', key: { type: 'RSA', curve: null } },
+  [-38]: { name: 'PS384', description: 'RSASSA-PSS w/ SHA-384', key: { type: 'RSA', curve: null } },
+  [-37]: { name: 'PS256', description: 'RSASSA-PSS w/ SHA-256', key: { type: 'RSA', curve: null } },
+  [-36]: { name: 'ES512', description: 'ECDSA w/ SHA-512', key: { type: 'EC', curve: 'P-521' } },
+  [-35]: { name: 'ES384', description: 'ECDSA w/ SHA-384', key: { type: 'EC', curve: 'P-384' } },
+  [-34]: { name: 'ECDH-SS + A256KW', description: 'ECDH SS w/ Concat KDF and AES Key Wrap w/ 256-bit key' },
+  [-33]: { name: 'ECDH-SS + A192KW', description: 'ECDH SS w/ Concat KDF and AES Key Wrap w/ 192-bit key' },
+  [-32]: { name: 'ECDH-SS + A128KW', description: 'ECDH SS w/ Concat KDF and AES Key Wrap w/ 128-bit key' },
+  [-31]: { name: 'ECDH-ES + A256KW', description: 'ECDH ES w/ Concat KDF and AES Key Wrap w/ 256-bit key' },
+  [-30]: { name: 'ECDH-ES + A192KW', description: 'ECDH ES w/ Concat KDF and AES Key Wrap w/ 192-bit key' },
+  [-29]: { name: 'ECDH-ES + A128KW', description: 'ECDH ES w/ Concat KDF and AES Key Wrap w/ 128-bit key' },
+  [-28]: { name: 'ECDH-SS + HKDF-512', description: 'ECDH SS w/ HKDF - generate key directly' },
+  [-27]: { name: 'ECDH-SS + HKDF-256', description: 'ECDH SS w/ HKDF - generate key directly' },
+  [-26]: { name: 'ECDH-ES + HKDF-512', description: 'ECDH ES w/ HKDF - generate key directly' },
+  [-25]: { name: 'ECDH-ES + HKDF-256', description: 'ECDH ES w/ HKDF - generate key directly' },
+  [-19]: { name: 'Ed25519', description: 'EdDSA using the Ed25519 parameter set', key: { type: 'Ed25519', curve: null } },
+  [-18]: { name: 'SHAKE128', description: 'SHAKE-128 256-bit Hash Value' },
+  [-17]: { name: 'SHA-512/256', description: 'SHA-2 512-bit Hash truncated to 256-bits' },
+  [-16]: { name: 'SHA-256', description: 'SHA-2 256-bit Hash' },
+  [-15]: { name: 'SHA-256/64', description: 'SHA-2 256-bit Hash truncated to 64-bits' },
+  [-14]: { name: 'SHA-1', description: 'SHA-1 Hash' },
+  [-13]: { name: 'direct+HKDF-AES-256', description: 'Shared secret w/ AES-MAC 256-bit key' },
+  [-12]: { name: 'direct+HKDF-AES-128', description: 'Shared secret w/ AES-MAC 128-bit key' },
+  [-11]: { name: 'direct+HKDF-SHA-512', description: 'Shared secret w/ HKDF and SHA-512' },
+  [-10]: { name: 'direct+HKDF-SHA-256', description: 'Shared secret w/ HKDF and SHA-256' },
+  [-9]: { name: 'ESP256', description: 'ECDSA using P-256 curve and SHA-256', key: { type: 'EC', curve: 'P-256' } },
+  [-8]: { name: 'EdDSA', description: 'EdDSA', key: { type: 'Ed25519', curve: null } },
+  [-7]: { name: 'ES256', description: 'ECDSA w/ SHA-256', key: { type: 'EC', curve: 'P-256' } },
+  [-6]: { name: 'direct', description: 'Direct use of CEK' },
+  [-5]: { name: 'A256KW', description: 'AES Key Wrap w/ 256-bit key' },
+  [-4]: { name: 'A192KW', description: 'AES Key Wrap w/ 192-bit key' },
+  [-3]: { name: 'A128KW', description: 'AES Key Wrap w/ 128-bit key' },
+  1: { name: 'A128GCM', description: 'AES-GCM mode w/ 128-bit key, 128-bit tag' },
+  2: { name: 'A192GCM', description: 'AES-GCM mode w/ 192-bit key, 128-bit tag' },
+  3: { name: 'A256GCM', description: 'AES-GCM mode w/ 256-bit key, 128-bit tag' },
+  4: { name: 'HMAC 256/64', description: 'HMAC w/ SHA-256 truncated to 64 bits' },
+  5: { name: 'HMAC 256/256', description: 'HMAC w/ SHA-256' },
+  6: { name: 'HMAC 384/384', description: 'HMAC w/ SHA-384' },
+  7: { name: 'HMAC 512/512', description: 'HMAC w/ SHA-512' },
+  10: { name: 'AES-CCM-16-64-128', description: 'AES-CCM mode 128-bit key, 64-bit tag, 13-byte nonce' },
+  11: { name: 'AES-CCM-16-64-256', description: 'AES-CCM mode 256-bit key, 64-bit tag, 13-byte nonce' },
+  12: { name: 'AES-CCM-64-64-128', description: 'AES-CCM mode 128-bit key, 64-bit tag, 7-byte nonce' },
+  13: { name: 'AES-CCM-64-64-256', description: 'AES-CCM mode 256-bit key, 64-bit tag, 7-byte nonce' },
+  14: { name: 'AES-MAC 128/64', description: 'AES-MAC 128-bit key, 64-bit tag' },
+  15: { name: 'AES-MAC 256/64', description: 'AES-MAC 256-bit key, 64-bit tag' },
+  24: { name: 'ChaCha20/Poly1305', description: 'ChaCha20/Poly1305 w/ 256-bit key, 128-bit tag' },
+  25: { name: 'AES-MAC 128/128', description: 'AES-MAC 128-bit key, 128-bit tag' },
+  26: { name: 'AES-MAC 256/128', description: 'AES-MAC 256-bit key, 128-bit tag' },
+  30: { name: 'AES-CCM-16-128-128', description: 'AES-CCM mode 128-bit key, 128-bit tag, 13-byte nonce' },
+  31: { name: 'AES-CCM-16-128-256', description: 'AES-CCM mode 256-bit key, 128-bit tag, 13-byte nonce' },
+  32: { name: 'AES-CCM-64-128-128', description: 'AES-CCM mode 128-bit key, 128-bit tag, 7-byte nonce' },
+  33: { name: 'AES-CCM-64-128-256', description: 'AES-CCM mode 256-bit key, 128-bit tag, 7-byte nonce' },
+  34: { name: 'IV-GENERATION', description: 'For doing IV generation for symmetric algorithms' }
+}
+
+/*
+  The signature algorithms allowed for C2PA claim signatures: ES256, ES384, ES512, PS256, PS384, PS512 and Ed25519
+  (EdDSA restricted to the Ed25519 curve, which the key type check enforces)
+*/
+const C2PA_ALLOWED_ALGORITHMS = [-7, -35, -36, -37, -38, -39, -8]
+
+/**
+ * Returns the registry entry of a COSE algorithm identifier, or null for an unassigned identifier.
+ */
+export function coseAlgorithm (id: number): CoseAlgorithm | null {
+  return COSE_ALGORITHMS[id] ?? null
+}
+
+/**
+ * Returns the registry name of a COSE algorithm identifier (e.g. 'ES256'), or the identifier itself if it is unassigned.
+ */
+export function coseAlgorithmName (id: number): string {
+  return coseAlgorithm(id)?.name ?? id.toString()
+}
+
+/**
+ * Checks a claim signature algorithm against the C2PA allowlist and, when the signer's key type is known,
+ * against the key type of the signer's certificate. Returns the errors found, if any.
+ */
+export function checkC2paSignatureAlgorithm (id: number, key: PublicKeyType | null): string[] {
+  const algorithm = coseAlgorithm(id)
+  const name = algorithm?.name ?? `unassigned (${id})`
+  if (!C2PA_ALLOWED_ALGORITHMS.includes(id)) {
+    return [`COSE signature algorithm ${name} is not allowed by C2PA`]
+  }
+  const expected = algorithm?.key
+  if (key == null || expected == null) {
+    return []
+  }
+  // RSASSA-PSS keys (id-RSASSA-PSS) are RSA keys restricted to PSS
+  const type = key.type === 'RSA-PSS' ? 'RSA' : key.type
+  if (type !== expected.type || (expected.curve != null && key.curve !== expected.curve)) {
+    return [`COSE signature algorithm ${name} does not match the signer's ${keyTypeToString(key)} key`]
+  }
+  return []
+}
+
+function keyTypeToString (key: PublicKeyType): string {
+  return key.curve != null ? `${key.type} ${key.curve}` : key.type
+}
@@ -4,29 +4,66 @@
  */
 
 import { ByteReader } from './byteReader.js'
+import { decode as id3Decode, leadingTagLength } from './mp3.js'
 
+const BLOCK_TYPE_APPLICATION = 2
+const C2PA_APPLICATION_ID = 'c2pa'
+
+export interface FLACMetadataBlock {
+  type: number
+  last: boolean
+  data: Uint8Array
+}
+
+/**
+ * Walks the FLAC metadata blocks and returns the C2PA manifest store.
+ * The manifest store is carried in an APPLICATION block whose application id is 'c2pa'.
+ * The application data that follows the id is the JUMBF manifest store.
+ * c2pa-rs instead writes the manifest store as for MP3: in a GEOB frame of an ID3v2 tag before the FLAC stream.
+ */
 export function decode (buffer: Uint8Array): Uint8Array | null {
+  const blocks = decodeMetadataBlocks(buffer)
+
+  for (const block of blocks) {
+    if (block.type !== BLOCK_TYPE_APPLICATION || block.data.length < 4) {
+      continue
+    }
+    const reader = new ByteReader(block.data)
+    const applicationId = reader.string(4)
+    if (applicationId === C2PA_APPLICATION_ID) {
+      return reader.Uint8Array()
+    }
+  }
+
+  return id3Decode(buffer)
+}
+
+/**
+ * Returns the metadata blocks of a FLAC stream, which may follow an ID3v2 tag.
+ */
+export function decodeMetadataBlocks (buffer: Uint8Array): FLACMetadataBlock[] {
   const reader = new ByteReader(buffer)
+  reader.absolute(leadingTagLength(buffer))
 
   const flac = reader.string(4)
   if (flac !== 'fLaC') {
-    throw new Error('Invalid flaC signature')
+    throw new Error('Invalid fLaC signature')
   }
 
+  const blocks: FLACMetadataBlock[] = []
   let lastBlock = false
 
   while (!lastBlock) {
     const blockHead = reader.byte()
     lastBlock = (blockHead >> 7) !== 0
     const blockType = blockHead & 127
+    if (blockType === 127) {
+      throw new Error('Invalid FLAC metadata block type')
+    }
     const blockSize = reader.uint24()
     const blockData = reader.Uint8Array(blockSize)
-    if (blockType === 4) {
-      const decoder = new TextDecoder('utf-8')
-      const str = decoder.decode(blockData)
-      console.log(str)
-    }
+    blocks.push({ type: blockType, last: lastBlock, data: blockData })
   }
 
-  return null
+  return blocks
 }
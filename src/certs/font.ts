@@ -0,0 +1,258 @@
+/*
+ *  Copyright (c) Microsoft Corporation.
+ *  Licensed under the MIT license.
+ */
+
+import { ByteReader } from './byteReader.js'
+
+const C2PA_TABLE_TAG = 'C2PA'
+
+/*
+  sfnt version tags of TrueType ('\0\1\0\0', 'true') and CFF ('OTTO') fonts, and of font collections
+*/
+const SFNT_VERSIONS = [0x00010000, 0x74727565, 0x4F54544F] // '\0\1\0\0', 'true', 'OTTO'
+const TTC_TAG = 0x74746366 // 'ttcf'
+const WOFF_SIGNATURE = 0x774F4646 // 'wOFF'
+const WOFF2_SIGNATURE = 0x774F4632 // 'wOF2'
+
+const WOFF_HEADER_SIZE = 44
+const WOFF2_HEADER_SIZE = 48
+
+/*
+  WOFF2 table directory entries refer to the most common tables by their index in this list (tag index 63 means an explicit tag follows)
+*/
+const WOFF2_KNOWN_TAGS = [
+  'cmap', 'head', 'hhea', 'hmtx', 'maxp', 'name', 'OS/2', 'post', 'cvt ', 'fpgm', 'glyf', 'loca', 'prep', 'CFF ', 'VORG', 'EBDT',
+  'EBLC', 'gasp', 'hdmx', 'kern', 'LTSH', 'PCLT', 'VDMX', 'vhea', 'vmtx', 'BASE', 'GDEF', 'GPOS', 'GSUB', 'EBSC', 'JSTF', 'MATH',
+  'CBDT', 'CBLC', 'COLR', 'CPAL', 'SVG ', 'sbix', 'acnt', 'avar', 'bdat', 'bloc', 'bsln', 'cvar', 'fdsc', 'feat', 'fmtx', 'fvar',
+  'gvar', 'hsty', 'just', 'lcar', 'mort', 'morx', 'opbd', 'prop', 'trak', 'Zapf', 'Silf', 'Glat', 'Gloc', 'Feat', 'Sill'
+]
+const WOFF2_EXPLICIT_TAG = 63
+
+export interface FontTable {
+  tag: string
+  /**
+   * The table data, decompressed for WOFF fonts
+   */
+  data: Uint8Array
+}
+
+export interface C2paTable {
+  majorVersion: number
+  minorVersion: number
+  /**
+   * URI of the active manifest, for a manifest store that is not embedded in the font
+   */
+  activeManifestUri: string | null
+  manifestStore: Uint8Array | null
+}
+
+/**
+ * Returns true if the buffer is an OpenType/TrueType font, a font collection, or a WOFF/WOFF2 font.
+ */
+export function isFont (buffer: Uint8Array): boolean {
+  if (buffer.length < 4) {
+    return false
+  }
+  const signature = new ByteReader(buffer).uint32()
+  return SFNT_VERSIONS.includes(signature) || [TTC_TAG, WOFF_SIGNATURE, WOFF2_SIGNATURE].includes(signature)
+}
+
+/**
+ * Returns the C2PA manifest store of a font. The manifest store is held in the 'C2PA' table.
+ * Returns null if the font has no C2PA table, or if the table only references a remote manifest.
+ */
+export async function decode (buffer: Uint8Array): Promise<Uint8Array | null> {
+  const table = (await decodeTables(buffer, [C2PA_TABLE_TAG])).find((table) => table.tag === C2PA_TABLE_TAG)
+  if (table == null) {
+    return null
+  }
+  return decodeC2paTable(table.data).manifestStore
+}
+
+/**
+ * Returns true if the font, or one of the fonts of a collection, has a C2PA table. The table data is not read.
+ */
+export async function hasC2paTable (buffer: Uint8Array): Promise<boolean> {
+  return (await decodeTables(buffer, [])).some((table) => table.tag === C2PA_TABLE_TAG)
+}
+
+/**
+ * Returns the tables of an sfnt font (OpenType, TrueType, collection), or of a WOFF/WOFF2 font.
+ * Only the tables listed in `tags` have their data read (and decompressed); the data of other tables is empty.
+ * For font collections, the tables of every font are returned; tables shared by several fonts are returned once.
+ * Throws for a WOFF2 font that has one of the tables listed in `tags`, as its table data cannot be decompressed.
+ */
+export async function decodeTables (buffer: Uint8Array, tags: string[]): Promise<FontTable[]> {
+  const signature = new ByteReader(buffer).uint32()
+  switch (signature) {
+    case WOFF_SIGNATURE:
+      return await decodeWoffTables(buffer, tags)
+    case WOFF2_SIGNATURE:
+      return decodeWoff2Tables(buffer, tags)
+    case TTC_TAG:
+      return decodeCollectionTables(buffer, tags)
+    default:
+      if (!SFNT_VERSIONS.includes(signature)) {
+        throw new Error('Invalid font signature')
+      }
+      return decodeSfntTables(buffer, 0, tags).tables
+  }
+}
+
+/**
+ * Decodes the C2PA table: a header followed by the active manifest URI and the manifest store,
+ * at offsets relative to the start of the table.
+ */
+export function decodeC2paTable (data: Uint8Array): C2paTable {
+  const reader = new ByteReader(data)
+  const majorVersion = reader.uint16()
+  const minorVersion = reader.uint16()
+  const activeManifestUriOffset = reader.uint32()
+  const activeManifestUriLength = reader.uint16()
+  reader.move(2) // reserved
+  const manifestStoreOffset = reader.uint32()
+  const manifestStoreLength = reader.uint32()
+
+  if (activeManifestUriOffset + activeManifestUriLength > data.length || manifestStoreOffset + manifestStoreLength > data.length) {
+    throw new Error('Invalid C2PA font table')
+  }
+  const activeManifestUri = activeManifestUriLength > 0
+    ? new TextDecoder().decode(data.subarray(activeManifestUriOffset, activeManifestUriOffset + activeManifestUriLength))
+    : null
+  const manifestStore = manifestStoreLength > 0 ? data.subarray(manifestStoreOffset, manifestStoreOffset + manifestStoreLength) : null
+  return { majorVersion, minorVersion, activeManifestUri, manifestStore }
+}
+
+/*
+  The sfnt table directory: the sfnt version, the table count, three search fields, then 16-byte table records
+*/
+function decodeSfntTables (buffer: Uint8Array, offset: number, tags: string[]): { tables: FontTable[], offsets: number[] } {
+  const reader = new ByteReader(buffer)
+  reader.absolute(offset + 4)
+  const numTables = reader.uint16()
+  reader.move(6) // searchRange, entrySelector, rangeShift
+
+  const tables: FontTable[] = []
+  const offsets: number[] = []
+  for (let i = 0; i < numTables; i++) {
+    const tag = reader.string(4)
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const checksum = reader.uint32()
+    const tableOffset = reader.uint32()
+    const length = reader.uint32()
+    if (tableOffset + length > buffer.length) {
+      throw new Error(`Invalid font table offset: ${tag}`)
+    }
+    tables.push({ tag, data: tags.includes(tag) ? buffer.subarray(tableOffset, tableOffset + length) : new Uint8Array(0) })
+    offsets.push(tableOffset)
+  }
+  return { tables, offsets }
+}
+
+/*
+  A font collection ('ttcf') is a list of offsets to table directories, which may share tables
+*/
+function decodeCollectionTables (buffer: Uint8Array, tags: string[]): FontTable[] {
+  const reader = new ByteReader(buffer)
+  reader.move(8) // 'ttcf', majorVersion, minorVersion
+  const numFonts = reader.uint32()
+  const tables: FontTable[] = []
+  const seen = new Set<number>()
+  for (let i = 0; i < numFonts; i++) {
+    const font = decodeSfntTables(buffer, reader.uint32(), tags)
+    font.tables.forEach((table, index) => {
+      if (!seen.has(font.offsets[index])) {
+        seen.add(font.offsets[index])
+        tables.push(table)
+      }
+    })
+  }
+  return tables
+}
+
+/*
+  WOFF: each table is zlib-compressed on its own, unless compressing it did not make it smaller
+*/
+async function decodeWoffTables (buffer: Uint8Array, tags: string[]): Promise<FontTable[]> {
+  const reader = new ByteReader(buffer)
+  reader.absolute(12)
+  const numTables = reader.uint16()
+  reader.absolute(WOFF_HEADER_SIZE)
+
+  const tables: FontTable[] = []
+  for (let i = 0; i < numTables; i++) {
+    const tag = reader.string(4)
+    const offset = reader.uint32()
+    const compLength = reader.uint32()
+    const origLength = reader.uint32()
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const origChecksum = reader.uint32()
+    if (offset + compLength > buffer.length) {
+      throw new Error(`Invalid WOFF table offset: ${tag}`)
+    }
+    if (!tags.includes(tag)) {
+      tables.push({ tag, data: new Uint8Array(0) })
+      continue
+    }
+    const data = buffer.subarray(offset, offset + compLength)
+    tables.push({ tag, data: compLength < origLength ? await inflate(data) : data })
+  }
+  return tables
+}
+
+/*
+  WOFF2: the table directory is followed by an optional collection directory, then by a single Brotli-compressed
+  stream holding every table. Browsers do not implement Brotli decompression (DecompressionStream), so the table data
+  cannot be read: the tables are listed, and a font with one of the requested tables is reported as unsupported.
+*/
+function decodeWoff2Tables (buffer: Uint8Array, tags: string[]): FontTable[] {
+  const reader = new ByteReader(buffer)
+  reader.absolute(12)
+  const numTables = reader.uint16()
+  reader.absolute(WOFF2_HEADER_SIZE)
+
+  const directory: string[] = []
+  for (let i = 0; i < numTables; i++) {
+    const flags = reader.byte()
+    const tagIndex = flags & 0x3F
+    const tag = tagIndex === WOFF2_EXPLICIT_TAG ? reader.string(4) : WOFF2_KNOWN_TAGS[tagIndex]
+    const transformVersion = flags >> 6
+    uintBase128(reader) // origLength
+    // glyf and loca are transformed by default (version 0), other tables are transformed by any other version;
+    // a transformed table also has its transformed length
+    if (tag === 'glyf' || tag === 'loca' ? transformVersion === 0 : transformVersion !== 0) {
+      uintBase128(reader)
+    }
+    directory.push(tag)
+  }
+
+  const requested = directory.filter((tag) => tags.includes(tag))
+  if (requested.length > 0) {
+    throw new Error(`WOFF2 fonts are not supported: the ${requested.join(', ')} table data is Brotli-compressed`)
+  }
+  return directory.map((tag) => ({ tag, data: new Uint8Array(0) }))
+}
+
+/*
+  UIntBase128: up to five bytes of 7 bits each, most significant first, with the high bit set on all but the last byte
+*/
+function uintBase128 (reader: ByteReader): number {
+  let value = 0
+  for (let i = 0; i < 5; i++) {
+    const byte = reader.byte()
+    if (i === 0 && byte === 0x80) {
+      throw new Error('Invalid WOFF2 UIntBase128 value')
+    }
+    value = value * 128 + (byte & 0x7F)
+    if ((byte & 0x80) === 0) {
+      return value
+    }
+  }
+  throw new Error('Invalid WOFF2 UIntBase128 value')
+}
+
+async function inflate (data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate'))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
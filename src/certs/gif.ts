@@ -0,0 +1,127 @@
+/*
+ *  Copyright (c) Microsoft Corporation.
+ *  Licensed under the MIT license.
+ */
+
+import { ByteReader } from './byteReader.js'
+
+const EXTENSION_INTRODUCER = 0x21
+const IMAGE_SEPARATOR = 0x2C
+const TRAILER = 0x3B
+const APPLICATION_EXTENSION_LABEL = 0xFF
+const C2PA_APPLICATION_IDENTIFIER = 'C2PA_GIF'
+
+export interface GIFApplicationExtension {
+  /**
+   * Offset of the extension introducer (0x21) within the buffer
+   */
+  offset: number
+  /**
+   * Total length of the extension, including its block terminator
+   */
+  length: number
+  identifier: string
+  authenticationCode: Uint8Array
+  data: Uint8Array
+}
+
+/**
+ * Walks the GIF blocks and returns the C2PA manifest store.
+ * The manifest store is carried in an Application Extension whose identifier is 'C2PA_GIF';
+ * its data sub-blocks are concatenated to form the JUMBF manifest store.
+ */
+export function decode (buffer: Uint8Array): Uint8Array | null {
+  const extensions = decodeApplicationExtensions(buffer)
+  return extensions.find((extension) => extension.identifier === C2PA_APPLICATION_IDENTIFIER)?.data ?? null
+}
+
+export function decodeApplicationExtensions (buffer: Uint8Array): GIFApplicationExtension[] {
+  const reader = new ByteReader(buffer)
+
+  const signature = reader.string(6)
+  if (signature !== 'GIF87a' && signature !== 'GIF89a') {
+    throw new Error('Invalid GIF signature')
+  }
+
+  /*
+    Logical Screen Descriptor: width, height, packed fields, background color index, pixel aspect ratio
+  */
+  reader.move(4)
+  const screenFlags = reader.byte()
+  reader.move(2)
+  skipColorTable(reader, screenFlags)
+
+  const extensions: GIFApplicationExtension[] = []
+
+  while (!reader.finished) {
+    const offset = reader.offset
+    const introducer = reader.byte()
+
+    if (introducer === TRAILER) {
+      break
+    }
+
+    if (introducer === IMAGE_SEPARATOR) {
+      /*
+        Image Descriptor: left, top, width, height, packed fields
+      */
+      reader.move(8)
+      const imageFlags = reader.byte()
+      skipColorTable(reader, imageFlags)
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const lzwMinimumCodeSize = reader.byte()
+      readSubBlocks(reader)
+      continue
+    }
+
+    if (introducer !== EXTENSION_INTRODUCER) {
+      throw new Error(`Invalid GIF block introducer: ${introducer}`)
+    }
+
+    const label = reader.byte()
+    if (label !== APPLICATION_EXTENSION_LABEL) {
+      readSubBlocks(reader)
+      continue
+    }
+
+    const headerSize = reader.byte()
+    if (headerSize !== 11) {
+      throw new Error('Invalid GIF application extension')
+    }
+    const identifier = reader.string(8)
+    const authenticationCode = reader.Uint8Array(3)
+    const data = readSubBlocks(reader)
+    extensions.push({ offset, length: reader.offset - offset, identifier, authenticationCode, data })
+  }
+
+  return extensions
+}
+
+function skipColorTable (reader: ByteReader, flags: number): void {
+  if ((flags & 0x80) !== 0) {
+    reader.move(3 * (1 << ((flags & 0x07) + 1)))
+  }
+}
+
+/*
+  Data is stored in sub-blocks of up to 255 bytes, each prefixed with its size and terminated by a zero-size block
+*/
+function readSubBlocks (reader: ByteReader): Uint8Array {
+  const blocks: Uint8Array[] = []
+  let length = 0
+  let size = reader.byte()
+  while (size !== 0) {
+    const block = reader.Uint8Array(size)
+    blocks.push(block)
+    length += size
+    size = reader.byte()
+  }
+
+  const data = new Uint8Array(length)
+  let offset = 0
+  for (const block of blocks) {
+    data.set(block, offset)
+    offset += block.length
+  }
+  return data
+}
@@ -0,0 +1,317 @@
+/*
+ *  Copyright (c) Microsoft Corporation.
+ *  Licensed under the MIT license.
+ */
+
+import { bytesToHex, hexToBytes } from '../utils.js'
+import { decodeBoxHash, decodeCollectionHash, decodeDataHash, type BmffHashAssertion, type BmffMerkleMap, type BoxHashAssertion, type CollectionHashAssertion, type DataHashAssertion, type HashExclusion } from './assertions.js'
+import { type BmffFragment, type FragmentMerkle } from './bmff.js'
+import { C2PA_BOX_NAME, decodeBoxMap } from './boxHash.js'
+import { decode as cborDecode } from './cbor.js'
+import { childBox, isContentBox, manifests, decode as jumbfDecode, type JumbfBox } from './jumbf.js'
+import { C2PA_MANIFEST_ENTRY, decodeDirectory, type ZipDirectory } from './zip.js'
+
+const DATA_HASH_LABEL = 'c2pa.hash.data'
+const COLLECTION_HASH_LABEL = 'c2pa.hash.collection.data'
+const BOX_HASH_LABEL = 'c2pa.hash.boxes'
+
+/* offset of the CRC-32 field in a ZIP central directory record */
+const ZIP_RECORD_CRC32_OFFSET = 16
+
+export interface HardBindingResult {
+  assertion: string
+  alg: string
+  valid: boolean
+  errors: string[]
+}
+
+const HASH_ALGORITHMS: Record<string, string> = {
+  sha256: 'SHA-256',
+  sha384: 'SHA-384',
+  sha512: 'SHA-512'
+}
+
+/**
+ * Verifies the c2pa.hash.data, c2pa.hash.boxes or c2pa.hash.collection.data assertion of the active manifest
+ * against the asset bytes. The active manifest is the one labelled activeLabel or, by default, the last manifest in the store.
+ * Mismatches are reported with the bytes hashed, and the expected and actual hashes;
+ * a malformed assertion is reported as a mismatch. Returns null if the active manifest has none of these assertions.
+ */
+export async function verifyHardBinding (manifestStore: Uint8Array, asset: Uint8Array, activeLabel: string | null = null): Promise<HardBindingResult | null> {
+  const assertionBox = findHashAssertion(manifestStore, activeLabel)
+  if (assertionBox == null) {
+    return null
+  }
+  const label = assertionBox.label ?? DATA_HASH_LABEL
+  const contentBox = assertionBox.boxes[0]
+  if (contentBox == null || !isContentBox(contentBox) || contentBox.type !== 'cbor') {
+    return { assertion: label, alg: '', valid: false, errors: [`${label}: expected cbor content-box`] }
+  }
+
+  try {
+    const value = cborDecode(contentBox.data)
+    if (label.startsWith(COLLECTION_HASH_LABEL)) {
+      return await verifyCollectionHash(label, decodeCollectionHash(value), asset)
+    }
+    if (label.startsWith(BOX_HASH_LABEL)) {
+      return await verifyBoxHash(label, decodeBoxHash(value), asset)
+    }
+    return await verifyDataHash(label, decodeDataHash(value), asset)
+  } catch (error) {
+    return { assertion: label, alg: '', valid: false, errors: [`${label}: ${(error as Error).message}`] }
+  }
+}
+
+/*
+  A data hash covers the whole asset, less the excluded ranges (the manifest store and its container)
+*/
+async function verifyDataHash (label: string, assertion: DataHashAssertion, asset: Uint8Array): Promise<HardBindingResult> {
+  const alg = assertion.alg ?? 'sha256'
+  const algorithm = HASH_ALGORITHMS[alg]
+  if (algorithm == null) {
+    return { assertion: label, alg, valid: false, errors: [`${label}: unsupported hash algorithm ${alg}`] }
+  }
+
+  const exclusions = assertion.exclusions ?? []
+  const invalidExclusion = exclusions.find((exclusion) => exclusion.start < 0 || exclusion.length < 0 || exclusion.start + exclusion.length > asset.length)
+  if (invalidExclusion != null) {
+    return { assertion: label, alg, valid: false, errors: [`${label}: exclusion ${invalidExclusion.start}+${invalidExclusion.length} is outside the asset`] }
+  }
+  // exclusions are listed in file order and do not overlap
+  const misplacedExclusion = exclusions.find((exclusion, index) => index > 0 && exclusion.start < exclusions[index - 1].start + exclusions[index - 1].length)
+  if (misplacedExclusion != null) {
+    return { assertion: label, alg, valid: false, errors: [`${label}: exclusion ${misplacedExclusion.start}+${misplacedExclusion.length} overlaps the previous exclusion or is out of order`] }
+  }
+
+  const expected = assertion.hash
+  const actual = bytesToHex(new Uint8Array(await crypto.subtle.digest(algorithm, excludeRanges(asset, exclusions))))
+  const valid = actual === expected
+  return {
+    assertion: label,
+    alg,
+    valid,
+    errors: valid ? [] : [`${label}: hash of ${formatRanges(includedRanges(asset.length, exclusions))} does not match: expected ${expected}, actual ${actual}`]
+  }
+}
+
+/*
+  A box hash lists the boxes of the asset in file order, in groups of one or more consecutive boxes hashed together.
+  The C2PA box, which holds the manifest store, is listed but not hashed. Every box must be listed.
+*/
+async function verifyBoxHash (label: string, assertion: BoxHashAssertion, asset: Uint8Array): Promise<HardBindingResult> {
+  const alg = assertion.alg ?? 'sha256'
+  const boxes = decodeBoxMap(asset)
+  if (boxes == null) {
+    return { assertion: label, alg, valid: false, errors: [`${label}: box hashes are only supported for JPEG and PNG assets`] }
+  }
+
+  const errors: string[] = []
+  let index = 0
+  for (const entry of assertion.boxes) {
+    const group = boxes.slice(index, index + entry.names.length)
+    if (group.length !== entry.names.length || group.some((box, i) => box.name !== entry.names[i])) {
+      // the following groups cannot be matched to the asset's boxes either
+      const found = group.length > 0 ? group.map((box) => box.name).join(', ') : 'the end of the asset'
+      errors.push(`${label}: expected ${entry.names.join(', ')} at offset ${boxes[index]?.offset ?? asset.length}, found ${found}`)
+      return { assertion: label, alg, valid: false, errors }
+    }
+    index += group.length
+    if (entry.names.length === 1 && entry.names[0] === C2PA_BOX_NAME) {
+      continue
+    }
+
+    const entryAlg = entry.alg ?? alg
+    const algorithm = HASH_ALGORITHMS[entryAlg]
+    if (algorithm == null) {
+      errors.push(`${label}: unsupported hash algorithm ${entryAlg} for ${entry.names.join(', ')}`)
+      continue
+    }
+    const start = group[0].offset
+    const end = group[group.length - 1].offset + group[group.length - 1].length
+    const expected = entry.hash
+    const actual = bytesToHex(new Uint8Array(await crypto.subtle.digest(algorithm, asset.subarray(start, end))))
+    if (actual !== expected) {
+      errors.push(`${label}: hash of ${entry.names.join(', ')} (${formatRanges([{ start, length: end - start }])}) does not match: expected ${expected}, actual ${actual}`)
+    }
+  }
+
+  if (index < boxes.length) {
+    const uncovered = boxes.slice(index)
+    errors.push(`${label}: ${uncovered.map((box) => box.name).join(', ')} from offset ${uncovered[0].offset} ${uncovered.length > 1 ? 'are' : 'is'} not covered by the box hash`)
+  }
+  // data after the last box (e.g. after the JPEG EOI marker) is not covered either
+  const last = boxes[boxes.length - 1]
+  const end = last != null ? last.offset + last.length : 0
+  if (end < asset.length) {
+    errors.push(`${label}: ${formatRanges([{ start: end, length: asset.length - end }])} after the last box ${end > 0 ? `(${last.name}) ` : ''}are not covered by the box hash`)
+  }
+
+  return { assertion: label, alg, valid: errors.length === 0, errors }
+}
+
+/*
+  ZIP-based documents are bound by a collection hash: each entry is hashed from its local file header
+  to the end of its data, and the central directory is hashed up to the end of the file, without the CRC-32
+  of the manifest entry's record, which the manifest store cannot include. Every entry other than the manifest
+  store and the folders must be listed.
+*/
+async function verifyCollectionHash (label: string, assertion: CollectionHashAssertion, asset: Uint8Array): Promise<HardBindingResult> {
+  const alg = assertion.alg ?? 'sha256'
+  const algorithm = HASH_ALGORITHMS[alg]
+  if (algorithm == null) {
+    return { assertion: label, alg, valid: false, errors: [`${label}: unsupported hash algorithm ${alg}`] }
+  }
+
+  let directory: ZipDirectory
+  try {
+    directory = decodeDirectory(asset)
+  } catch (error) {
+    return { assertion: label, alg, valid: false, errors: [`${label}: asset is not a ZIP file: ${(error as Error).message}`] }
+  }
+
+  const errors: string[] = []
+  const entries = directory.entries.filter((entry) => entry.name !== C2PA_MANIFEST_ENTRY && !entry.name.endsWith('/'))
+  const uris = assertion.uris
+
+  for (const { uri, hash } of uris) {
+    const entry = entries.find((entry) => entry.name === uri.replace(/^\.?\//, ''))
+    if (entry == null) {
+      errors.push(`${label}: ${uri} is not in the asset`)
+      continue
+    }
+    if (!await hashMatches(algorithm, asset.subarray(entry.localHeaderOffset, entry.end), hash)) {
+      errors.push(`${label}: hash of ${uri} does not match`)
+    }
+  }
+
+  const listed = new Set(uris.map(({ uri }) => uri.replace(/^\.?\//, '')))
+  entries.filter((entry) => !listed.has(entry.name)).forEach((entry) => {
+    errors.push(`${label}: ${entry.name} is not covered by the collection hash`)
+  })
+
+  if (assertion.zip_central_directory_hash != null) {
+    const manifestEntry = directory.entries.find((entry) => entry.name === C2PA_MANIFEST_ENTRY)
+    const centralDirectory = asset.subarray(directory.centralDirectoryOffset)
+    const exclusions = manifestEntry != null ? [{ start: manifestEntry.recordOffset - directory.centralDirectoryOffset + ZIP_RECORD_CRC32_OFFSET, length: 4 }] : []
+    if (!await hashMatches(algorithm, excludeRanges(centralDirectory, exclusions), assertion.zip_central_directory_hash)) {
+      errors.push(`${label}: ZIP central directory hash does not match`)
+    }
+  }
+
+  return { assertion: label, alg, valid: errors.length === 0, errors }
+}
+
+/**
+ * Verifies the fragments covered by a merkle box against the merkle tree of a c2pa.hash.bmff.v2 assertion
+ * with the same uniqueId and localId. A fragment that does not match, or has no merkle tree, is returned with an error;
+ * the other covered fragments are returned as verified.
+ */
+export async function verifyFragments (asset: Uint8Array, fragments: BmffFragment[], assertion: BmffHashAssertion): Promise<BmffFragment[]> {
+  const verified: BmffFragment[] = []
+  for (const fragment of fragments) {
+    if (!fragment.covered || fragment.merkle == null) {
+      verified.push(fragment)
+      continue
+    }
+    const merkle = fragment.merkle
+    const tree = assertion.merkle?.find((map) => map.uniqueId === merkle.uniqueId && map.localId === merkle.localId)
+    const error = tree != null
+      ? await verifyMerklePath(asset.subarray(fragment.offset, fragment.offset + fragment.length), merkle, tree, assertion.alg)
+      : `no merkle tree for uniqueId ${merkle.uniqueId} and localId ${merkle.localId}`
+    verified.push({ ...fragment, verified: error == null, error })
+  }
+  return verified
+}
+
+/*
+  The leaf is the hash of the fragment. Each row of the tree hashes pairs of nodes of the row below, left then right;
+  the last node of a row with an odd number of nodes is promoted unchanged. The proof of the merkle box holds the
+  siblings on the path from the leaf, bottom-up, up to the row stored in the assertion, which is usually the root.
+*/
+async function verifyMerklePath (data: Uint8Array, merkle: FragmentMerkle, tree: BmffMerkleMap, defaultAlg = 'sha256'): Promise<string | null> {
+  const alg = tree.alg ?? defaultAlg
+  const algorithm = HASH_ALGORITHMS[alg]
+  if (algorithm == null) {
+    return `unsupported hash algorithm ${alg}`
+  }
+  if (merkle.location >= tree.count) {
+    return `merkle location ${merkle.location} is outside the tree of ${tree.count} leaves`
+  }
+
+  let node = new Uint8Array(await crypto.subtle.digest(algorithm, data))
+  let index = merkle.location
+  let rowLength = tree.count
+  let proof = 0
+  while (rowLength > tree.hashes.length && rowLength > 1) {
+    const sibling = index % 2 === 0 ? index + 1 : index - 1
+    if (sibling < rowLength) {
+      const hash = merkle.hashes[proof++]
+      if (hash == null) {
+        return `merkle proof of location ${merkle.location} is too short`
+      }
+      const pair = index % 2 === 0 ? [node, hexToBytes(hash)] : [hexToBytes(hash), node]
+      node = new Uint8Array(await crypto.subtle.digest(algorithm, new Uint8Array([...pair[0], ...pair[1]])))
+    }
+    index = Math.floor(index / 2)
+    rowLength = Math.ceil(rowLength / 2)
+  }
+  if (rowLength !== tree.hashes.length) {
+    return `merkle tree of ${tree.count} leaves has no row of ${tree.hashes.length} hashes`
+  }
+
+  const expected = tree.hashes[index]
+  const actual = bytesToHex(node)
+  return actual === expected ? null : `hash does not match merkle tree ${tree.uniqueId}/${tree.localId} at location ${merkle.location}: expected ${expected}, actual ${actual}`
+}
+
+async function hashMatches (algorithm: string, data: Uint8Array, hash: string): Promise<boolean> {
+  const digest = new Uint8Array(await crypto.subtle.digest(algorithm, data))
+  return bytesToHex(digest) === hash
+}
+
+/*
+  Without a label, the active manifest is the last manifest in the manifest store
+*/
+function findHashAssertion (manifestStore: Uint8Array, activeLabel: string | null): JumbfBox | null {
+  const store = manifests(jumbfDecode(manifestStore))
+  const activeManifest = activeLabel != null ? store.find((manifest) => manifest.label === activeLabel) : store[store.length - 1]
+  const assertionStore = activeManifest != null ? childBox(activeManifest, 'c2pa.assertions') : null
+  return assertionStore?.boxes.find((box): box is JumbfBox => !isContentBox(box) &&
+    [DATA_HASH_LABEL, BOX_HASH_LABEL, COLLECTION_HASH_LABEL].some((label) => box.label?.startsWith(label) ?? false)) ?? null
+}
+
+function excludeRanges (asset: Uint8Array, exclusions: HashExclusion[]): Uint8Array {
+  const sorted = [...exclusions].sort((a, b) => a.start - b.start)
+  const included = new Uint8Array(asset.length - sorted.reduce((total, exclusion) => total + exclusion.length, 0))
+  let position = 0
+  let offset = 0
+  for (const exclusion of sorted) {
+    included.set(asset.subarray(position, exclusion.start), offset)
+    offset += exclusion.start - position
+    position = exclusion.start + exclusion.length
+  }
+  included.set(asset.subarray(position), offset)
+  return included
+}
+
+/*
+  The ranges of the asset that remain once the exclusions are removed
+*/
+function includedRanges (assetLength: number, exclusions: HashExclusion[]): Array<{ start: number, length: number }> {
+  const ranges: Array<{ start: number, length: number }> = []
+  let position = 0
+  for (const exclusion of [...exclusions].sort((a, b) => a.start - b.start)) {
+    if (exclusion.start > position) {
+      ranges.push({ start: position, length: exclusion.start - position })
+    }
+    position = Math.max(position, exclusion.start + exclusion.length)
+  }
+  if (position < assetLength) {
+    ranges.push({ start: position, length: assetLength - position })
+  }
+  return ranges
+}
+
+function formatRanges (ranges: Array<{ start: number, length: number }>): string {
+  return 'bytes ' + ranges.map(({ start, length }) => `${start}-${start + length - 1}`).join(', ')
+}
@@ -5,6 +5,7 @@
 
 import { ByteReader } from './byteReader.js'
 
+const APP1_MARKER = 0xE1
 const APP11_MARKER = 0xEB
 const SOI_MARKER = 0xD8
 const SOS_MARKER = 0xDA
@@ -17,18 +18,33 @@ const SECTION_START = 0xFF
  * @returns {Uint8Array[]} An array of Uint8Array buffers containing the extracted APP11 marker data.
  */
 export function exportApp11 (buffer: Uint8Array): Uint8Array[] {
+  return exportSegments(buffer, APP11_MARKER)
+}
+
+/**
+ * Parses a Uint8Array buffer containing JPEG data to extract and return an array of APP1 marker segments.
+ * APP1 segments carry EXIF and XMP metadata.
+ *
+ * @param {Uint8Array} buffer - The Uint8Array buffer containing JPEG data to be processed.
+ * @returns {Uint8Array[]} An array of Uint8Array buffers containing the extracted APP1 marker data.
+ */
+export function exportApp1 (buffer: Uint8Array): Uint8Array[] {
+  return exportSegments(buffer, APP1_MARKER)
+}
+
+function exportSegments (buffer: Uint8Array, segmentMarker: number): Uint8Array[] {
   const reader = new ByteReader(buffer)
 
-  const app11Buffers: Uint8Array[] = []
+  const segmentBuffers: Uint8Array[] = []
   if (reader.byte() !== SECTION_START || reader.byte() !== SOI_MARKER) {
     console.error('Invalid JPEG format or marker not found.')
-    return app11Buffers
+    return segmentBuffers
   }
 
   while (!reader.finished) {
     if (reader.byte() !== SECTION_START) {
       console.error('Invalid JPEG format or marker not found.')
-      return app11Buffers
+      return segmentBuffers
     }
     const marker = reader.byte()
     if (marker === SOS_MARKER /* end of metadata */) {
@@ -41,14 +57,14 @@ export function exportApp11 (buffer: Uint8Array): Uint8Array[] {
 
     const length = reader.peek.uint16()
 
-    if (marker === APP11_MARKER) {
-      const app11Data = reader.Uint8Array(length)
-      app11Buffers.push(app11Data)
+    if (marker === segmentMarker) {
+      const segmentData = reader.Uint8Array(length)
+      segmentBuffers.push(segmentData)
       continue
     }
 
     reader.move(length)
   }
 
-  return app11Buffers
+  return segmentBuffers
 }
@@ -3,8 +3,17 @@
  *  Licensed under the MIT license.
  */
 
+import { bytesToHex } from '../utils.js'
 import { ByteReader } from './byteReader.js'
 
+const JPEG_XT_COMMON_IDENTIFIER = 0x4A50 // 'JP'
+const JUMB_BOX_TYPE = 0x6A756D62 // 'jumb'
+
+/*
+  Description box UUID of the C2PA manifest store: 63327061-0011-0010-8000-00AA00389B71
+*/
+const C2PA_MANIFEST_STORE_UUID = '6332706100110010800000aa00389b71'
+
 export interface JumbfBuffer {
   segmentLength: number
   commonIdentifier: number
@@ -12,89 +21,177 @@ export interface JumbfBuffer {
   packetSequenceNumber: number
   boxLength: number
   boxType: number
+  /**
+   * Size of the box header repeated at the start of every segment: 8 bytes, or 16 with an XLBox
+   */
+  headerLength: number
   jumbf: Uint8Array
 }
 
-export function decode (apt11Buffers: Uint8Array[]): Uint8Array {
+/*
+  A box reassembled from the APP11 segments sharing a box type and box instance number
+*/
+export interface JpegXtBox {
+  boxType: string
+  boxInstanceNumber: number
+  /**
+   * The description box UUID of a JUMBF superbox, null for other boxes
+   */
+  uuid: string | null
+  jumbf: Uint8Array | null
+  error: string | null
+}
+
+/**
+ * Reassembles the JUMBF boxes carried in APP11 segments and returns the C2PA manifest store.
+ * APP11 segments that are not JPEG XT, and boxes that are not the C2PA manifest store, are ignored;
+ * decodeBoxes returns those boxes. Returns null if there is no C2PA manifest store.
+ */
+export function decode (apt11Buffers: Uint8Array[]): Uint8Array | null {
+  const manifestStore = decodeBoxes(apt11Buffers).find(isC2paManifestStore) ?? null
+  if (manifestStore?.error != null) {
+    throw new Error(manifestStore.error)
+  }
+  return manifestStore?.jumbf ?? null
+}
+
+/**
+ * Returns every box carried in the APP11 segments, each reassembled from its segments in packet sequence order.
+ * A box whose segments do not reassemble has a null jumbf and the reason in error.
+ */
+export function decodeBoxes (apt11Buffers: Uint8Array[]): JpegXtBox[] {
   const jumbfSections = parseXLBuffers(apt11Buffers)
   const grouped = group(jumbfSections)
-  const jumbf = merge(grouped[0]) // TODO: handle multiple groups (if possible)
-  return jumbf
+
+  return grouped.map((instanceGroup): JpegXtBox => {
+    const first = instanceGroup[0]
+    const boxType = new TextDecoder().decode(first.jumbf.subarray(4, 8))
+    const uuid = first.boxType === JUMB_BOX_TYPE ? descriptionUuid(first) : null
+    try {
+      return { boxType, boxInstanceNumber: first.boxInstanceNumber, uuid, jumbf: merge(instanceGroup), error: null }
+    } catch (error) {
+      return { boxType, boxInstanceNumber: first.boxInstanceNumber, uuid, jumbf: null, error: (error as Error).message }
+    }
+  })
+}
+
+function isC2paManifestStore (box: JpegXtBox): boolean {
+  return box.boxType === 'jumb' && box.uuid === C2PA_MANIFEST_STORE_UUID
 }
 
+/*
+  APP11 segments that are not JPEG XT (a different common identifier), too short to hold a box header,
+  or with a segment length that does not match their size are skipped
+*/
 function parseXLBuffers (apt11Buffers: Uint8Array[]): JumbfBuffer[] {
-  const jumbfSections = apt11Buffers.map((buffer: Uint8Array): JumbfBuffer => {
+  const jumbfSections: JumbfBuffer[] = []
+  for (const buffer of apt11Buffers) {
     const reader = new ByteReader(buffer)
+    if (reader.remaining < 18) {
+      console.warn('Ignoring APP11 segment: too short for a JPEG XT box')
+      continue
+    }
     const segmentLength = reader.uint16()
     const commonIdentifier = reader.uint16()
+    if (commonIdentifier !== JPEG_XT_COMMON_IDENTIFIER) {
+      console.warn(`Ignoring APP11 segment with common identifier 0x${commonIdentifier.toString(16)}`)
+      continue
+    }
     const boxInstanceNumber = reader.uint16()
     const packetSequenceNumber = reader.uint32()
-    let boxLength = reader.peek.uint32()
-    const boxType = reader.peek.uint32()
+    const boxHeader = new ByteReader(reader.peek.Uint8Array())
+    let boxLength = boxHeader.uint32()
+    const boxType = boxHeader.uint32()
+    let headerLength = 8
 
     if (segmentLength !== reader.length) {
-      throw new Error('Invalid segment length')
-    }
-
-    if (commonIdentifier !== 0x4A50) {
-      throw new Error('Invalid common identifier')
+      console.warn(`Ignoring APP11 segment for box ${boxInstanceNumber}: segment length ${segmentLength} does not match its ${reader.length} bytes`)
+      continue
     }
 
-    // boxLength will be greater than this buffer length when multiple sections are concatenated
-    if (boxLength === 0) {
-      boxLength = reader.remaining
-    }
+    // boxLength will be greater than this buffer length when multiple sections are concatenated;
+    // 0 (the box extends to the end of its data) is kept, as the total length is only known once merged
     if (boxLength === 1) {
-      boxLength = reader.peek.uint64()
+      boxLength = boxHeader.uint64()
+      headerLength = 16
     }
 
     const jumbf = reader.Uint8Array(/* remaining buffer */)
-    return {
+    jumbfSections.push({
       segmentLength,
       commonIdentifier,
       boxInstanceNumber,
       packetSequenceNumber,
       boxLength,
       boxType,
+      headerLength,
       jumbf
-    }
-  })
+    })
+  }
   return jumbfSections
 }
 
+/*
+  Segments belong to the same box when they share the box type and box instance number
+*/
 function group (jumbfSections: JumbfBuffer[]): JumbfBuffer[][] {
-  const grouped = jumbfSections.reduce<Record<number, JumbfBuffer[]>>((acc, item) => {
-    const key = item.boxInstanceNumber
-    if (acc[key] === undefined) {
-      acc[key] = []
+  const grouped = jumbfSections.reduce<Map<string, JumbfBuffer[]>>((acc, item) => {
+    const key = `${item.boxType}/${item.boxInstanceNumber}`
+    if (!acc.has(key)) {
+      acc.set(key, [])
     }
-    acc[key].push(item)
+    acc.get(key)?.push(item)
     return acc
-  }, {})
-  const values = Object.values(grouped).map((instanceGroup) => instanceGroup.sort((a, b) => a.packetSequenceNumber - b.packetSequenceNumber))
+  }, new Map())
+  const values = [...grouped.values()].map((instanceGroup) => instanceGroup.sort((a, b) => a.packetSequenceNumber - b.packetSequenceNumber))
   return values
 }
 
+/*
+  The box header is repeated at the start of every segment; the content follows it.
+  Every segment must repeat the same box length: the total length, or 0 for a box extending to the end of its data,
+  in which case the merged box is given its total length.
+*/
 function merge (group: JumbfBuffer[]): Uint8Array {
-  let totalLength = 8
+  const { boxLength, headerLength } = group[0]
+  let totalLength = headerLength
   for (let index = 0; index < group.length; index++) {
     const section = group[index]
     // TODO: apparently the sequence number is not required to be contiguous or start at 1 or 0
     // if (section.packetSequenceNumber !== index + 1) {
     //   throw new Error('Missing sequence')
     // }
-    totalLength += section.jumbf.length - 8
+    totalLength += section.jumbf.length - section.headerLength
   }
   const mergedJumbf = new Uint8Array(totalLength)
-  let offset = 8
+  let offset = headerLength
   for (let index = 0; index < group.length; index++) {
     const section = group[index]
-    if (section.boxLength !== totalLength) {
+    if (section.boxLength !== boxLength || (boxLength !== 0 && boxLength !== totalLength) || section.headerLength !== headerLength) {
       throw new Error('Invalid box length')
     }
-    mergedJumbf.set(section.jumbf.subarray(8), offset)
-    offset += section.jumbf.length - 8
+    mergedJumbf.set(section.jumbf.subarray(headerLength), offset)
+    offset += section.jumbf.length - headerLength
+  }
+  mergedJumbf.set(group[0].jumbf.subarray(0, headerLength))
+  if (boxLength === 0) {
+    new DataView(mergedJumbf.buffer).setUint32(0, totalLength)
   }
-  mergedJumbf.set(group[0].jumbf.subarray(0, 8))
   return mergedJumbf
 }
+
+/*
+  A JUMBF superbox starts with a description box ('jumd') holding the UUID of its content type
+*/
+function descriptionUuid (section: JumbfBuffer): string | null {
+  const reader = new ByteReader(section.jumbf)
+  reader.move(section.headerLength)
+  if (reader.remaining < 24) {
+    return null
+  }
+  reader.move(4)
+  if (reader.string(4) !== 'jumd') {
+    return null
+  }
+  return bytesToHex(reader.Uint8Array(16))
+}
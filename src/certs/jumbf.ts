@@ -17,12 +17,21 @@ export interface DescriptionBox {
 
 export interface JumbfBox extends DescriptionBox {
   type: string
+  /**
+   * The offset of the box in the decoded buffer, header included
+   */
+  offset: number
+  /**
+   * The length of the box, header included
+   */
   length: number
   boxes: Array<JumbfBox | ContentBox>
 }
 
 export interface ContentBox {
   type: string
+  offset: number
+  length: number
   data: Uint8Array
 }
 
@@ -30,6 +39,21 @@ export function isContentBox (box: JumbfBox | ContentBox): box is ContentBox {
   return 'data' in box
 }
 
+/**
+ * Returns the child superbox of a box with the given label, or null if there is none.
+ */
+export function childBox (box: JumbfBox, label: string): JumbfBox | null {
+  return box.boxes.find((child): child is JumbfBox => !isContentBox(child) && child.label === label) ?? null
+}
+
+/**
+ * Returns the manifests of a C2PA manifest store, in store order: the active manifest is the last one.
+ * Each manifest is labelled with its URN.
+ */
+export function manifests (store: JumbfBox): JumbfBox[] {
+  return store.boxes.filter((box): box is JumbfBox => !isContentBox(box) && box.label != null)
+}
+
 export interface Toggles {
   request: boolean
   label: boolean
@@ -38,63 +62,119 @@ export interface Toggles {
 }
 
 export interface JumbfResult extends JumbfBox {
-  labels: Record<string, JumbfBox>
+  /**
+   * The decoded buffer, which box offsets refer to
+   */
+  buffer: Uint8Array
 }
 
-let _labels: Record<string, JumbfBox>
-let reader: ByteReader
-
-export function decode (buffer: Uint8Array): JumbfResult {
-  reader = new ByteReader(buffer)
-  _labels = {}
-  return { labels: _labels, ..._decode() as JumbfBox }
+export interface ResolvedBox {
+  box: JumbfBox | ContentBox
+  /**
+   * The raw bytes of the box, header included
+   */
+  bytes: Uint8Array
 }
 
-function _decode (): JumbfBox | DescriptionBox | ContentBox {
-  let length: number = reader.uint32()
-  const type: string = reader.string(4)
-
-  if (type === 'jumb') {
-    if (length === 0 /* 0 = unknown length; use remaining buffer */) {
-      length = reader.remaining
-    }
-    if (length === 1 /* 1 = extended length */) {
-      length = reader.uint64()
-    }
-    const boxes: Array<JumbfBox | ContentBox> = []
-    const end = reader.offset + length - 8
-    // The first box is a jumd box
-    const description = _decode() as DescriptionBox
+const SELF_URI_PREFIX = 'self#jumbf='
 
-    while (reader.offset < end) {
-      const child = _decode() as JumbfBox | ContentBox
-      boxes.push(child)
-    }
+/**
+ * Decodes a JUMBF superbox, such as a C2PA manifest store, into a tree of boxes.
+ */
+export function decode (buffer: Uint8Array): JumbfResult {
+  const reader = new ByteReader(buffer)
+  const box = decodeBox(reader)
+  if (isContentBox(box)) {
+    throw new Error(`Expected a JUMBF superbox, found '${box.type}'`)
+  }
+  return { ...box, buffer }
+}
 
-    const result = {
-      ...description,
-      type,
-      length,
-      boxes
-    }
+/**
+ * Resolves a C2PA JUMBF URI (e.g. 'self#jumbf=/c2pa/urn:uuid:.../c2pa.assertions/c2pa.actions') to the box it references.
+ * Absolute paths start with the label of the store; relative paths (e.g. 'self#jumbf=c2pa.assertions/c2pa.actions')
+ * are resolved against `base`, typically the manifest holding the reference.
+ * Returns null for references to other assets, and when no box matches.
+ */
+export function resolveUri (store: JumbfResult, uri: string, base: JumbfBox | null = null): ResolvedBox | null {
+  const path = uri.startsWith(SELF_URI_PREFIX) ? uri.substring(SELF_URI_PREFIX.length) : uri.includes('#') || uri.includes(':/') ? null : uri
+  if (path == null || path === '') {
+    return null
+  }
+  const segments = path.split('/').filter((segment) => segment !== '').map((segment) => decodeURIComponent(segment))
+  const absolute = segments[0] === store.label ? findBox(store, segments.slice(1)) : null
+  // some writers omit the leading '/' of absolute paths
+  const box = path.startsWith('/') ? absolute : (base != null ? findBox(base, segments) : null) ?? absolute
+  if (box == null) {
+    return null
+  }
+  return { box, bytes: store.buffer.subarray(box.offset, box.offset + box.length) }
+}
 
-    if (description.label != null) {
-      _labels[description.label] = result
-    }
+function findBox (root: JumbfBox, labels: string[]): JumbfBox | null {
+  let box: JumbfBox | null = root
+  for (const label of labels) {
+    box = box != null ? childBox(box, label) : null
+  }
+  return box
+}
 
-    return result
+/*
+  A box is a 32-bit length (header included) and a 4-character type, with a 64-bit length following
+  when the 32-bit length is 1; a length of 0 means the box extends to the end of the buffer.
+  A superbox ('jumb') holds a description box ('jumd') followed by its content boxes.
+*/
+function decodeBox (reader: ByteReader): JumbfBox | ContentBox {
+  const offset = reader.offset
+  let length: number = reader.uint32()
+  const type: string = reader.string(4)
+  if (length === 1 /* 1 = extended length */) {
+    length = reader.uint64()
+  } else if (length === 0 /* 0 = unknown length; use remaining buffer */) {
+    length = reader.length - offset
+  }
+  const end = offset + length
+  if (length < reader.offset - offset || end > reader.length) {
+    throw new Error(`Invalid JUMBF box length: '${type}' at offset ${offset}`)
   }
 
-  if (type === 'jumd') {
-    return jumbd()
+  if (type !== 'jumb') {
+    return { type, offset, length, data: reader.Uint8Array(end - reader.offset) }
   }
 
-  const dataBox = { type, data: reader.Uint8Array(length - 8) }
+  const description = decodeDescription(reader, offset)
+  const boxes: Array<JumbfBox | ContentBox> = []
+  while (reader.offset < end) {
+    boxes.push(decodeBox(reader))
+  }
+  if (reader.offset !== end) {
+    throw new Error(`JUMBF box '${description.label ?? type}' at offset ${offset} overruns its length`)
+  }
 
-  return dataBox
+  return {
+    ...description,
+    type,
+    offset,
+    length,
+    boxes
+  }
 }
 
-function jumbd (): DescriptionBox {
+/*
+  The description box: the content type UUID, the toggles, then the optional label (null-terminated),
+  ID and 32-byte SHA-256 signature, as flagged by the toggles. A private box may follow, which is skipped.
+*/
+function decodeDescription (reader: ByteReader, superboxOffset: number): DescriptionBox {
+  const offset = reader.offset
+  const length = reader.uint32()
+  const type = reader.string(4)
+  if (type !== 'jumd') {
+    throw new Error(`Expected a JUMBF description box at offset ${offset}, found '${type}'`)
+  }
+  if (length < 25 || offset + length > reader.length) {
+    throw new Error(`Invalid JUMBF description box length in the superbox at offset ${superboxOffset}`)
+  }
+
   const uuid = bytesToHex(reader.peek.Uint8Array(16))
   const uuidStr = reader.peek.string(0)
   reader.move(16)
@@ -103,14 +183,21 @@ function jumbd (): DescriptionBox {
   if (toggles.request && !toggles.label) {
     throw new Error('Request flag set without label flag')
   }
+  const label = toggles.label ? reader.string(0) : undefined
   const id = toggles.id ? reader.uint32() : undefined
+  const signature = toggles.signature ? reader.Uint8Array(32) : undefined
+  reader.absolute(offset + length)
+
   const result: DescriptionBox = {
     uuid: formatUUID(uuid),
     uuidStr,
     toggles,
-    label: toggles.label ? reader.string(0) : undefined,
+    label,
     id
   }
+  if (signature != null) {
+    result.signature = signature
+  }
   return result
 }
 
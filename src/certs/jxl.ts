@@ -0,0 +1,98 @@
+/*
+ *  Copyright (c) Microsoft Corporation.
+ *  Licensed under the MIT license.
+ */
+
+import { bytesToHex } from '../utils.js'
+import { ByteReader } from './byteReader.js'
+import { decodeBoxes, type BmffBox } from './bmff.js'
+
+/*
+  A JPEG XL container starts with a 12-byte signature box: size 12, type 'JXL ', content 0D 0A 87 0A
+*/
+const JXL_SIGNATURE = '0000000c4a584c200d0a870a'
+
+/*
+  Description box UUID of the C2PA manifest store: 63327061-0011-0010-8000-00AA00389B71
+*/
+const C2PA_MANIFEST_STORE_UUID = '6332706100110010800000aa00389b71'
+
+export interface JxlBox extends BmffBox {
+  /**
+   * For a 'brob' box, the type of the box it holds Brotli-compressed; null for other boxes
+   */
+  compressedType: string | null
+}
+
+/**
+ * Returns true if the buffer starts with the JPEG XL container signature.
+ * A bare JPEG XL codestream (FF 0A) has no container and cannot carry a manifest.
+ */
+export function isJxlContainer (buffer: Uint8Array): boolean {
+  return buffer.length >= 12 && bytesToHex(buffer.subarray(0, 12)) === JXL_SIGNATURE
+}
+
+/**
+ * Walks the JPEG XL container boxes and returns the C2PA manifest store: the top-level 'jumb' box whose description box
+ * has the C2PA manifest store UUID. Other JUMBF boxes are skipped.
+ * Throws if the manifest store is Brotli-compressed in a 'brob' box: browsers do not implement
+ * Brotli decompression (DecompressionStream), so such a manifest store cannot be read.
+ */
+export function decode (buffer: Uint8Array): Uint8Array | null {
+  const boxes = decodeJxlBoxes(buffer)
+  const jumb = boxes.find((box) => box.type === 'jumb' && descriptionUuid(box.data) === C2PA_MANIFEST_STORE_UUID)
+  if (jumb != null) {
+    // the 'jumb' box is itself the JUMBF superbox
+    return jumbfBox(jumb.data)
+  }
+  if (boxes.some((box) => box.compressedType === 'jumb')) {
+    throw new Error('Brotli-compressed (brob) JPEG XL manifest stores are not supported')
+  }
+  return null
+}
+
+/**
+ * Returns the top-level boxes of a JPEG XL container; 'brob' boxes are returned compressed, with the type they hold.
+ */
+export function decodeJxlBoxes (buffer: Uint8Array): JxlBox[] {
+  if (!isJxlContainer(buffer)) {
+    throw new Error('Invalid JPEG XL container signature')
+  }
+
+  return decodeBoxes(buffer).map((box) => {
+    if (box.type !== 'brob') {
+      return { ...box, compressedType: null }
+    }
+    const compressedType = new ByteReader(box.data).string(4)
+    if (compressedType === 'brob' || compressedType === 'jxlc' || compressedType === 'jxlp') {
+      throw new Error(`Invalid JPEG XL brob box type: ${compressedType}`)
+    }
+    return { ...box, compressedType }
+  })
+}
+
+/*
+  A JUMBF superbox starts with a description box ('jumd') holding the UUID of its content type
+*/
+function descriptionUuid (data: Uint8Array): string | null {
+  const reader = new ByteReader(data)
+  if (reader.remaining < 24) {
+    return null
+  }
+  reader.move(4)
+  if (reader.string(4) !== 'jumd') {
+    return null
+  }
+  return bytesToHex(reader.Uint8Array(16))
+}
+
+/*
+  Rebuilds the box header around the box content, so the result can be decoded as a JUMBF superbox
+*/
+function jumbfBox (data: Uint8Array): Uint8Array {
+  const box = new Uint8Array(data.length + 8)
+  new DataView(box.buffer).setUint32(0, box.length)
+  box.set([0x6A, 0x75, 0x6D, 0x62] /* jumb */, 4)
+  box.set(data, 8)
+  return box
+}
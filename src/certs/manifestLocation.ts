@@ -0,0 +1,79 @@
+/*
+ *  Copyright (c) Microsoft Corporation.
+ *  Licensed under the MIT license.
+ */
+
+import { getXmpFromMetadata } from './metadata.js'
+import { getProvenance } from './xmp.js'
+
+/**
+ * Returns the URL of the sidecar manifest store of an asset: the asset's URL, with the last path segment's
+ * extension replaced by (or, without an extension, given) the .c2pa extension, and without query or fragment.
+ * Returns null for assets that are not fetched over HTTP(S), for URLs that do not name a file,
+ * and for URLs that already name a .c2pa file.
+ */
+export function getSidecarUrl (assetUrl: string): string | null {
+  const url = new URL(assetUrl)
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return null
+  }
+  const lastSegment = url.pathname.substring(url.pathname.lastIndexOf('/') + 1)
+  if (lastSegment === '' || lastSegment.endsWith('.c2pa')) {
+    return null
+  }
+  const dot = lastSegment.lastIndexOf('.')
+  const baseName = dot > 0 ? lastSegment.substring(0, dot) : lastSegment
+  url.pathname = url.pathname.substring(0, url.pathname.length - lastSegment.length) + `${baseName}.c2pa`
+  url.search = ''
+  url.hash = ''
+  return url.toString()
+}
+
+/**
+ * Returns the URL of the remote manifest store referenced by an asset: the dcterms:provenance property of the
+ * asset's XMP or, failing that, the HTTP Link header of the asset's response with the c2pa-manifest relation.
+ * A relative reference is resolved against the asset's URL. Returns null if the asset references no manifest store,
+ * or one that is not fetched over HTTP(S).
+ */
+export function getRemoteManifestUrl (assetUrl: string, type: string, assetBytes: Uint8Array, link: string | null): string | null {
+  let reference: string | null = null
+  try {
+    const xmp = getXmpFromMetadata(type, assetBytes)
+    reference = xmp != null ? getProvenance(xmp) : null
+  } catch (error) {
+    console.debug('Could not read XMP:', assetUrl, error)
+  }
+
+  if (reference == null && link != null) {
+    reference = getLinkedManifestUrl(link)
+  }
+
+  if (reference == null || reference === '') {
+    return null
+  }
+  try {
+    const url = new URL(reference, assetUrl)
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Returns the target of the first link with the c2pa-manifest relation of an HTTP Link header, e.g.
+ * Link: <https://example.com/asset.c2pa>; rel="c2pa-manifest", <...>; rel="alternate"
+ */
+export function getLinkedManifestUrl (header: string): string | null {
+  for (const link of header.split(/,(?=\s*<)/)) {
+    const match = /^\s*<([^>]*)>(.*)$/.exec(link)
+    if (match == null) {
+      continue
+    }
+    const rel = /;\s*rel\s*=\s*(?:"([^"]*)"|([^\s;,]+))/i.exec(match[2])
+    const relations = (rel?.[1] ?? rel?.[2] ?? '').toLowerCase().split(/\s+/)
+    if (relations.includes('c2pa-manifest')) {
+      return match[1].trim()
+    }
+  }
+  return null
+}
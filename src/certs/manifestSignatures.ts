@@ -0,0 +1,84 @@
+/*
+ *  Copyright (c) Microsoft Corporation.
+ *  Licensed under the MIT license.
+ */
+
+import { type CertificateInfoExtended } from './certs.js'
+import { decode as coseDecode, verify as coseVerify, type COSE_Sign1, type SignatureResult, type TSTInfo } from './cose.js'
+import { coseAlgorithm } from './coseAlgorithms.js'
+import { childBox, isContentBox, manifests, type JumbfBox } from './jumbf.js'
+
+/**
+ * The claim signature of a manifest, verified by the extension independently of the C2PA library
+ */
+export interface ManifestSignature {
+  signature: SignatureResult
+  certChain: CertificateInfoExtended[] | null
+  tstTokens: TSTInfo[] | null
+}
+
+interface ClaimSignature {
+  cose: COSE_Sign1
+  verification: SignatureResult
+}
+
+/**
+ * Extracts and verifies the claim signature of every manifest in the manifest store, keyed by manifest label (URN),
+ * in store order. Manifests whose signature cannot be decoded are left out.
+ */
+export async function extractManifestSignatures (store: JumbfBox): Promise<Record<string, ManifestSignature>> {
+  const signatures: Record<string, ManifestSignature> = {}
+  for (const manifest of manifests(store)) {
+    const claimSignature = await extractClaimSignature(manifest)
+    if (claimSignature != null && manifest.label != null) {
+      signatures[manifest.label] = manifestSignature(claimSignature)
+    }
+  }
+  return signatures
+}
+
+/*
+  Each manifest is expected to have a jumbf box with a label 'c2pa.signature' containing a cbor box
+*/
+async function extractClaimSignature (manifest: JumbfBox): Promise<ClaimSignature | null> {
+  const contentBox = childBox(manifest, 'c2pa.signature')?.boxes[0]
+
+  /*
+    The first, and only box, should have a 'cbor' type
+  */
+  if (contentBox?.type !== 'cbor' || !isContentBox(contentBox)) {
+    console.error('Expected cbor content-box in jumbf:', manifest.label)
+    return null
+  }
+
+  const cose = await coseDecode(contentBox.data).catch((error: Error) => {
+    console.error('Could not decode COSE:', manifest.label, error)
+    return null
+  })
+  if (cose == null) {
+    return null
+  }
+
+  /*
+    The claim signature is detached: the signed payload is the claim's cbor content-box
+  */
+  const claimBox = (childBox(manifest, 'c2pa.claim.v2') ?? childBox(manifest, 'c2pa.claim'))?.boxes[0]
+  const claim = claimBox != null && isContentBox(claimBox) && claimBox.type === 'cbor' ? claimBox.data : null
+  const verification = await coseVerify(cose, claim).catch((error: Error): SignatureResult => {
+    const algorithm = cose.algId != null ? coseAlgorithm(cose.algId) : null
+    return { alg: algorithm?.name ?? String(cose.algId), algDescription: algorithm?.description ?? null, valid: false, errors: [`COSE signature verification failed: ${error.message}`] }
+  })
+  if (verification.valid == null) {
+    console.warn('Claim signature not verified:', manifest.label, verification.errors)
+  }
+
+  return { cose, verification }
+}
+
+function manifestSignature ({ cose, verification }: ClaimSignature): ManifestSignature {
+  return {
+    signature: verification,
+    certChain: cose.unprotected?.x5chain ?? cose.protected.x5chain ?? null,
+    tstTokens: cose.unprotected?.sigTst?.tstTokens ?? null
+  }
+}
@@ -4,19 +4,31 @@
  */
 
 import { MIME } from '../constants'
-import { exportApp11 } from './jpeg'
+import { ByteReader } from './byteReader'
+import { exportApp1, exportApp11 } from './jpeg'
 import { decode as jxtDecode } from './jpegxt.js'
-import { parseMP4Header } from './mp4'
-import { parseAvifHeader } from './avif'
+import { decodeBoxes, getBmffMimeType, parseBmffHeader } from './bmff'
 import { decode as avidDecode } from './avi'
+import { findChunk } from './riff'
 import { decode as wavDecode } from './wav'
 import { decode as webpDecode } from './webp'
 import { decode as pngDecode } from './png'
 import { decode as svgDecode } from './svg'
 import { decode as tiffDecode } from './tiff'
 import { decode as mp3Decode } from './mp3'
+import { decode as flacDecode } from './flac'
+import { decode as gifDecode } from './gif'
+import { decode as jxlDecode, isJxlContainer } from './jxl'
+import { decode as pdfDecode } from './pdf'
+import { decode as zipDecode, isZip } from './zip'
+import { decode as fontDecode, isFont } from './font'
+import { bytesToHex, formatUUID } from '../utils'
 
-export function getManifestFromMetadata (type: string, buffer: Uint8Array): Uint8Array | null {
+const XMP_JPEG_NAMESPACE = 'http://ns.adobe.com/xap/1.0/\0'
+const XMP_PNG_KEYWORD = 'XML:com.adobe.xmp'
+const XMP_BMFF_UUID = 'be7acfcb-97a9-42e8-9c71-999491e3afac'
+
+export async function getManifestFromMetadata (type: string, buffer: Uint8Array): Promise<Uint8Array | null> {
   switch (type) {
     /* image                            */
     case MIME.JPEG:
@@ -25,47 +37,104 @@ export function getManifestFromMetadata (type: string, buffer: Uint8Array): Uint
       return webp(buffer)
     case MIME.PNG:
       return png(buffer)
+    case MIME.GIF:
+      return gif(buffer)
+    case MIME.JXL:
+      return jxl(buffer)
     case MIME.SVG_XML:
       return svg(buffer)
     case MIME.TIFF:
+    case MIME.X_ADOBE_DNG:
+    case MIME.X_SONY_ARW:
       return tiff(buffer)
     case MIME.AVIF:
-      return avif(buffer)
+    case MIME.HEIC:
+    case MIME.HEIF:
+      return bmff(buffer)
     /* audio                            */
     case MIME.X_WAV:
     case MIME.WAV:
+    case MIME.VND_WAVE:
       return wav(buffer)
     case MIME.X_MSVIDEO:
       return avi(buffer)
     case MIME.MPEG:
       return mp3(buffer)
+    case MIME.AUDIO_MP4:
+    case MIME.X_M4A:
+    case MIME.AUDIO_3GPP:
+      return bmff(buffer)
+    case MIME.FLAC:
+    case MIME.X_FLAC:
+      return flac(buffer)
     /* video                            */
     case MIME.MP4:
-      return mp4(buffer)
-    case MIME.C2PA:
+    case MIME.X_M4V:
+    case MIME.QUICKTIME:
+    case MIME.VIDEO_3GPP:
+    case MIME.VIDEO_3GPP2:
     case MIME.APPLICATION_MP4:
-    case MIME.X_C2PA_MANIFEST_STORE:
-    case MIME.AUDIO_MP4:
-    case MIME.VND_WAVE:
-    case MIME.HEIC:
-    case MIME.HEIF:
-    case MIME.X_ADOBE_DNG:
-    case MIME.X_SONY_ARW:
+      return bmff(buffer)
+    /* document                         */
     case MIME.PDF:
+      return await pdf(buffer)
+    case MIME.ZIP:
+    case MIME.EPUB:
+    case MIME.DOCX:
+    case MIME.XLSX:
+    case MIME.PPTX:
+    case MIME.ODT:
+    case MIME.ODS:
+    case MIME.ODP:
+      return await zip(buffer)
+    /* font                             */
+    case MIME.FONT_TTF:
+    case MIME.FONT_OTF:
+    case MIME.FONT_COLLECTION:
+    case MIME.FONT_SFNT:
+    case MIME.FONT_WOFF:
+    case MIME.FONT_WOFF2:
+      return await font(buffer)
+    case MIME.C2PA:
+    case MIME.X_C2PA_MANIFEST_STORE:
+      return sidecar(buffer)
     default:
+      // other ISO BMFF media types are recognized from their 'ftyp' brands
+      if (getBmffMimeType(buffer) != null) {
+        return bmff(buffer)
+      }
+      // other ZIP-based documents (e.g. ODF drawings) carry the manifest store like EPUB and OOXML
+      if (isZip(buffer)) {
+        return await zip(buffer)
+      }
+      // fonts are often served with a generic or legacy media type (e.g. application/font-woff)
+      if (isFont(buffer)) {
+        return await font(buffer)
+      }
       return null
   }
 }
 
-function avi (buffer: Uint8Array): Uint8Array | null {
-  const riffChunks = avidDecode(buffer)
-  return riffChunks.find((chunk) => chunk.id === 'AVI')?.data ?? null
+/**
+ * Returns the XMP packet of a JPEG, PNG, WebP or ISO BMFF asset as text.
+ * Returns null if the asset has no XMP packet or the format does not carry one.
+ */
+export function getXmpFromMetadata (type: string, buffer: Uint8Array): string | null {
+  switch (type) {
+    case MIME.JPEG:
+      return jpegXmp(buffer)
+    case MIME.PNG:
+      return pngXmp(buffer)
+    case MIME.WEBP:
+      return webpXmp(buffer)
+    default:
+      return getBmffMimeType(buffer) != null ? bmffXmp(buffer) : null
+  }
 }
 
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-function bwf (buffer: Uint8Array): Uint8Array | null {
-  const riffChunks = wavDecode(buffer)
-  return riffChunks.find((chunk) => chunk.id === 'WAVE')?.data ?? null
+function avi (buffer: Uint8Array): Uint8Array | null {
+  const riffChunks = avidDecode(buffer)
+  return findChunk(riffChunks, 'C2PA')?.data ?? null
 }
 
 function jpeg (buffer: Uint8Array): Uint8Array | null {
@@ -77,13 +146,12 @@ function jpeg (buffer: Uint8Array): Uint8Array | null {
   return combinedJumbfBuffer
 }
 
-function mp4 (buffer: Uint8Array): Uint8Array | null {
-  const jumpfBuffer = parseMP4Header(buffer)
-  return jumpfBuffer
-}
-
-function avif (buffer: Uint8Array): Uint8Array | null {
-  const jumpfBuffer = parseAvifHeader(buffer)
+/*
+  MP4, MOV, 3GP, M4A, AVIF and HEIC/HEIF are all ISO BMFF files; the 'ftyp' brands identify
+  the variant, but the C2PA manifest is stored in the same top-level uuid box for all of them.
+*/
+function bmff (buffer: Uint8Array): Uint8Array | null {
+  const jumpfBuffer = parseBmffHeader(buffer)
   return jumpfBuffer
 }
 
@@ -101,25 +169,133 @@ function png (buffer: Uint8Array): Uint8Array | null {
   return null
 }
 
+function gif (buffer: Uint8Array): Uint8Array | null {
+  return gifDecode(buffer)
+}
+
+/*
+  Only the JPEG XL container format can carry a manifest; a bare codestream has no boxes
+*/
+function jxl (buffer: Uint8Array): Uint8Array | null {
+  return isJxlContainer(buffer) ? jxlDecode(buffer) : null
+}
+
 function svg (buffer: Uint8Array): Uint8Array | null {
   const c2paBuffer = svgDecode(buffer)
   return c2paBuffer
 }
 
+/*
+  TIFF-based camera raw formats (DNG, ARW) may store the C2PA tag in IFD0 or in a SubIFD/EXIF IFD
+*/
 function tiff (buffer: Uint8Array): Uint8Array | null {
   const entries = tiffDecode(buffer)
   const entry = entries.find((entry) => entry.tag === 0xCD41 && entry.type === 7) ?? null
   if (entry == null) {
     return null
   }
-  return new Uint8Array(buffer.buffer, entry.value, entry.count)
+  return entry.data
 }
 
+/*
+  WAV, Broadcast Wave (BWF) and their RF64/BW64 variants for files over 4 GB all use the WAVE form
+*/
 function wav (buffer: Uint8Array): Uint8Array | null {
   const riffChunks = wavDecode(buffer)
-  return riffChunks.find((chunk) => chunk.id === 'C2PA')?.data ?? null
+  return findChunk(riffChunks, 'C2PA')?.data ?? null
 }
 
 function mp3 (buffer: Uint8Array): Uint8Array | null {
   return mp3Decode(buffer)
 }
+
+function flac (buffer: Uint8Array): Uint8Array | null {
+  return flacDecode(buffer)
+}
+
+async function pdf (buffer: Uint8Array): Promise<Uint8Array | null> {
+  return await pdfDecode(buffer)
+}
+
+/*
+  EPUB, OOXML and ODF documents are ZIP packages; the manifest store is the META-INF/content_credential.c2pa entry
+*/
+async function zip (buffer: Uint8Array): Promise<Uint8Array | null> {
+  return await zipDecode(buffer)
+}
+
+/*
+  OpenType/TrueType fonts, font collections and WOFF/WOFF2 fonts carry the manifest store in a 'C2PA' table
+*/
+async function font (buffer: Uint8Array): Promise<Uint8Array | null> {
+  return await fontDecode(buffer)
+}
+
+/*
+  A sidecar (.c2pa) file is a bare manifest store: a JUMBF superbox with no container around it
+*/
+function sidecar (buffer: Uint8Array): Uint8Array | null {
+  const reader = new ByteReader(buffer)
+  if (reader.remaining < 8 || reader.move(4).string(4) !== 'jumb') {
+    return null
+  }
+  return buffer
+}
+
+/*
+  XMP is stored in an APP1 segment starting with the XMP namespace (EXIF also uses APP1)
+*/
+function jpegXmp (buffer: Uint8Array): string | null {
+  for (const segment of exportApp1(buffer)) {
+    // the segment starts with its 2-byte length
+    const reader = new ByteReader(segment.subarray(2))
+    if (reader.remaining > XMP_JPEG_NAMESPACE.length && reader.string(XMP_JPEG_NAMESPACE.length) === XMP_JPEG_NAMESPACE) {
+      return new TextDecoder().decode(reader.Uint8Array())
+    }
+  }
+  return null
+}
+
+/*
+  XMP is stored in an uncompressed iTXt chunk with the keyword 'XML:com.adobe.xmp'
+*/
+function pngXmp (buffer: Uint8Array): string | null {
+  const chunks = pngDecode(buffer)
+  for (const chunk of chunks.filter((chunk) => chunk.type === 'iTXt')) {
+    const reader = new ByteReader(chunk.data)
+    const keyword = reader.string(0)
+    if (keyword !== XMP_PNG_KEYWORD) {
+      continue
+    }
+    const compressed = reader.byte() !== 0
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const compressionMethod = reader.byte()
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const languageTag = reader.string(0)
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const translatedKeyword = reader.string(0)
+    return compressed ? null : new TextDecoder().decode(reader.Uint8Array())
+  }
+  return null
+}
+
+function webpXmp (buffer: Uint8Array): string | null {
+  const riffChunks = webpDecode(buffer)
+  const xmp = riffChunks.find((chunk) => chunk.id === 'XMP')?.data
+  return xmp != null ? new TextDecoder().decode(xmp) : null
+}
+
+/*
+  XMP is stored in a top-level uuid box with the XMP uuid
+*/
+function bmffXmp (buffer: Uint8Array): string | null {
+  for (const box of decodeBoxes(buffer)) {
+    if (box.type !== 'uuid' || box.data.length < 16) {
+      continue
+    }
+    if (formatUUID(bytesToHex(box.data.subarray(0, 16))) === XMP_BMFF_UUID) {
+      return new TextDecoder().decode(box.data.subarray(16))
+    }
+  }
+  return null
+}
@@ -3,54 +3,335 @@
  *  Licensed under the MIT license.
  */
 
+import { MIME } from '../constants.js'
 import { ByteReader } from './byteReader.js'
 
+/*
+  c2pa-rs writes 'application/c2pa', earlier versions of the specification 'application/x-c2pa-manifest-store'
+*/
+const C2PA_MANIFEST_STORE_MIMES: string[] = [MIME.C2PA, MIME.X_C2PA_MANIFEST_STORE]
+
+const ID3_HEADER_SIZE = 10
+const ID3V1_TAG_SIZE = 128
+const PICTURE_TYPE_FRONT_COVER = 3
+// the picture data is a URL rather than an image
+const LINKED_PICTURE_MIME = '-->'
+
+/*
+  Tag header flags
+*/
+const FLAG_UNSYNCHRONISATION = 0x80
+const FLAG_EXTENDED_HEADER = 0x40
+const FLAG_V22_COMPRESSION = 0x40
+const FLAG_V24_FOOTER = 0x10
+
+/*
+  Frame format flags (the second flags byte)
+*/
+const V23_FRAME_COMPRESSION = 0x80
+const V23_FRAME_ENCRYPTION = 0x40
+const V23_FRAME_GROUPING = 0x20
+const V24_FRAME_GROUPING = 0x40
+const V24_FRAME_COMPRESSION = 0x08
+const V24_FRAME_ENCRYPTION = 0x04
+const V24_FRAME_UNSYNCHRONISATION = 0x02
+const V24_FRAME_DATA_LENGTH = 0x01
+
+/*
+  ID3v2.2 uses three-character frame ids
+*/
+const V22_FRAME_IDS: Record<string, string> = {
+  GEO: 'GEOB',
+  PIC: 'APIC'
+}
+
+const V22_IMAGE_FORMATS: Record<string, string> = {
+  JPG: 'image/jpeg',
+  PNG: 'image/png',
+  GIF: 'image/gif',
+  BMP: 'image/bmp'
+}
+
+export interface ID3Frame {
+  /**
+   * Frame id, normalized to the four-character ID3v2.3/2.4 id (e.g. ID3v2.2 'GEO' is returned as 'GEOB')
+   */
+  id: string
+  data: Uint8Array
+}
+
+export interface ID3Tag {
+  version: number
+  revision: number
+  frames: ID3Frame[]
+}
+
+export interface ID3Object {
+  mimeType: string
+  filename: string
+  description: string
+  data: Uint8Array
+}
+
+export interface ID3Picture {
+  mimeType: string
+  pictureType: number
+  description: string
+  data: Uint8Array
+}
+
+/**
+ * Returns the C2PA manifest store of an MP3 file.
+ * The manifest store is carried in a GEOB (general encapsulated object) frame whose MIME type is
+ * 'application/c2pa' or 'application/x-c2pa-manifest-store'. Returns null if the file has no ID3v2 tag or no such frame.
+ */
 export function decode (buffer: Uint8Array): Uint8Array | null {
+  const tag = decodeTag(buffer)
+  if (tag == null) {
+    return null
+  }
+  for (const frame of tag.frames.filter((frame) => frame.id === 'GEOB')) {
+    const object = decodeGeob(frame.data)
+    if (C2PA_MANIFEST_STORE_MIMES.includes(object.mimeType.toLowerCase())) {
+      return object.data
+    }
+  }
+  return null
+}
+
+/**
+ * Returns the cover art (APIC frame) of an MP3 file, preferring the front cover.
+ * Returns null if the file has no ID3v2 tag or no picture.
+ */
+export function getCoverArt (buffer: Uint8Array): ID3Picture | null {
+  const tag = decodeTag(buffer)
+  if (tag == null) {
+    return null
+  }
+  const pictures = tag.frames
+    .filter((frame) => frame.id === 'APIC')
+    .map((frame) => decodeApic(frame.data, tag.version))
+    .filter((picture) => picture.mimeType !== LINKED_PICTURE_MIME)
+  return pictures.find((picture) => picture.pictureType === PICTURE_TYPE_FRONT_COVER) ?? pictures[0] ?? null
+}
+
+/**
+ * Returns the length of the ID3v2 tag at the start of the buffer, including its footer, or 0 if it has none.
+ * Other formats than MP3 may start with an ID3v2 tag, e.g. FLAC files signed by c2pa-rs.
+ */
+export function leadingTagLength (buffer: Uint8Array): number {
   const reader = new ByteReader(buffer)
+  if (reader.remaining < ID3_HEADER_SIZE || reader.string(3) !== 'ID3') {
+    return 0
+  }
+  const version = reader.byte()
+  reader.move(1) // revision
+  const flags = reader.byte()
+  const size = syncSafeSize(reader)
+  return ID3_HEADER_SIZE + size + (version === 4 && (flags & FLAG_V24_FOOTER) !== 0 ? ID3_HEADER_SIZE : 0)
+}
 
-  const id3 = reader.string(3)
-  if (id3 !== 'ID3') {
-    throw new Error('Invalid ID3 signature')
+/**
+ * Decodes the ID3v2 tag at the start of the buffer, or an ID3v2.4 tag appended to the end of
+ * the buffer (located from its footer, before any ID3v1 tag).
+ * Returns null if the buffer has no ID3v2 tag.
+ */
+export function decodeTag (buffer: Uint8Array): ID3Tag | null {
+  const start = findTag(buffer)
+  if (start == null) {
+    return null
   }
+
+  const reader = new ByteReader(buffer)
+  reader.absolute(start + 3)
   const version = reader.byte()
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
   const revision = reader.byte()
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
   const flags = reader.byte()
   const size = syncSafeSize(reader)
+  if (version < 2 || version > 4) {
+    throw new Error(`Unsupported ID3 version: 2.${version}`)
+  }
+  if (version === 2 && (flags & FLAG_V22_COMPRESSION) !== 0) {
+    // the ID3v2.2 compression scheme was never defined, so the tag cannot be read
+    return { version, revision, frames: [] }
+  }
 
-  const end = reader.offset + size
-  while (reader.offset < end) {
-    const frameId = reader.string(4)
-    const frameSize = getFrameSize(version, reader) // Frame size encoding varies by version
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    const frameFlags = reader.uint16()
+  let body = reader.Uint8Array(Math.min(size, reader.remaining))
+  /*
+    In ID3v2.2 and 2.3 unsynchronisation applies to the whole tag;
+    in ID3v2.4 it applies to each frame and is flagged on the frames themselves
+  */
+  if ((flags & FLAG_UNSYNCHRONISATION) !== 0 && version < 4) {
+    body = resynchronise(body)
+  }
+
+  const bodyReader = new ByteReader(body)
+  if ((flags & FLAG_EXTENDED_HEADER) !== 0 && version > 2) {
+    // the ID3v2.3 extended header size excludes the size field, the ID3v2.4 size includes it
+    const extendedSize = version === 3 ? bodyReader.uint32() : syncSafeSize(bodyReader) - 4
+    bodyReader.move(extendedSize)
+  }
 
-    if (frameId[0] === '\0') {
+  const unsynchronised = (flags & FLAG_UNSYNCHRONISATION) !== 0 && version === 4
+  return { version, revision, frames: decodeFrames(bodyReader, version, unsynchronised) }
+}
+
+function findTag (buffer: Uint8Array): number | null {
+  const reader = new ByteReader(buffer)
+  if (reader.remaining >= ID3_HEADER_SIZE && reader.peek.string(3) === 'ID3') {
+    return 0
+  }
+
+  /*
+    An appended ID3v2.4 tag ends with a footer ('3DI'), which may be followed by an ID3v1 tag
+  */
+  for (const end of [buffer.length, buffer.length - ID3V1_TAG_SIZE]) {
+    if (end - ID3_HEADER_SIZE < 0) {
+      continue
+    }
+    reader.absolute(end - ID3_HEADER_SIZE)
+    if (reader.string(3) !== '3DI') {
+      continue
+    }
+    reader.move(3)
+    const size = syncSafeSize(reader)
+    const start = end - ID3_HEADER_SIZE - size - ID3_HEADER_SIZE
+    if (start >= 0 && reader.absolute(start).string(3) === 'ID3') {
+      return start
+    }
+  }
+  return null
+}
+
+function decodeFrames (reader: ByteReader, version: number, unsynchronised: boolean): ID3Frame[] {
+  const frames: ID3Frame[] = []
+  const idLength = version === 2 ? 3 : 4
+  const headerSize = version === 2 ? 6 : 10
+
+  while (reader.remaining >= headerSize) {
+    if (reader.peek.byte() === 0) {
       break // Padding, no more frames
     }
+    const frameId = reader.string(idLength)
+    const frameSize = getFrameSize(version, reader) // Frame size encoding varies by version
+    const formatFlags = version === 2 ? 0 : reader.uint16() & 0xFF
+    if (frameSize > reader.remaining) {
+      throw new Error(`Invalid ID3 frame size: ${frameId}`)
+    }
+    const frameData = reader.Uint8Array(frameSize)
+    const data = decodeFrameData(frameData, version, formatFlags, unsynchronised)
+    if (data != null) {
+      frames.push({ id: version === 2 ? V22_FRAME_IDS[frameId] ?? frameId : frameId, data })
+    }
+  }
 
-    const data = reader.Uint8Array(frameSize)
-    if (frameId === 'GEOB') {
-      return extractGeobData(data)
+  return frames
+}
+
+/*
+  Removes the extra fields that frame flags add before the frame content.
+  Returns null for compressed or encrypted frames, which are not supported.
+*/
+function decodeFrameData (data: Uint8Array, version: number, flags: number, unsynchronised: boolean): Uint8Array | null {
+  if (version === 3) {
+    if ((flags & (V23_FRAME_COMPRESSION | V23_FRAME_ENCRYPTION)) !== 0) {
+      return null
     }
+    return data.subarray((flags & V23_FRAME_GROUPING) !== 0 ? 1 : 0)
   }
 
-  return null
+  if (version === 4) {
+    if ((flags & (V24_FRAME_COMPRESSION | V24_FRAME_ENCRYPTION)) !== 0) {
+      return null
+    }
+    let offset = (flags & V24_FRAME_GROUPING) !== 0 ? 1 : 0
+    offset += (flags & V24_FRAME_DATA_LENGTH) !== 0 ? 4 : 0
+    const content = data.subarray(offset)
+    return unsynchronised || (flags & V24_FRAME_UNSYNCHRONISATION) !== 0 ? resynchronise(content) : content
+  }
+
+  return data
 }
 
-function extractGeobData (geob: Uint8Array): Uint8Array | null {
+function decodeGeob (geob: Uint8Array): ID3Object {
   const reader = new ByteReader(geob)
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  const type = reader.byte()
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  const mimeType = reader.string(0)
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  const filename = reader.string(0)
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  const description = reader.string(0)
-  const data = reader.Uint8Array(reader.length - reader.offset)
-  return data
+  const encoding = reader.byte()
+  const mimeType = readText(reader, 0)
+  const filename = readText(reader, encoding)
+  const description = readText(reader, encoding)
+  const data = reader.Uint8Array()
+  return { mimeType, filename, description, data }
+}
+
+function decodeApic (apic: Uint8Array, version: number): ID3Picture {
+  const reader = new ByteReader(apic)
+  const encoding = reader.byte()
+  let mimeType: string
+  if (version === 2) {
+    // ID3v2.2 'PIC' frames have a three-character image format instead of a MIME type
+    const format = reader.string(3).toUpperCase()
+    mimeType = V22_IMAGE_FORMATS[format] ?? `image/${format.toLowerCase()}`
+  } else {
+    mimeType = readText(reader, 0)
+  }
+  const pictureType = reader.byte()
+  const description = readText(reader, encoding)
+  const data = reader.Uint8Array()
+  if (!mimeType.includes('/') && mimeType !== LINKED_PICTURE_MIME) {
+    // some taggers write 'jpg' or 'png' instead of a MIME type
+    const format = mimeType.toLowerCase()
+    mimeType = format === 'jpg' ? 'image/jpeg' : `image/${format}`
+  }
+  return { mimeType, pictureType, description, data }
+}
+
+/*
+  Reads a terminated string in one of the ID3 text encodings:
+  0: ISO-8859-1, 1: UTF-16 with BOM, 2: UTF-16BE without BOM, 3: UTF-8
+  UTF-16 strings are terminated by two zero bytes, the others by a single zero byte
+*/
+function readText (reader: ByteReader, encoding: number): string {
+  const bytes = reader.peek.Uint8Array()
+  const terminatorSize = encoding === 1 || encoding === 2 ? 2 : 1
+  let length = 0
+  for (; length < bytes.length; length += terminatorSize) {
+    if (bytes[length] === 0 && (terminatorSize === 1 || bytes[length + 1] === 0)) {
+      break
+    }
+  }
+  length = Math.min(length, bytes.length)
+  const text = bytes.subarray(0, length)
+  reader.move(Math.min(length + terminatorSize, bytes.length))
+
+  switch (encoding) {
+    case 0:
+      return new TextDecoder('iso-8859-1').decode(text)
+    case 1: {
+      const bigEndian = text[0] === 0xFE && text[1] === 0xFF
+      return new TextDecoder(bigEndian ? 'utf-16be' : 'utf-16le').decode(text)
+    }
+    case 2:
+      return new TextDecoder('utf-16be').decode(text)
+    case 3:
+      return new TextDecoder('utf-8').decode(text)
+    default:
+      throw new Error(`Invalid ID3 text encoding: ${encoding}`)
+  }
+}
+
+/*
+  Unsynchronisation inserts a zero byte after every 0xFF byte; remove them
+*/
+function resynchronise (data: Uint8Array): Uint8Array {
+  const output = new Uint8Array(data.length)
+  let length = 0
+  for (let i = 0; i < data.length; i++) {
+    output[length++] = data[i]
+    if (data[i] === 0xFF && data[i + 1] === 0x00) {
+      i++
+    }
+  }
+  return output.subarray(0, length)
 }
 
 function getFrameSize (version: number, reader: ByteReader): number {
@@ -0,0 +1,693 @@
+/*
+ *  Copyright (c) Microsoft Corporation.
+ *  Licensed under the MIT license.
+ */
+
+/*
+  A minimal PDF reader that locates the C2PA manifest store.
+
+  The manifest store is embedded as an embedded file stream referenced from a file specification
+  with /AFRelationship /C2PA_Manifest in the document catalog's associated files (/AF) array.
+  The embedded file has the subtype application/c2pa.
+
+  Cross-reference tables, cross-reference streams, object streams and incremental updates
+  (the /Prev chain) are supported. Only the FlateDecode filter is supported for streams.
+*/
+
+export interface PdfName {
+  type: 'name'
+  value: string
+}
+
+export interface PdfString {
+  type: 'string'
+  value: Uint8Array
+}
+
+export interface PdfRef {
+  type: 'ref'
+  num: number
+  gen: number
+}
+
+export interface PdfDict {
+  type: 'dict'
+  entries: Record<string, PdfValue>
+}
+
+export interface PdfStream {
+  type: 'stream'
+  dict: PdfDict
+  /* raw (still encoded) stream data */
+  data: Uint8Array
+}
+
+export type PdfValue = number | boolean | null | PdfName | PdfString | PdfRef | PdfDict | PdfStream | PdfValue[]
+
+interface XrefEntry {
+  type: 0 | 1 | 2 /* 0: free (deleted) object */
+  offset: number /* type 1: byte offset; type 2: object stream number */
+  index: number /* type 2: index within the object stream */
+  revision: number /* the cross-reference section that defines the entry, 0 being the most recent update */
+}
+
+interface XrefSection {
+  trailer: PdfDict
+  /* objects marked free by a cross-reference table */
+  free: number[]
+}
+
+const C2PA_AF_RELATIONSHIP = 'C2PA_Manifest'
+const C2PA_MIME_TYPE = 'application/c2pa'
+
+const WHITESPACE = new Set([0x00, 0x09, 0x0A, 0x0C, 0x0D, 0x20])
+const DELIMITERS = new Set([0x28, 0x29, 0x3C, 0x3E, 0x5B, 0x5D, 0x7B, 0x7D, 0x2F, 0x25])
+
+export async function decode (buffer: Uint8Array): Promise<Uint8Array | null> {
+  const document = await PdfDocument.load(buffer)
+  const fileSpec = await document.findC2paFileSpec()
+  if (fileSpec == null) {
+    return null
+  }
+  const embeddedFile = await document.embeddedFile(fileSpec)
+  if (embeddedFile == null) {
+    throw new Error('C2PA file specification has no embedded file')
+  }
+  return await document.decodeStream(embeddedFile)
+}
+
+export class PdfDocument {
+  private readonly xref = new Map<number, XrefEntry>()
+  private readonly cache = new Map<number, PdfValue>()
+  private readonly objectStreams = new Map<number, { header: number[], lexer: Lexer, first: number }>()
+  private trailer: PdfDict = { type: 'dict', entries: {} }
+
+  private constructor (private readonly bytes: Uint8Array) {}
+
+  static async load (bytes: Uint8Array): Promise<PdfDocument> {
+    const document = new PdfDocument(bytes)
+    if (ascii(bytes.subarray(0, 5)) !== '%PDF-') {
+      throw new Error('Invalid PDF signature')
+    }
+    await document.loadXrefChain(document.findStartXref())
+    return document
+  }
+
+  async catalog (): Promise<PdfDict | null> {
+    return asDict(await this.resolve(this.trailer.entries.Root))
+  }
+
+  /**
+   * Returns the file specification in the catalog that is marked as the C2PA manifest store, defined by the most recent
+   * revision (incremental update) of the document.
+   * Within a revision, associated files (/AF) take precedence over the /EmbeddedFiles name tree.
+   */
+  async findC2paFileSpec (): Promise<PdfDict | null> {
+    const catalog = await this.catalog()
+    if (catalog == null) {
+      throw new Error('PDF catalog not found')
+    }
+    const catalogRevision = this.revision(this.trailer.entries.Root, Infinity)
+
+    const candidates: Array<{ fileSpec: PdfDict, revision: number }> = []
+    const associatedFiles = await this.resolve(catalog.entries.AF)
+    if (Array.isArray(associatedFiles)) {
+      const revision = this.revision(catalog.entries.AF, catalogRevision)
+      for (const ref of associatedFiles) {
+        const fileSpec = asDict(await this.resolve(ref))
+        if (fileSpec != null) candidates.push({ fileSpec, revision: this.revision(ref, revision) })
+      }
+    }
+
+    const names = asDict(await this.resolve(catalog.entries.Names))
+    const embeddedFilesTree = asDict(await this.resolve(names?.entries.EmbeddedFiles))
+    if (embeddedFilesTree != null) {
+      const revision = this.revision(names?.entries.EmbeddedFiles, this.revision(catalog.entries.Names, catalogRevision))
+      candidates.push(...await this.nameTreeValues(embeddedFilesTree, revision))
+    }
+
+    let match: { fileSpec: PdfDict, revision: number } | null = null
+    for (const candidate of candidates) {
+      if ((match == null || candidate.revision < match.revision) && await this.isC2paFileSpec(candidate.fileSpec)) {
+        match = candidate
+      }
+    }
+    return match?.fileSpec ?? null
+  }
+
+  async embeddedFile (fileSpec: PdfDict): Promise<PdfStream | null> {
+    const ef = asDict(await this.resolve(fileSpec.entries.EF))
+    const stream = await this.resolve(ef?.entries.F ?? ef?.entries.UF)
+    return isStream(stream) ? stream : null
+  }
+
+  async resolve (value: PdfValue | undefined): Promise<PdfValue> {
+    if (value === undefined) return null
+    if (!isRef(value)) return value
+    const cached = this.cache.get(value.num)
+    if (cached !== undefined) return cached
+    const entry = this.xref.get(value.num)
+    if (entry == null || entry.type === 0) return null
+    // guard against reference cycles while the object is being parsed
+    this.cache.set(value.num, null)
+    const object = entry.type === 1
+      ? await this.parseIndirectObject(entry.offset)
+      : await this.parseCompressedObject(entry.offset, entry.index)
+    this.cache.set(value.num, object)
+    return object
+  }
+
+  async decodeStream (stream: PdfStream): Promise<Uint8Array> {
+    const filters = await this.resolve(stream.dict.entries.Filter)
+    const filterList = (Array.isArray(filters) ? filters : filters == null ? [] : [filters])
+    const params = await this.resolve(stream.dict.entries.DecodeParms)
+    const paramsList = Array.isArray(params) ? params : [params]
+    let data = stream.data
+    for (let i = 0; i < filterList.length; i++) {
+      const filter = filterList[i]
+      if (!isName(filter)) throw new Error('Invalid PDF stream filter')
+      switch (filter.value) {
+        case 'FlateDecode':
+        case 'Fl':
+          data = await inflate(data)
+          data = await this.applyPredictor(data, asDict(await this.resolve(paramsList[i])))
+          break
+        default:
+          throw new Error(`Unsupported PDF stream filter: ${filter.value}`)
+      }
+    }
+    return data
+  }
+
+  private async isC2paFileSpec (fileSpec: PdfDict): Promise<boolean> {
+    const relationship = await this.resolve(fileSpec.entries.AFRelationship)
+    if (isName(relationship) && relationship.value === C2PA_AF_RELATIONSHIP) {
+      return true
+    }
+    const embeddedFile = await this.embeddedFile(fileSpec)
+    const subtype = await this.resolve(embeddedFile?.dict.entries.Subtype)
+    return isName(subtype) && subtype.value === C2PA_MIME_TYPE
+  }
+
+  /*
+    Returns the file specifications of a name tree, each with the revision that defines it:
+    that of its indirect object, or else that of the node that holds it
+  */
+  private async nameTreeValues (node: PdfDict, revision: number, depth = 0): Promise<Array<{ fileSpec: PdfDict, revision: number }>> {
+    if (depth > 32) throw new Error('PDF name tree is too deep')
+    const values: Array<{ fileSpec: PdfDict, revision: number }> = []
+    const names = await this.resolve(node.entries.Names)
+    if (Array.isArray(names)) {
+      const namesRevision = this.revision(node.entries.Names, revision)
+      for (let i = 1; i < names.length; i += 2) {
+        const value = asDict(await this.resolve(names[i]))
+        if (value != null) values.push({ fileSpec: value, revision: this.revision(names[i], namesRevision) })
+      }
+    }
+    const kids = await this.resolve(node.entries.Kids)
+    if (Array.isArray(kids)) {
+      const kidsRevision = this.revision(node.entries.Kids, revision)
+      for (const kid of kids) {
+        const kidNode = asDict(await this.resolve(kid))
+        if (kidNode != null) values.push(...await this.nameTreeValues(kidNode, this.revision(kid, kidsRevision), depth + 1))
+      }
+    }
+    return values
+  }
+
+  /*
+    The revision that defines an indirect object; a direct object belongs to the revision of the object that holds it
+  */
+  private revision (value: PdfValue | undefined, containerRevision: number): number {
+    if (value === undefined || !isRef(value)) return containerRevision
+    return this.xref.get(value.num)?.revision ?? containerRevision
+  }
+
+  private findStartXref (): number {
+    const tail = ascii(this.bytes.subarray(Math.max(0, this.bytes.length - 1024)))
+    const index = tail.lastIndexOf('startxref')
+    if (index === -1) {
+      throw new Error('PDF startxref not found')
+    }
+    const match = /startxref\s+(\d+)/.exec(tail.substring(index))
+    if (match == null) {
+      throw new Error('Invalid PDF startxref')
+    }
+    return Number.parseInt(match[1])
+  }
+
+  /*
+    Walks the cross-reference sections from the most recent update backwards.
+    Entries from newer sections take precedence over older ones, free entries included:
+    an object deleted by an incremental update no longer resolves.
+    In a hybrid-reference file, objects marked free by the table may be listed by its XRefStm stream,
+    so free table entries are only recorded once the stream is loaded.
+  */
+  private async loadXrefChain (offset: number): Promise<void> {
+    const visited = new Set<number>()
+    let next: number | null = offset
+    let revision = 0
+    while (next != null) {
+      if (visited.has(next)) throw new Error('Circular PDF xref chain')
+      visited.add(next)
+      const { trailer, free } = await this.loadXrefSection(next, revision)
+      if (revision === 0) {
+        this.trailer = trailer
+      }
+      const xrefStm = trailer.entries.XRefStm
+      if (typeof xrefStm === 'number') { // hybrid-reference file
+        await this.loadXrefSection(xrefStm, revision)
+      }
+      free.filter((num) => !this.xref.has(num)).forEach((num) => this.xref.set(num, { type: 0, offset: 0, index: 0, revision }))
+      const prev = trailer.entries.Prev
+      next = typeof prev === 'number' ? prev : null
+      revision++
+    }
+  }
+
+  private async loadXrefSection (offset: number, revision: number): Promise<XrefSection> {
+    const lexer = new Lexer(this.bytes, offset)
+    if (lexer.peekKeyword() === 'xref') {
+      return this.loadXrefTable(lexer, revision)
+    }
+    const object = await this.parseIndirectObject(offset)
+    if (!isStream(object)) {
+      throw new Error('Invalid PDF xref section')
+    }
+    await this.loadXrefStream(object, revision)
+    return { trailer: object.dict, free: [] }
+  }
+
+  private loadXrefTable (lexer: Lexer, revision: number): XrefSection {
+    const free: number[] = []
+    lexer.expectKeyword('xref')
+    while (lexer.peekKeyword() !== 'trailer') {
+      const start = lexer.readValue()
+      const count = lexer.readValue()
+      if (typeof start !== 'number' || typeof count !== 'number') {
+        throw new Error('Invalid PDF xref subsection')
+      }
+      for (let i = 0; i < count; i++) {
+        const offset = lexer.readValue()
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        const gen = lexer.readValue()
+        const kind = lexer.readKeyword()
+        if (typeof offset !== 'number' || (kind !== 'n' && kind !== 'f')) {
+          throw new Error('Invalid PDF xref entry')
+        }
+        if (kind === 'f') {
+          free.push(start + i)
+        } else if (!this.xref.has(start + i)) {
+          this.xref.set(start + i, { type: 1, offset, index: 0, revision })
+        }
+      }
+    }
+    lexer.expectKeyword('trailer')
+    const trailer = asDict(lexer.readValue())
+    if (trailer == null) {
+      throw new Error('Invalid PDF trailer')
+    }
+    return { trailer, free }
+  }
+
+  private async loadXrefStream (stream: PdfStream, revision: number): Promise<void> {
+    const entries = stream.dict.entries
+    const widths = entries.W
+    const size = entries.Size
+    if (!Array.isArray(widths) || widths.length !== 3 || typeof size !== 'number') {
+      throw new Error('Invalid PDF xref stream')
+    }
+    const w = widths.map((width) => width as number)
+    const index = Array.isArray(entries.Index) ? entries.Index.map((value) => value as number) : [0, size]
+    const data = await this.decodeStream(stream)
+    const rowLength = w[0] + w[1] + w[2]
+    let position = 0
+    for (let i = 0; i < index.length; i += 2) {
+      for (let j = 0; j < index[i + 1]; j++) {
+        if (position + rowLength > data.length) {
+          throw new Error('PDF xref stream too short')
+        }
+        const type = w[0] === 0 ? 1 : readUint(data, position, w[0])
+        const field2 = readUint(data, position + w[0], w[1])
+        const field3 = readUint(data, position + w[0] + w[1], w[2])
+        position += rowLength
+        const num = index[i] + j
+        if ((type === 0 || type === 1 || type === 2) && !this.xref.has(num)) {
+          this.xref.set(num, { type, offset: field2, index: field3, revision })
+        }
+      }
+    }
+  }
+
+  private async parseIndirectObject (offset: number): Promise<PdfValue> {
+    const lexer = new Lexer(this.bytes, offset)
+    lexer.readValue() // object number
+    lexer.readValue() // generation number
+    lexer.expectKeyword('obj')
+    const value = lexer.readValue()
+    if (!isDict(value) || lexer.peekKeyword() !== 'stream') {
+      return value
+    }
+    lexer.expectKeyword('stream')
+    lexer.skipStreamEol()
+    const start = lexer.position
+    let length = await this.resolve(value.entries.Length)
+    if (typeof length !== 'number' || !lexer.isKeywordAt(start + length, 'endstream')) {
+      // recover from a missing or incorrect /Length by searching for the end of the stream
+      length = lexer.findEndStream(start) - start
+    }
+    return { type: 'stream', dict: value, data: this.bytes.subarray(start, start + length) }
+  }
+
+  private async parseCompressedObject (streamNumber: number, index: number): Promise<PdfValue> {
+    let objectStream = this.objectStreams.get(streamNumber)
+    if (objectStream == null) {
+      const stream = await this.resolve({ type: 'ref', num: streamNumber, gen: 0 })
+      if (!isStream(stream)) {
+        throw new Error('Invalid PDF object stream')
+      }
+      const count = stream.dict.entries.N
+      const first = stream.dict.entries.First
+      if (typeof count !== 'number' || typeof first !== 'number') {
+        throw new Error('Invalid PDF object stream header')
+      }
+      const data = await this.decodeStream(stream)
+      const lexer = new Lexer(data, 0)
+      const header: number[] = []
+      for (let i = 0; i < count * 2; i++) {
+        header.push(lexer.readValue() as number)
+      }
+      objectStream = { header, lexer, first }
+      this.objectStreams.set(streamNumber, objectStream)
+    }
+    const offset = objectStream.header[index * 2 + 1]
+    if (offset == null) {
+      throw new Error('PDF object not found in object stream')
+    }
+    objectStream.lexer.position = objectStream.first + offset
+    return objectStream.lexer.readValue()
+  }
+
+  /*
+    Reverses the PNG predictors (10-15) used by cross-reference streams
+  */
+  private async applyPredictor (data: Uint8Array, params: PdfDict | null): Promise<Uint8Array> {
+    const predictor = await this.resolve(params?.entries.Predictor)
+    if (typeof predictor !== 'number' || predictor < 10) {
+      if (typeof predictor === 'number' && predictor > 1) {
+        throw new Error(`Unsupported PDF predictor: ${predictor}`)
+      }
+      return data
+    }
+    const columnsValue = await this.resolve(params?.entries.Columns)
+    const colorsValue = await this.resolve(params?.entries.Colors)
+    const bitsValue = await this.resolve(params?.entries.BitsPerComponent)
+    const columns = typeof columnsValue === 'number' ? columnsValue : 1
+    const colors = typeof colorsValue === 'number' ? colorsValue : 1
+    const bits = typeof bitsValue === 'number' ? bitsValue : 8
+    const bytesPerPixel = Math.max(1, Math.ceil(colors * bits / 8))
+    const rowLength = Math.ceil(columns * colors * bits / 8)
+    const rows = Math.floor(data.length / (rowLength + 1))
+    const output = new Uint8Array(rows * rowLength)
+    for (let row = 0; row < rows; row++) {
+      const filter = data[row * (rowLength + 1)]
+      const input = data.subarray(row * (rowLength + 1) + 1, (row + 1) * (rowLength + 1))
+      const current = row * rowLength
+      const previous = current - rowLength
+      for (let i = 0; i < rowLength; i++) {
+        const left = i >= bytesPerPixel ? output[current + i - bytesPerPixel] : 0
+        const up = row > 0 ? output[previous + i] : 0
+        const upLeft = row > 0 && i >= bytesPerPixel ? output[previous + i - bytesPerPixel] : 0
+        let value: number
+        switch (filter) {
+          case 0: value = input[i]; break
+          case 1: value = input[i] + left; break
+          case 2: value = input[i] + up; break
+          case 3: value = input[i] + Math.floor((left + up) / 2); break
+          case 4: value = input[i] + paeth(left, up, upLeft); break
+          default: throw new Error(`Invalid PNG predictor filter: ${filter}`)
+        }
+        output[current + i] = value & 0xFF
+      }
+    }
+    return output
+  }
+}
+
+/*
+  Tokenizer/parser for PDF objects
+*/
+class Lexer {
+  constructor (private readonly bytes: Uint8Array, public position: number) {}
+
+  readValue (): PdfValue {
+    this.skipWhitespace()
+    const byte = this.bytes[this.position]
+    if (byte === undefined) {
+      throw new RangeError('Unexpected end of PDF data')
+    }
+
+    if (byte === 0x2F /* / */) {
+      return { type: 'name', value: this.readName() }
+    }
+    if (byte === 0x28 /* ( */) {
+      return { type: 'string', value: this.readLiteralString() }
+    }
+    if (byte === 0x3C /* < */) {
+      if (this.bytes[this.position + 1] === 0x3C) {
+        return this.readDict()
+      }
+      return { type: 'string', value: this.readHexString() }
+    }
+    if (byte === 0x5B /* [ */) {
+      return this.readArray()
+    }
+
+    const keyword = this.readKeyword()
+    switch (keyword) {
+      case 'true': return true
+      case 'false': return false
+      case 'null': return null
+    }
+    const number = Number(keyword)
+    if (keyword === '' || Number.isNaN(number)) {
+      throw new Error(`Unexpected PDF token: ${keyword}`)
+    }
+    // an integer may be the start of an indirect reference: 'num gen R'
+    if (Number.isInteger(number)) {
+      const saved = this.position
+      this.skipWhitespace()
+      const gen = Number(this.readKeyword())
+      if (Number.isInteger(gen)) {
+        this.skipWhitespace()
+        if (this.readKeyword() === 'R') {
+          return { type: 'ref', num: number, gen }
+        }
+      }
+      this.position = saved
+    }
+    return number
+  }
+
+  readKeyword (): string {
+    this.skipWhitespace()
+    const start = this.position
+    while (this.position < this.bytes.length && !WHITESPACE.has(this.bytes[this.position]) && !DELIMITERS.has(this.bytes[this.position])) {
+      this.position++
+    }
+    return ascii(this.bytes.subarray(start, this.position))
+  }
+
+  peekKeyword (): string {
+    const saved = this.position
+    const keyword = this.readKeyword()
+    this.position = saved
+    return keyword
+  }
+
+  expectKeyword (expected: string): void {
+    const keyword = this.readKeyword()
+    if (keyword !== expected) {
+      throw new Error(`Expected PDF keyword '${expected}' but found '${keyword}'`)
+    }
+  }
+
+  isKeywordAt (position: number, keyword: string): boolean {
+    const saved = this.position
+    this.position = position
+    const found = this.peekKeyword()
+    this.position = saved
+    return found === keyword
+  }
+
+  /* The 'stream' keyword is followed by CRLF or LF before the data */
+  skipStreamEol (): void {
+    if (this.bytes[this.position] === 0x0D) this.position++
+    if (this.bytes[this.position] === 0x0A) this.position++
+  }
+
+  findEndStream (start: number): number {
+    const marker = [0x65, 0x6E, 0x64, 0x73, 0x74, 0x72, 0x65, 0x61, 0x6D] // 'endstream'
+    for (let i = start; i <= this.bytes.length - marker.length; i++) {
+      if (marker.every((byte, j) => this.bytes[i + j] === byte)) {
+        let end = i
+        // strip the EOL that precedes 'endstream'
+        if (this.bytes[end - 1] === 0x0A) end--
+        if (this.bytes[end - 1] === 0x0D) end--
+        return end
+      }
+    }
+    throw new Error('PDF endstream not found')
+  }
+
+  skipWhitespace (): void {
+    while (this.position < this.bytes.length) {
+      const byte = this.bytes[this.position]
+      if (WHITESPACE.has(byte)) {
+        this.position++
+      } else if (byte === 0x25 /* % comment */) {
+        while (this.position < this.bytes.length && this.bytes[this.position] !== 0x0A && this.bytes[this.position] !== 0x0D) {
+          this.position++
+        }
+      } else {
+        break
+      }
+    }
+  }
+
+  private readName (): string {
+    this.position++ // skip '/'
+    const raw = this.readKeyword()
+    return raw.replace(/#([0-9A-Fa-f]{2})/g, (_, hex: string) => String.fromCharCode(Number.parseInt(hex, 16)))
+  }
+
+  private readDict (): PdfDict {
+    this.position += 2 // skip '<<'
+    const entries: Record<string, PdfValue> = {}
+    for (;;) {
+      this.skipWhitespace()
+      if (this.bytes[this.position] === 0x3E && this.bytes[this.position + 1] === 0x3E) {
+        this.position += 2
+        return { type: 'dict', entries }
+      }
+      const key = this.readValue()
+      if (!isName(key)) {
+        throw new Error('Invalid PDF dictionary key')
+      }
+      entries[key.value] = this.readValue()
+    }
+  }
+
+  private readArray (): PdfValue[] {
+    this.position++ // skip '['
+    const array: PdfValue[] = []
+    for (;;) {
+      this.skipWhitespace()
+      if (this.bytes[this.position] === 0x5D /* ] */) {
+        this.position++
+        return array
+      }
+      array.push(this.readValue())
+    }
+  }
+
+  private readLiteralString (): Uint8Array {
+    this.position++ // skip '('
+    const output: number[] = []
+    let depth = 1
+    while (this.position < this.bytes.length) {
+      const byte = this.bytes[this.position++]
+      if (byte === 0x5C /* \ */) {
+        const next = this.bytes[this.position++]
+        const escapes: Record<number, number> = { 0x6E: 0x0A, 0x72: 0x0D, 0x74: 0x09, 0x62: 0x08, 0x66: 0x0C }
+        if (escapes[next] !== undefined) {
+          output.push(escapes[next])
+        } else if (next >= 0x30 && next <= 0x37) { // octal
+          let octal = next - 0x30
+          for (let i = 0; i < 2 && this.bytes[this.position] >= 0x30 && this.bytes[this.position] <= 0x37; i++) {
+            octal = octal * 8 + this.bytes[this.position++] - 0x30
+          }
+          output.push(octal & 0xFF)
+        } else if (next === 0x0D || next === 0x0A) { // line continuation
+          if (next === 0x0D && this.bytes[this.position] === 0x0A) this.position++
+        } else {
+          output.push(next)
+        }
+        continue
+      }
+      if (byte === 0x28) depth++
+      if (byte === 0x29 && --depth === 0) {
+        return new Uint8Array(output)
+      }
+      output.push(byte)
+    }
+    throw new Error('Unterminated PDF string')
+  }
+
+  private readHexString (): Uint8Array {
+    const end = this.bytes.indexOf(0x3E, this.position)
+    if (end === -1) {
+      throw new Error('Unterminated PDF hex string')
+    }
+    const hex = ascii(this.bytes.subarray(this.position + 1, end)).replace(/\s/g, '')
+    this.position = end + 1
+    const padded = hex.length % 2 === 0 ? hex : hex + '0'
+    const output = new Uint8Array(padded.length / 2)
+    for (let i = 0; i < output.length; i++) {
+      output[i] = Number.parseInt(padded.substring(i * 2, i * 2 + 2), 16)
+    }
+    return output
+  }
+}
+
+async function inflate (data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate'))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+function paeth (left: number, up: number, upLeft: number): number {
+  const p = left + up - upLeft
+  const pa = Math.abs(p - left)
+  const pb = Math.abs(p - up)
+  const pc = Math.abs(p - upLeft)
+  if (pa <= pb && pa <= pc) return left
+  if (pb <= pc) return up
+  return upLeft
+}
+
+function readUint (data: Uint8Array, offset: number, width: number): number {
+  let value = 0
+  for (let i = 0; i < width; i++) {
+    value = value * 256 + data[offset + i]
+  }
+  return value
+}
+
+/*
+  Spreading the bytes into String.fromCharCode would overflow the call stack for long strings
+*/
+function ascii (bytes: Uint8Array): string {
+  return new TextDecoder('latin1').decode(bytes)
+}
+
+function isRef (value: PdfValue): value is PdfRef {
+  return value != null && typeof value === 'object' && !Array.isArray(value) && value.type === 'ref'
+}
+
+function isName (value: PdfValue): value is PdfName {
+  return value != null && typeof value === 'object' && !Array.isArray(value) && value.type === 'name'
+}
+
+function isDict (value: PdfValue): value is PdfDict {
+  return value != null && typeof value === 'object' && !Array.isArray(value) && value.type === 'dict'
+}
+
+function isStream (value: PdfValue): value is PdfStream {
+  return value != null && typeof value === 'object' && !Array.isArray(value) && value.type === 'stream'
+}
+
+function asDict (value: PdfValue | undefined): PdfDict | null {
+  if (value === undefined) return null
+  if (isStream(value)) return value.dict
+  return isDict(value) ? value : null
+}
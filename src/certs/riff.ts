@@ -5,52 +5,151 @@
 
 import { ByteReader } from './byteReader.js'
 
+/*
+  RF64 (EBU Tech 3306) and BW64 (ITU-R BS.2088) set 32-bit sizes to this value
+  and store the real 64-bit sizes in the 'ds64' chunk
+*/
+const SIZE_IN_DS64 = 0xFFFFFFFF
+
+const LIST_CHUNK_ID = 'LIST'
+
 export interface RIFFChunk {
   id: string
+  /**
+   * Offset of the chunk header within the buffer
+   */
+  offset: number
+  /**
+   * The declared size of the chunk data; `data` is shorter when the chunk is truncated
+   */
   size: number
   data: Uint8Array
+  /**
+   * For LIST chunks, the list type (e.g. 'INFO', 'movi', 'hdrl') and the chunks it contains
+   */
+  listType?: string
+  chunks?: RIFFChunk[]
 }
 
 export interface RIFF {
-  id: 'RIFF'
+  id: 'RIFF' | 'RF64' | 'BW64'
   size: number
   form: string
   chunks: RIFFChunk[]
 }
 
+interface DataSize64 {
+  riffSize: number
+  dataSize: number
+  table: Record<string, number>
+}
+
+/**
+ * Decodes a RIFF file, including its nested LIST chunks.
+ * RF64/BW64 files have their 64-bit sizes read from the 'ds64' chunk.
+ * Data after the end of the RIFF chunk (trailing junk, or the additional 'AVIX' RIFF chunks of
+ * OpenDML AVI files) is ignored, and a RIFF or chunk size larger than the file is clamped to the file.
+ */
 export function decode (buffer: ArrayBuffer): RIFF {
-  const reader = new ByteReader(new Uint8Array(buffer))
+  const bytes = new Uint8Array(buffer)
+  const reader = new ByteReader(bytes)
   const riffId = reader.string(4)
-  if (riffId !== 'RIFF') {
+  if (riffId !== 'RIFF' && riffId !== 'RF64' && riffId !== 'BW64') {
     throw new Error('Invalid RIFF signature')
   }
 
-  const size = reader.uint32(true)
-  if (size !== reader.remaining) {
-    throw new Error('Invalid RIFF size')
+  let size = reader.uint32(true)
+  const form = reader.string(4).trim()
+
+  let ds64: DataSize64 | null = null
+  if (riffId !== 'RIFF') {
+    ds64 = decodeDataSize64(reader)
+    if (size === SIZE_IN_DS64) {
+      size = ds64.riffSize
+    }
   }
 
-  const form = reader.string(4)
+  // the RIFF size counts the form type and the chunks, but not the id and size fields
+  const end = Math.min(8 + size, bytes.length)
 
-  const riff: RIFF = {
-    id: 'RIFF',
+  return {
+    id: riffId,
     size,
     form,
-    chunks: []
-  }
-
-  while (reader.remaining > 0) {
-    const fourCC = reader.string(4).trim()
-    const chunkSize = reader.uint32(true)
-    const data = reader.Uint8Array(chunkSize)
-    if (chunkSize % 2 !== 0) { // RIFF chunks are 2-byte aligned using a zero-byte as padding
-      const pad = reader.byte()
-      if (pad !== 0) {
-        throw new Error('Invalid padding byte')
-      }
+    chunks: decodeChunks(bytes, reader.offset, end, ds64)
+  }
+}
+
+/**
+ * Finds the first chunk with the given id, searching nested LIST chunks depth-first.
+ */
+export function findChunk (chunks: RIFFChunk[], id: string): RIFFChunk | null {
+  for (const chunk of chunks) {
+    if (chunk.id === id) {
+      return chunk
+    }
+    const nested = chunk.chunks != null ? findChunk(chunk.chunks, id) : null
+    if (nested != null) {
+      return nested
     }
-    riff.chunks.push({ id: fourCC, size: chunkSize, data })
   }
+  return null
+}
 
-  return riff
+function decodeChunks (bytes: Uint8Array, start: number, end: number, ds64: DataSize64 | null): RIFFChunk[] {
+  const reader = new ByteReader(bytes.subarray(0, end))
+  reader.absolute(start)
+  const chunks: RIFFChunk[] = []
+
+  while (reader.remaining >= 8) {
+    const offset = reader.offset
+    const id = reader.string(4).trim()
+    let size = reader.uint32(true)
+    if (size === SIZE_IN_DS64 && ds64 != null) {
+      size = id === 'data' ? ds64.dataSize : ds64.table[id] ?? size
+    }
+    // a chunk larger than the remaining data can only be the last one, truncated like the RIFF chunk
+    const data = reader.Uint8Array(Math.min(size, reader.remaining))
+    const chunk: RIFFChunk = { id, offset, size, data }
+
+    if (id === LIST_CHUNK_ID && data.length >= 4) {
+      chunk.listType = new ByteReader(data).string(4).trim()
+      chunk.chunks = decodeChunks(bytes, offset + 12, offset + 8 + data.length, ds64)
+    }
+    chunks.push(chunk)
+
+    // RIFF chunks are 2-byte aligned using a padding byte, which may be missing from the last chunk
+    if (size % 2 !== 0 && reader.remaining > 0) {
+      reader.move(1)
+    }
+  }
+
+  return chunks
+}
+
+/*
+  The 'ds64' chunk must be the first chunk of an RF64/BW64 file
+*/
+function decodeDataSize64 (reader: ByteReader): DataSize64 {
+  const id = reader.string(4)
+  const size = reader.uint32(true)
+  if (id !== 'ds64' || size < 28) {
+    throw new Error('Invalid RF64 ds64 chunk')
+  }
+  const chunkReader = new ByteReader(reader.Uint8Array(size))
+  if (size % 2 !== 0 && reader.remaining > 0) {
+    reader.move(1)
+  }
+
+  const riffSize = chunkReader.uint64(true)
+  const dataSize = chunkReader.uint64(true)
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const sampleCount = chunkReader.uint64(true)
+  const tableLength = chunkReader.uint32(true)
+  const table: Record<string, number> = {}
+  for (let i = 0; i < tableLength && chunkReader.remaining >= 12; i++) {
+    const chunkId = chunkReader.string(4).trim()
+    table[chunkId] = chunkReader.uint64(true)
+  }
+  return { riffSize, dataSize, table }
 }
@@ -0,0 +1,171 @@
+/*
+ *  Copyright (c) Microsoft Corporation.
+ *  Licensed under the MIT license.
+ */
+
+import { MIME } from '../constants.js'
+import { bytesToHex } from '../utils.js'
+import { getBmffMimeType, isBmff } from './bmff.js'
+import { isJxlContainer } from './jxl.js'
+import { leadingTagLength } from './mp3.js'
+import { getZipMimeType, isZip } from './zip.js'
+
+/*
+  Declared types that say nothing about the format; sniffing them is expected, not a mismatch
+*/
+const GENERIC_MIME_TYPES = ['', 'application/octet-stream', 'binary/octet-stream', 'application/unknown']
+
+/*
+  ZIP-based document types, which the 'mimetype' entry of a ZIP file must name to be trusted
+*/
+const ZIP_FAMILY = [MIME.ZIP, MIME.EPUB, MIME.DOCX, MIME.XLSX, MIME.PPTX, MIME.ODT, MIME.ODS, MIME.ODP, 'application/x-zip-compressed']
+
+/*
+  Media types that share a container format and parser.
+  A declared type and a sniffed type in the same family are not reported as a mismatch,
+  e.g. a DNG is sniffed as TIFF, and the brands of an MP4 do not always tell audio from video.
+  Common non-standard aliases are included.
+*/
+const FORMAT_FAMILIES: string[][] = [
+  [MIME.JPEG, 'image/jpg', 'image/pjpeg'],
+  [MIME.MPEG, 'audio/mp3', 'audio/mpeg3'],
+  [MIME.X_MSVIDEO, 'video/avi', 'video/msvideo'],
+  [MIME.TIFF, MIME.X_ADOBE_DNG, MIME.X_SONY_ARW],
+  [MIME.WAV, MIME.X_WAV, MIME.VND_WAVE],
+  [MIME.FLAC, MIME.X_FLAC],
+  [MIME.C2PA, MIME.X_C2PA_MANIFEST_STORE],
+  ZIP_FAMILY,
+  [MIME.FONT_TTF, MIME.FONT_OTF, MIME.FONT_COLLECTION, MIME.FONT_SFNT, 'application/x-font-ttf', 'application/x-font-otf',
+    'application/font-sfnt', 'application/vnd.ms-opentype', 'application/x-font-truetype', 'application/x-font-opentype'],
+  [MIME.FONT_WOFF, 'application/font-woff', 'application/x-font-woff'],
+  [MIME.FONT_WOFF2, 'application/font-woff2'],
+  [MIME.AVIF, MIME.HEIC, MIME.HEIF, MIME.MP4, MIME.X_M4V, MIME.QUICKTIME, MIME.VIDEO_3GPP, MIME.VIDEO_3GPP2,
+    MIME.AUDIO_MP4, MIME.X_M4A, MIME.AUDIO_3GPP, MIME.APPLICATION_MP4]
+]
+
+const FLAC_SIGNATURE = '664c6143' // fLaC
+
+/*
+  Formats identified by a fixed signature at the start of the file
+*/
+const SIGNATURES: Array<{ signature: string, mimeType: string }> = [
+  { signature: '89504e470d0a1a0a', mimeType: MIME.PNG },
+  { signature: 'ffd8ff', mimeType: MIME.JPEG },
+  { signature: '474946383761', mimeType: MIME.GIF }, // GIF87a
+  { signature: '474946383961', mimeType: MIME.GIF }, // GIF89a
+  { signature: '49492a00', mimeType: MIME.TIFF }, // II*
+  { signature: '4d4d002a', mimeType: MIME.TIFF }, // MM*
+  { signature: '49492b00', mimeType: MIME.TIFF }, // II+ (BigTIFF)
+  { signature: '4d4d002b', mimeType: MIME.TIFF }, // MM+ (BigTIFF)
+  { signature: FLAC_SIGNATURE, mimeType: MIME.FLAC },
+  { signature: '494433', mimeType: MIME.MPEG }, // ID3
+  { signature: '255044462d', mimeType: MIME.PDF }, // %PDF-
+  { signature: 'ff0a', mimeType: MIME.JXL }, // JPEG XL codestream
+  { signature: '00010000', mimeType: MIME.FONT_TTF },
+  { signature: '74727565', mimeType: MIME.FONT_TTF }, // true
+  { signature: '4f54544f', mimeType: MIME.FONT_OTF }, // OTTO
+  { signature: '74746366', mimeType: MIME.FONT_COLLECTION }, // ttcf
+  { signature: '774f4646', mimeType: MIME.FONT_WOFF }, // wOFF
+  { signature: '774f4632', mimeType: MIME.FONT_WOFF2 } // wOF2
+]
+
+const RIFF_FORMS: Record<string, string> = {
+  WEBP: MIME.WEBP,
+  WAVE: MIME.WAV,
+  'AVI ': MIME.X_MSVIDEO
+}
+
+/**
+ * Identifies the media type of a buffer from its signature (magic bytes).
+ * Returns null if the format is not recognized.
+ */
+export function sniffMimeType (buffer: Uint8Array): string | null {
+  // a FLAC stream may follow an ID3v2 tag, which would otherwise be taken for an MP3 file
+  const tagLength = leadingTagLength(buffer)
+  if (tagLength > 0 && bytesToHex(buffer.subarray(tagLength, tagLength + 4)) === FLAC_SIGNATURE) {
+    return MIME.FLAC
+  }
+
+  const header = bytesToHex(buffer.subarray(0, 16))
+  const match = SIGNATURES.find(({ signature }) => header.startsWith(signature))
+  if (match != null) {
+    return match.mimeType
+  }
+
+  if (isZip(buffer)) {
+    return sniffZip(buffer)
+  }
+
+  const ascii = new TextDecoder('ascii').decode(buffer.subarray(0, 12))
+  if (['RIFF', 'RF64', 'BW64'].includes(ascii.substring(0, 4))) {
+    return RIFF_FORMS[ascii.substring(8, 12)] ?? null
+  }
+  if (ascii.substring(4, 8) === 'jumb') {
+    return MIME.C2PA
+  }
+  if (isJxlContainer(buffer)) {
+    return MIME.JXL
+  }
+  if (isBmff(buffer)) {
+    return getBmffMimeType(buffer) ?? MIME.APPLICATION_MP4
+  }
+  if (isMpegAudioFrame(buffer)) {
+    return MIME.MPEG
+  }
+  if (isSvg(buffer)) {
+    return MIME.SVG_XML
+  }
+  return null
+}
+
+/**
+ * Returns true if the declared media type does not match the sniffed one.
+ * Generic declared types (e.g. application/octet-stream) and types of the same format family never mismatch.
+ */
+export function isMimeTypeMismatch (declared: string, sniffed: string): boolean {
+  const declaredType = normalize(declared)
+  const sniffedType = normalize(sniffed)
+  if (GENERIC_MIME_TYPES.includes(declaredType) || declaredType === sniffedType) {
+    return false
+  }
+  return !FORMAT_FAMILIES.some((family) => family.includes(declaredType) && family.includes(sniffedType))
+}
+
+/*
+  ZIP-based documents are told apart by their contents; a ZIP file whose directory cannot be read,
+  or whose 'mimetype' entry names a type outside the ZIP family, is still a ZIP file
+*/
+function sniffZip (buffer: Uint8Array): string {
+  let mimeType: string
+  try {
+    mimeType = getZipMimeType(buffer)
+  } catch {
+    return MIME.ZIP
+  }
+  mimeType = normalize(mimeType)
+  return ZIP_FAMILY.includes(mimeType) ? mimeType : MIME.ZIP
+}
+
+function normalize (mimeType: string): string {
+  return mimeType.split(';')[0].trim().toLowerCase()
+}
+
+/*
+  An MP3 without an ID3 tag starts with an MPEG audio frame: an 11-bit frame sync, a version
+  other than 'reserved' (01) and a layer other than 'reserved' (00), which also rules out AAC ADTS
+*/
+function isMpegAudioFrame (buffer: Uint8Array): boolean {
+  return buffer.length >= 4 &&
+    buffer[0] === 0xFF &&
+    (buffer[1] & 0xE0) === 0xE0 &&
+    (buffer[1] & 0x18) !== 0x08 &&
+    (buffer[1] & 0x06) !== 0x00
+}
+
+/*
+  SVG is text: an optional XML declaration, comments and doctype, then the <svg> root element
+*/
+function isSvg (buffer: Uint8Array): boolean {
+  const text = new TextDecoder('utf-8').decode(buffer.subarray(0, 4096))
+  return /^\s*(<\?xml[^>]*\?>\s*)?((<!--[\s\S]*?-->|<!DOCTYPE[^>]*>)\s*)*<svg[\s>]/i.test(text)
+}
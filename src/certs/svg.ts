@@ -4,22 +4,55 @@
  */
 
 import { base64ToArrayBuffer } from '../utils.js'
-import { decode as decodeXML } from './xml.js'
+import { decodeText, tokenize, type XmlName } from './xml.js'
 
-export function decode (buffer: Uint8Array): Uint8Array | null {
-  const xmlDoc = decodeXML(buffer)
-
-  const metadataElements = Array.from(xmlDoc.getElementsByTagName('metadata'))
+const SVG_NAMESPACE = 'http://www.w3.org/2000/svg'
+const C2PA_NAMESPACE = 'http://c2pa.org/manifest'
 
-  for (const metadata of metadataElements) {
-    const manifestElements = Array.from(metadata.getElementsByTagName('c2pa:manifest'))
+/**
+ * Returns the C2PA manifest store of an SVG image: the base64 content of the first
+ * manifest element (in the 'http://c2pa.org/manifest' namespace, whatever its prefix) within a metadata element.
+ * The content may be split across text and CDATA sections, and may contain whitespace.
+ * Returns null if the image has no manifest element.
+ */
+export function decode (buffer: Uint8Array): Uint8Array | null {
+  let metadataDepth: number | null = null
+  let manifest: string[] | null = null
 
-    if (manifestElements.length !== 0) {
-      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-      const arrayBuffer = base64ToArrayBuffer(manifestElements[0].textContent!)
-      return new Uint8Array(arrayBuffer)
+  for (const token of tokenize(decodeText(buffer))) {
+    switch (token.type) {
+      case 'startElement':
+        if (metadataDepth == null && isMetadata(token)) {
+          metadataDepth = token.depth
+        } else if (metadataDepth != null && manifest == null && isElement(token, C2PA_NAMESPACE, 'manifest')) {
+          manifest = []
+        }
+        break
+      case 'text':
+      case 'cdata':
+        manifest?.push(token.value)
+        break
+      case 'endElement':
+        if (manifest != null && isElement(token, C2PA_NAMESPACE, 'manifest')) {
+          return new Uint8Array(base64ToArrayBuffer(manifest.join('').replace(/\s+/g, '')))
+        }
+        if (token.depth === metadataDepth) {
+          metadataDepth = null
+        }
+        break
     }
   }
 
   return null
 }
+
+/*
+  The metadata element is in the SVG namespace; SVGs missing their namespace declaration are accepted too
+*/
+function isMetadata (name: XmlName): boolean {
+  return isElement(name, SVG_NAMESPACE, 'metadata') || isElement(name, null, 'metadata')
+}
+
+function isElement (name: XmlName, namespaceURI: string | null, localName: string): boolean {
+  return name.namespaceURI === namespaceURI && name.localName === localName
+}
@@ -5,39 +5,217 @@
 
 import { ByteReader } from './byteReader.js'
 
+const TIFF_VERSION = 42
+const BIGTIFF_VERSION = 43
+
+const TAG_SUB_IFDS = 0x014A
+const TAG_EXIF_IFD = 0x8769
+const TAG_GPS_IFD = 0x8825
+const TAG_INTEROPERABILITY_IFD = 0xA005
+
+/*
+  Tags whose values are offsets to child IFDs
+*/
+const IFD_POINTER_TAGS = [TAG_SUB_IFDS, TAG_EXIF_IFD, TAG_GPS_IFD, TAG_INTEROPERABILITY_IFD]
+
+/*
+  Size in bytes of a single value of each TIFF field type
+*/
+const TYPE_SIZES: Record<number, number> = {
+  1: 1, // BYTE
+  2: 1, // ASCII
+  3: 2, // SHORT
+  4: 4, // LONG
+  5: 8, // RATIONAL
+  6: 1, // SBYTE
+  7: 1, // UNDEFINED
+  8: 2, // SSHORT
+  9: 4, // SLONG
+  10: 8, // SRATIONAL
+  11: 4, // FLOAT
+  12: 8, // DOUBLE
+  13: 4, // IFD
+  16: 8, // LONG8 (BigTIFF)
+  17: 8, // SLONG8 (BigTIFF)
+  18: 8 // IFD8 (BigTIFF)
+}
+
 export interface IFDEntry {
   tag: number
   type: number
   count: number
+  /**
+   * Absolute offset of the entry's value within the buffer.
+   * Values that fit within the entry (4 bytes, or 8 bytes for BigTIFF) are stored inline
+   * and this points into the entry itself.
+   */
   value: number
+  data: Uint8Array
+  /**
+   * Path of the IFD containing the entry, e.g. 'IFD0', 'IFD0/Exif', or 'IFD0/SubIFD0.1' for the second IFD
+   * of the chain headed by the first SubIFD
+   */
+  ifd: string
 }
 
 export function decode (buffer: Uint8Array): IFDEntry[] {
-  const reader = new ByteReader(new Uint8Array(buffer))
+  const reader = new ByteReader(buffer)
   const byteOrder = reader.string(2)
   if (byteOrder !== 'II' && byteOrder !== 'MM') {
     throw new Error('Invalid TIFF byte order')
   }
   const littleEndian = byteOrder === 'II'
   const version = reader.uint16(littleEndian)
-  if (version !== 42) {
+  if (version !== TIFF_VERSION && version !== BIGTIFF_VERSION) {
     throw new Error('Invalid TIFF version')
   }
-  const entries: IFDEntry[] = []
-  let offset = reader.uint32(littleEndian)
+  const bigTiff = version === BIGTIFF_VERSION
+  if (bigTiff) {
+    const offsetSize = reader.uint16(littleEndian)
+    const reserved = reader.uint16(littleEndian)
+    if (offsetSize !== 8 || reserved !== 0) {
+      throw new Error('Invalid BigTIFF header')
+    }
+  }
+
+  const walker = new IFDWalker(reader, littleEndian, bigTiff)
+  const firstOffset = walker.readOffset()
+  walker.walkChain(firstOffset, 'IFD')
+  return walker.entries
+}
+
+class IFDWalker {
+  readonly entries: IFDEntry[] = []
+  private readonly visited = new Set<number>()
+
+  constructor (private readonly reader: ByteReader, private readonly littleEndian: boolean, private readonly bigTiff: boolean) {}
+
+  readOffset (): number {
+    return this.bigTiff ? this.reader.uint64(this.littleEndian) : this.reader.uint32(this.littleEndian)
+  }
 
-  while (offset !== 0) {
+  /**
+   * Walks a chain of IFDs linked by their next-IFD offsets, e.g. IFD0 -> IFD1 -> ...
+   * A malformed head IFD throws; a malformed IFD further down the chain (e.g. a next-IFD offset out of range,
+   * or a circular reference) ends the chain, so that the entries read so far, such as the C2PA tag of IFD0, are kept.
+   */
+  walkChain (offset: number, name: string): void {
+    let index = 0
+    while (offset !== 0) {
+      try {
+        offset = this.walkIFD(offset, `${name}${index}`)
+      } catch (error) {
+        if (index === 0) {
+          throw error
+        }
+        break
+      }
+      index++
+    }
+  }
+
+  /**
+   * Reads the entries of a single IFD and descends into any child IFDs.
+   * Returns the offset of the next IFD in the chain (0 if none).
+   */
+  private walkIFD (offset: number, path: string): number {
+    if (this.visited.has(offset)) {
+      throw new Error('Circular TIFF IFD reference')
+    }
+    this.visited.add(offset)
+
+    const reader = this.reader
     reader.absolute(offset)
-    const entryCount = reader.uint16(littleEndian)
+    const entryCount = this.bigTiff ? reader.uint64(this.littleEndian) : reader.uint16(this.littleEndian)
+    const ifdEntries: IFDEntry[] = []
     for (let i = 0; i < entryCount; i++) {
-      entries.push({
-        tag: reader.uint16(littleEndian),
-        type: reader.uint16(littleEndian),
-        count: reader.uint32(littleEndian),
-        value: reader.uint32(littleEndian)
+      const entry = this.readEntry(path)
+      if (entry != null) {
+        ifdEntries.push(entry)
+      }
+    }
+    // a next-IFD offset cut off by the end of the buffer ends the chain
+    const next = reader.remaining >= (this.bigTiff ? 8 : 4) ? this.readOffset() : 0
+    this.entries.push(...ifdEntries)
+
+    for (const entry of ifdEntries) {
+      if (!IFD_POINTER_TAGS.includes(entry.tag)) continue
+      const childOffsets = this.readOffsets(entry)
+      childOffsets.forEach((childOffset, i) => {
+        if (childOffset === 0) return
+        try {
+          switch (entry.tag) {
+            case TAG_SUB_IFDS:
+              // each SubIFD can itself be the head of a chain
+              this.walkChain(childOffset, `${path}/SubIFD${i}.`)
+              break
+            case TAG_EXIF_IFD:
+              this.walkIFD(childOffset, `${path}/Exif`)
+              break
+            case TAG_GPS_IFD:
+              this.walkIFD(childOffset, `${path}/GPS`)
+              break
+            case TAG_INTEROPERABILITY_IFD:
+              this.walkIFD(childOffset, `${path}/Interop`)
+              break
+          }
+        } catch {
+          // a malformed child IFD (e.g. an offset out of range, or a circular reference) is skipped,
+          // so that the entries read so far, such as the C2PA tag of IFD0, are kept
+        }
       })
     }
-    offset = reader.uint32(littleEndian)
+
+    return next
+  }
+
+  /**
+   * Reads an IFD entry and its value.
+   * Returns null for an entry whose value lies outside the buffer (e.g. a vendor MakerNote with a broken offset),
+   * so that the other entries of the IFD can still be read.
+   */
+  private readEntry (ifd: string): IFDEntry | null {
+    const reader = this.reader
+    const tag = reader.uint16(this.littleEndian)
+    const type = reader.uint16(this.littleEndian)
+    const count = this.bigTiff ? reader.uint64(this.littleEndian) : reader.uint32(this.littleEndian)
+    const inlineSize = this.bigTiff ? 8 : 4
+    const valueFieldOffset = reader.offset
+    const byteLength = (TYPE_SIZES[type] ?? 1) * count
+
+    const value = byteLength <= inlineSize ? valueFieldOffset : this.readOffset()
+    if (value + byteLength > reader.length) {
+      reader.absolute(valueFieldOffset + inlineSize)
+      return null
+    }
+    reader.absolute(value)
+    const data = reader.Uint8Array(byteLength)
+    reader.absolute(valueFieldOffset + inlineSize)
+
+    return { tag, type, count, value, data, ifd }
+  }
+
+  /**
+   * Reads the values of an IFD-pointer entry as offsets.
+   */
+  private readOffsets (entry: IFDEntry): number[] {
+    const reader = new ByteReader(entry.data)
+    const offsets: number[] = []
+    for (let i = 0; i < entry.count; i++) {
+      switch (TYPE_SIZES[entry.type]) {
+        case 2:
+          offsets.push(reader.uint16(this.littleEndian))
+          break
+        case 4:
+          offsets.push(reader.uint32(this.littleEndian))
+          break
+        case 8:
+          offsets.push(reader.uint64(this.littleEndian))
+          break
+        default:
+          throw new Error(`Invalid TIFF IFD pointer type: ${entry.type}`)
+      }
+    }
+    return offsets
   }
-  return entries
 }
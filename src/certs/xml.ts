@@ -3,13 +3,215 @@
  *  Licensed under the MIT license.
  */
 
-export function decode (buffer: Uint8Array): Document {
-  const decoder = new TextDecoder('utf-8')
-  const xmlText = decoder.decode(buffer)
-  const parser = new DOMParser()
-  const xmlDoc = parser.parseFromString(xmlText, 'application/xml')
-  if (xmlDoc.getElementsByTagName('parsererror').length > 0) {
-    throw new Error('Error parsing XML')
-  }
-  return xmlDoc
+/*
+  A streaming XML tokenizer that does not depend on DOMParser, which is not available in service workers.
+  Comments, processing instructions and the DOCTYPE are skipped; only the general entities declared in the
+  DOCTYPE's internal subset are read (e.g. Adobe Illustrator declares its namespace URIs as entities).
+*/
+
+const XML_NAMESPACE = 'http://www.w3.org/XML/1998/namespace'
+const XMLNS_NAMESPACE = 'http://www.w3.org/2000/xmlns/'
+
+const PREDEFINED_ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: '\''
+}
+
+export interface XmlName {
+  /**
+   * The qualified name, as written in the document (e.g. 'c2pa:manifest')
+   */
+  name: string
+  prefix: string | null
+  localName: string
+  /**
+   * The namespace the prefix (or the default namespace) is bound to, null for no namespace
+   */
+  namespaceURI: string | null
+}
+
+export interface XmlAttribute extends XmlName {
+  value: string
+}
+
+export type XmlToken =
+  | XmlName & { type: 'startElement', attributes: XmlAttribute[], selfClosing: boolean, depth: number, offset: number }
+  | XmlName & { type: 'endElement', depth: number, offset: number }
+  | { type: 'text', value: string, offset: number }
+  | { type: 'cdata', value: string, offset: number }
+
+/**
+ * Decodes the text of an XML document: UTF-8, or UTF-16 with a byte order mark.
+ */
+export function decodeText (buffer: Uint8Array): string {
+  if (buffer[0] === 0xFE && buffer[1] === 0xFF) {
+    return new TextDecoder('utf-16be').decode(buffer)
+  }
+  if (buffer[0] === 0xFF && buffer[1] === 0xFE) {
+    return new TextDecoder('utf-16le').decode(buffer)
+  }
+  return new TextDecoder('utf-8').decode(buffer)
+}
+
+/**
+ * Tokenizes an XML document into start element, end element, text and CDATA tokens, in document order.
+ * Element and attribute names are resolved against the namespace declarations in scope.
+ * Text has its entity and character references decoded; CDATA sections are returned as written.
+ * Throws on malformed markup: unterminated constructs, mismatched end tags and unbound prefixes.
+ */
+export function * tokenize (xml: string): Generator<XmlToken> {
+  const elements: XmlName[] = []
+  const scopes: Array<Map<string, string | null>> = [new Map([['xml', XML_NAMESPACE]])]
+  const entities = { ...PREDEFINED_ENTITIES }
+  let offset = 0
+
+  while (offset < xml.length) {
+    const start = offset
+    if (xml[offset] !== '<') {
+      const end = xml.indexOf('<', offset)
+      offset = end === -1 ? xml.length : end
+      yield { type: 'text', value: decodeReferences(xml.substring(start, offset), entities, start), offset: start }
+      continue
+    }
+
+    if (xml.startsWith('<!--', offset)) {
+      offset = skipPast(xml, '-->', offset, 'comment')
+    } else if (xml.startsWith('<![CDATA[', offset)) {
+      const end = skipPast(xml, ']]>', offset, 'CDATA section')
+      yield { type: 'cdata', value: xml.substring(start + 9, end - 3), offset: start }
+      offset = end
+    } else if (xml.startsWith('<?', offset)) {
+      offset = skipPast(xml, '?>', offset, 'processing instruction')
+    } else if (xml.startsWith('<!DOCTYPE', offset)) {
+      const doctype = readDoctype(xml, offset)
+      Object.assign(entities, doctype.entities)
+      offset = doctype.end
+    } else if (xml.startsWith('</', offset)) {
+      const end = skipPast(xml, '>', offset, 'end tag')
+      const name = xml.substring(start + 2, end - 1).trim()
+      const element = elements.pop()
+      if (element == null || element.name !== name) {
+        throw new Error(`XML end tag </${name}> does not match ${element != null ? `<${element.name}>` : 'any start tag'} at offset ${start}`)
+      }
+      scopes.pop()
+      yield { type: 'endElement', ...element, depth: elements.length, offset: start }
+      offset = end
+    } else {
+      const tag = readTag(xml, offset, entities)
+      const scope = new Map(scopes[scopes.length - 1])
+      for (const { name, value } of tag.attributes) {
+        if (name === 'xmlns') {
+          scope.set('', value === '' ? null : value)
+        } else if (name.startsWith('xmlns:')) {
+          scope.set(name.substring(6), value)
+        }
+      }
+      const element = resolveName(tag.name, scope, true, start)
+      const attributes = tag.attributes.map(({ name, value }) => ({ ...resolveName(name, scope, false, start), value }))
+      yield { type: 'startElement', ...element, attributes, selfClosing: tag.selfClosing, depth: elements.length, offset: start }
+      if (tag.selfClosing) {
+        yield { type: 'endElement', ...element, depth: elements.length, offset: start }
+      } else {
+        elements.push(element)
+        scopes.push(scope)
+      }
+      offset = tag.end
+    }
+  }
+
+  if (elements.length > 0) {
+    throw new Error(`XML element <${elements[elements.length - 1].name}> is not closed`)
+  }
+}
+
+/*
+  Reads a start tag: its name, its attributes (values with references decoded), and whether it is self-closing
+*/
+function readTag (xml: string, offset: number, entities: Record<string, string>): { name: string, attributes: Array<{ name: string, value: string }>, selfClosing: boolean, end: number } {
+  const pattern = /\s*([^\s=/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)')|\s*(\/?)>/y
+  const nameMatch = /<([^\s/>]+)/y
+  nameMatch.lastIndex = offset
+  const name = nameMatch.exec(xml)?.[1]
+  if (name == null) {
+    throw new Error(`Invalid XML start tag at offset ${offset}`)
+  }
+
+  const attributes: Array<{ name: string, value: string }> = []
+  pattern.lastIndex = nameMatch.lastIndex
+  for (;;) {
+    const match = pattern.exec(xml)
+    if (match == null) {
+      throw new Error(`Invalid XML start tag <${name}> at offset ${offset}`)
+    }
+    if (match[1] == null) {
+      return { name, attributes, selfClosing: match[4] === '/', end: pattern.lastIndex }
+    }
+    attributes.push({ name: match[1], value: decodeReferences(match[2] ?? match[3], entities, offset) })
+  }
+}
+
+/*
+  Unprefixed elements are in the default namespace; unprefixed attributes are in no namespace
+*/
+function resolveName (name: string, scope: Map<string, string | null>, isElement: boolean, offset: number): XmlName {
+  const colon = name.indexOf(':')
+  const prefix = colon === -1 ? null : name.substring(0, colon)
+  const localName = colon === -1 ? name : name.substring(colon + 1)
+  if (prefix === 'xmlns' || (!isElement && name === 'xmlns')) {
+    return { name, prefix, localName, namespaceURI: XMLNS_NAMESPACE }
+  }
+  if (prefix == null) {
+    return { name, prefix, localName, namespaceURI: isElement ? scope.get('') ?? null : null }
+  }
+  const namespaceURI = scope.get(prefix)
+  if (namespaceURI == null) {
+    throw new Error(`XML namespace prefix '${prefix}' is not declared at offset ${offset}`)
+  }
+  return { name, prefix, localName, namespaceURI }
+}
+
+function decodeReferences (text: string, entities: Record<string, string>, offset: number): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[A-Za-z][\w.-]*);/g, (reference, entity: string) => {
+    if (entity.startsWith('#x')) {
+      return String.fromCodePoint(parseInt(entity.substring(2), 16))
+    }
+    if (entity.startsWith('#')) {
+      return String.fromCodePoint(parseInt(entity.substring(1), 10))
+    }
+    const value = entities[entity]
+    if (value == null) {
+      throw new Error(`Undefined XML entity ${reference} near offset ${offset}`)
+    }
+    return value
+  })
+}
+
+function skipPast (xml: string, terminator: string, offset: number, construct: string): number {
+  const end = xml.indexOf(terminator, offset)
+  if (end === -1) {
+    throw new Error(`Unterminated XML ${construct} at offset ${offset}`)
+  }
+  return end + terminator.length
+}
+
+/*
+  The DOCTYPE may have an internal subset in brackets, which can itself contain '>'.
+  Entity values are used as written; parameter entities (<!ENTITY % ...>) are ignored.
+*/
+function readDoctype (xml: string, offset: number): { entities: Record<string, string>, end: number } {
+  const bracket = xml.indexOf('[', offset)
+  const close = xml.indexOf('>', offset)
+  if (bracket === -1 || bracket > close) {
+    return { entities: {}, end: skipPast(xml, '>', offset, 'DOCTYPE') }
+  }
+  const subsetEnd = skipPast(xml, ']', bracket, 'DOCTYPE')
+  const subset = xml.substring(bracket + 1, subsetEnd - 1)
+  const entities: Record<string, string> = {}
+  for (const match of subset.matchAll(/<!ENTITY\s+([^\s%]+)\s+(?:"([^"]*)"|'([^']*)')\s*>/g)) {
+    entities[match[1]] = match[2] ?? match[3]
+  }
+  return { entities, end: skipPast(xml, '>', subsetEnd, 'DOCTYPE') }
 }
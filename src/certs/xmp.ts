@@ -0,0 +1,46 @@
+/*
+ *  Copyright (c) Microsoft Corporation.
+ *  Licensed under the MIT license.
+ */
+
+import { tokenize } from './xml.js'
+
+const DCTERMS_NAMESPACE = 'http://purl.org/dc/terms/'
+const RDF_NAMESPACE = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#'
+const PROVENANCE = 'provenance'
+
+/**
+ * Returns the dcterms:provenance property of an XMP packet: the URL of a remote C2PA manifest store.
+ * The property may be serialized as an attribute of rdf:Description, as a child element with a text value,
+ * or as a child element with an rdf:resource attribute; the dcterms namespace may be bound to any prefix.
+ * Returns null if the packet has no provenance property; throws if the packet is not well-formed XML.
+ */
+export function getProvenance (xmp: string): string | null {
+  let value: string | null = null
+  for (const token of tokenize(xmp)) {
+    if (value != null) {
+      // inside the provenance element: its text, up to its end tag
+      if (token.type === 'text' || token.type === 'cdata') {
+        value += token.value
+      } else if (token.type === 'endElement' && token.namespaceURI === DCTERMS_NAMESPACE && token.localName === PROVENANCE) {
+        return value.trim()
+      }
+      continue
+    }
+    if (token.type !== 'startElement') {
+      continue
+    }
+    const attribute = token.attributes.find(({ namespaceURI, localName }) => namespaceURI === DCTERMS_NAMESPACE && localName === PROVENANCE)
+    if (attribute != null) {
+      return attribute.value.trim()
+    }
+    if (token.namespaceURI === DCTERMS_NAMESPACE && token.localName === PROVENANCE) {
+      const resource = token.attributes.find(({ namespaceURI, localName }) => namespaceURI === RDF_NAMESPACE && localName === 'resource')
+      if (resource != null) {
+        return resource.value.trim()
+      }
+      value = ''
+    }
+  }
+  return null
+}
@@ -0,0 +1,240 @@
+/*
+ *  Copyright (c) Microsoft Corporation.
+ *  Licensed under the MIT license.
+ */
+
+import { MIME } from '../constants.js'
+import { ByteReader } from './byteReader.js'
+
+export const C2PA_MANIFEST_ENTRY = 'META-INF/content_credential.c2pa'
+
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034B50
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014B50
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054B50
+const ZIP64_END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06064B50
+const ZIP64_LOCATOR_SIGNATURE = 0x07064B50
+const DATA_DESCRIPTOR_SIGNATURE = 0x08074B50
+const ZIP64_EXTRA_FIELD = 0x0001
+
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22
+const ZIP64_LOCATOR_SIZE = 20
+const MAX_COMMENT_LENGTH = 0xFFFF
+
+const METHOD_STORED = 0
+const METHOD_DEFLATED = 8
+const FLAG_DATA_DESCRIPTOR = 0x0008
+
+/*
+  OOXML packages have no 'mimetype' entry; their type follows from the main part's folder
+*/
+const OOXML_FOLDERS: Record<string, string> = {
+  'word/': MIME.DOCX,
+  'xl/': MIME.XLSX,
+  'ppt/': MIME.PPTX
+}
+
+export interface ZipEntry {
+  name: string
+  method: number
+  flags: number
+  crc32: number
+  compressedSize: number
+  uncompressedSize: number
+  /**
+   * Offset of the entry's local file header within the buffer
+   */
+  localHeaderOffset: number
+  /**
+   * Offset of the entry's (compressed) data within the buffer
+   */
+  dataOffset: number
+  /**
+   * Offset just past the entry's data and data descriptor, if any
+   */
+  end: number
+  /**
+   * Offset and length of the entry's record in the central directory
+   */
+  recordOffset: number
+  recordLength: number
+}
+
+export interface ZipDirectory {
+  entries: ZipEntry[]
+  /**
+   * Offset and length of the central directory records
+   */
+  centralDirectoryOffset: number
+  centralDirectoryLength: number
+}
+
+/**
+ * Returns true if the buffer starts with a ZIP local file header.
+ */
+export function isZip (buffer: Uint8Array): boolean {
+  return buffer.length >= 4 && new DataView(buffer.buffer, buffer.byteOffset, 4).getUint32(0, true) === LOCAL_FILE_HEADER_SIGNATURE
+}
+
+/**
+ * Returns the C2PA manifest store of a ZIP-based document (EPUB, OOXML, ODF, ...).
+ * The manifest store is the 'META-INF/content_credential.c2pa' entry.
+ */
+export async function decode (buffer: Uint8Array): Promise<Uint8Array | null> {
+  const directory = decodeDirectory(buffer)
+  const entry = directory.entries.find((entry) => entry.name === C2PA_MANIFEST_ENTRY)
+  if (entry == null) {
+    return null
+  }
+  return await readEntry(buffer, entry)
+}
+
+/**
+ * Determines the media type of a ZIP-based document from its 'mimetype' entry (EPUB, ODF)
+ * or its folder layout (OOXML). Returns MIME.ZIP for other ZIP files.
+ */
+export function getZipMimeType (buffer: Uint8Array): string {
+  const { entries } = decodeDirectory(buffer)
+  const mimetype = entries.find((entry) => entry.name === 'mimetype')
+  if (mimetype != null && mimetype.method === METHOD_STORED) {
+    return new TextDecoder().decode(buffer.subarray(mimetype.dataOffset, mimetype.dataOffset + mimetype.compressedSize)).trim()
+  }
+  if (entries.some((entry) => entry.name === '[Content_Types].xml')) {
+    for (const [folder, mimeType] of Object.entries(OOXML_FOLDERS)) {
+      if (entries.some((entry) => entry.name.startsWith(folder))) {
+        return mimeType
+      }
+    }
+  }
+  return MIME.ZIP
+}
+
+/**
+ * Reads the central directory of a ZIP file, including ZIP64 sizes and offsets.
+ */
+export function decodeDirectory (buffer: Uint8Array): ZipDirectory {
+  const reader = new ByteReader(buffer)
+  const eocdOffset = findEndOfCentralDirectory(buffer)
+  if (eocdOffset == null) {
+    throw new Error('ZIP end of central directory not found')
+  }
+
+  reader.absolute(eocdOffset + 10)
+  let entryCount = reader.uint16(true)
+  let centralDirectoryLength = reader.uint32(true)
+  let centralDirectoryOffset = reader.uint32(true)
+
+  /*
+    ZIP64: the 32-bit fields are set to their maximum and the real values are in the ZIP64 end of central directory record
+  */
+  const locatorOffset = eocdOffset - ZIP64_LOCATOR_SIZE
+  if (locatorOffset >= 0 && reader.absolute(locatorOffset).uint32(true) === ZIP64_LOCATOR_SIGNATURE) {
+    reader.move(4)
+    const zip64EocdOffset = reader.uint64(true)
+    if (reader.absolute(zip64EocdOffset).uint32(true) !== ZIP64_END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      throw new Error('Invalid ZIP64 end of central directory')
+    }
+    reader.move(28)
+    entryCount = reader.uint64(true)
+    centralDirectoryLength = reader.uint64(true)
+    centralDirectoryOffset = reader.uint64(true)
+  }
+
+  reader.absolute(centralDirectoryOffset)
+  const entries: ZipEntry[] = []
+  for (let i = 0; i < entryCount; i++) {
+    entries.push(readCentralDirectoryEntry(reader, buffer))
+  }
+
+  return { entries, centralDirectoryOffset, centralDirectoryLength }
+}
+
+/**
+ * Returns the uncompressed content of an entry. Only stored and deflated entries are supported.
+ */
+export async function readEntry (buffer: Uint8Array, entry: ZipEntry): Promise<Uint8Array> {
+  const data = buffer.subarray(entry.dataOffset, entry.dataOffset + entry.compressedSize)
+  switch (entry.method) {
+    case METHOD_STORED:
+      return data
+    case METHOD_DEFLATED: {
+      const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'))
+      return new Uint8Array(await new Response(stream).arrayBuffer())
+    }
+    default:
+      throw new Error(`Unsupported ZIP compression method ${entry.method}: ${entry.name}`)
+  }
+}
+
+/*
+  The end of central directory record is at the end of the file, followed only by a comment of up to 64 KB
+*/
+function findEndOfCentralDirectory (buffer: Uint8Array): number | null {
+  const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength)
+  const lowest = Math.max(0, buffer.length - END_OF_CENTRAL_DIRECTORY_SIZE - MAX_COMMENT_LENGTH)
+  for (let offset = buffer.length - END_OF_CENTRAL_DIRECTORY_SIZE; offset >= lowest; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      return offset
+    }
+  }
+  return null
+}
+
+function readCentralDirectoryEntry (reader: ByteReader, buffer: Uint8Array): ZipEntry {
+  const recordOffset = reader.offset
+  if (reader.uint32(true) !== CENTRAL_DIRECTORY_SIGNATURE) {
+    throw new Error('Invalid ZIP central directory entry')
+  }
+  reader.move(4) // version made by, version needed
+  const flags = reader.uint16(true)
+  const method = reader.uint16(true)
+  reader.move(4) // modification time and date
+  const crc32 = reader.uint32(true)
+  let compressedSize = reader.uint32(true)
+  let uncompressedSize = reader.uint32(true)
+  const nameLength = reader.uint16(true)
+  const extraLength = reader.uint16(true)
+  const commentLength = reader.uint16(true)
+  reader.move(8) // disk number, internal and external attributes
+  let localHeaderOffset = reader.uint32(true)
+  const name = reader.string(nameLength)
+  const extra = new ByteReader(reader.Uint8Array(extraLength))
+  reader.move(commentLength)
+  const recordLength = reader.offset - recordOffset
+  let zip64 = false
+
+  /*
+    The ZIP64 extra field holds, in order, only the values whose 32-bit fields are 0xFFFFFFFF
+  */
+  while (extra.remaining >= 4) {
+    const id = extra.uint16(true)
+    const size = extra.uint16(true)
+    const field = new ByteReader(extra.Uint8Array(size))
+    if (id !== ZIP64_EXTRA_FIELD) {
+      continue
+    }
+    zip64 = true
+    if (uncompressedSize === 0xFFFFFFFF) uncompressedSize = field.uint64(true)
+    if (compressedSize === 0xFFFFFFFF) compressedSize = field.uint64(true)
+    if (localHeaderOffset === 0xFFFFFFFF) localHeaderOffset = field.uint64(true)
+  }
+
+  const local = new ByteReader(buffer)
+  local.absolute(localHeaderOffset)
+  if (local.uint32(true) !== LOCAL_FILE_HEADER_SIGNATURE) {
+    throw new Error(`Invalid ZIP local file header: ${name}`)
+  }
+  local.move(22)
+  const localNameLength = local.uint16(true)
+  const localExtraLength = local.uint16(true)
+  const dataOffset = local.offset + localNameLength + localExtraLength
+
+  let end = dataOffset + compressedSize
+  if ((flags & FLAG_DATA_DESCRIPTOR) !== 0) {
+    local.absolute(end)
+    // the data descriptor signature is optional; the sizes are 64-bit for ZIP64 entries
+    const signature = local.peek.uint32(true) === DATA_DESCRIPTOR_SIGNATURE ? 4 : 0
+    end += signature + 4 + (zip64 ? 16 : 8)
+  }
+
+  return { name, method, flags, crc32, compressedSize, uncompressedSize, localHeaderOffset, dataOffset, end, recordOffset, recordLength }
+}
@@ -42,6 +42,7 @@ export const DEFAULT_MSG_TIMEOUT = 5000 /* 5 sec */
 export const REMOTE_VALIDATION_LINK = 'https://contentintegrity.microsoft.com/check'
 export const AWAIT_ASYNC_RESPONSE = true
 export const AUTO_SCAN_DEFAULT = process.env.AUTO_SCAN?.toLowerCase() === 'true' || false
+export const SIDECAR_LOOKUP_DEFAULT = false
 export const TRUSTLIST_UPDATE_INTERVAL = 1440 /* 24 hours */
 export const LOCAL_TRUST_ANCHOR_LIST_NAME = 'Local Trust Anchors'
 export const LOCAL_TRUST_TSA_LIST_NAME = 'Local TSA Anchors'
@@ -61,14 +62,20 @@ export const MIME = {
   APPLICATION_MP4: 'application/mp4',
   X_C2PA_MANIFEST_STORE: 'application/x-c2pa-manifest-store',
   AUDIO_MP4: 'audio/mp4',
+  FLAC: 'audio/flac',
+  X_FLAC: 'audio/x-flac',
+  AUDIO_3GPP: 'audio/3gpp',
+  X_M4A: 'audio/x-m4a',
   MPEG: 'audio/mpeg',
   VND_WAVE: 'audio/vnd.wave',
   WAV: 'audio/wav',
   X_WAV: 'audio/x-wav',
   AVIF: 'image/avif',
+  GIF: 'image/gif',
   HEIC: 'image/heic',
   HEIF: 'image/heif',
   JPEG: 'image/jpeg',
+  JXL: 'image/jxl',
   PNG: 'image/png',
   SVG_XML: 'image/svg+xml',
   TIFF: 'image/tiff',
@@ -76,6 +83,24 @@ export const MIME = {
   X_ADOBE_DNG: 'image/x-adobe-dng',
   X_SONY_ARW: 'image/x-sony-arw',
   MP4: 'video/mp4',
+  QUICKTIME: 'video/quicktime',
+  VIDEO_3GPP: 'video/3gpp',
+  VIDEO_3GPP2: 'video/3gpp2',
+  X_M4V: 'video/x-m4v',
   X_MSVIDEO: 'video/x-msvideo',
-  PDF: 'application/pdf'
+  PDF: 'application/pdf',
+  ZIP: 'application/zip',
+  EPUB: 'application/epub+zip',
+  DOCX: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  XLSX: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  PPTX: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  ODT: 'application/vnd.oasis.opendocument.text',
+  ODS: 'application/vnd.oasis.opendocument.spreadsheet',
+  ODP: 'application/vnd.oasis.opendocument.presentation',
+  FONT_TTF: 'font/ttf',
+  FONT_OTF: 'font/otf',
+  FONT_COLLECTION: 'font/collection',
+  FONT_SFNT: 'font/sfnt',
+  FONT_WOFF: 'font/woff',
+  FONT_WOFF2: 'font/woff2'
 }
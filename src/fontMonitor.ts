@@ -0,0 +1,95 @@
+/*
+ *  Copyright (c) Microsoft Corporation.
+ *  Licensed under the MIT license.
+ */
+
+import { type C2paResult } from './c2pa'
+
+/*
+  Fonts have no element in the page; the fonts loaded from @font-face rules are found from the page's resource timing entries
+*/
+const FONT_EXTENSIONS = /\.(ttf|otf|ttc|woff2?)$/i
+const SOURCES_TO_IGNORE = ['chrome-extension:', 'moz-extension:', 'blob:', 'data:']
+
+export interface FontRecord {
+  url: string
+  evaluated: boolean
+  c2pa: C2paResult | null
+}
+
+// eslint-disable-next-line @typescript-eslint/no-extraneous-class
+export class FontMonitor {
+  private static readonly _fontRecords = new Map<string, FontRecord>()
+  private static _monitoring: boolean = false
+  private static _addCallback: ((font: FontRecord) => void) | null = null
+  private static readonly performanceObserver = new PerformanceObserver((list) => {
+    list.getEntriesByType('resource').forEach((entry) => {
+      if (FontMonitor.isFontResource(entry as PerformanceResourceTiming)) {
+        FontMonitor.add(entry.name)
+      }
+    })
+  })
+
+  private static _startMonitoring (): void {
+    if (FontMonitor._monitoring) {
+      console.error('Font monitor already started')
+      return
+    }
+    FontMonitor._monitoring = true
+    // buffered: the fonts loaded before monitoring started are reported too
+    FontMonitor.performanceObserver.observe({ type: 'resource', buffered: true })
+  }
+
+  private static _stopMonitoring (): void {
+    if (!FontMonitor._monitoring) {
+      console.error('Font monitor already stopped')
+      return
+    }
+    FontMonitor.performanceObserver.disconnect()
+    FontMonitor._monitoring = false
+  }
+
+  public static add (url: string): FontRecord {
+    const existingInstance = FontMonitor._fontRecords.get(url)
+    if (existingInstance != null) {
+      return existingInstance
+    }
+    const newRecord: FontRecord = { url, evaluated: false, c2pa: null }
+    FontMonitor._fontRecords.set(url, newRecord)
+    if (FontMonitor._addCallback != null) {
+      FontMonitor._addCallback(newRecord)
+    }
+    return newRecord
+  }
+
+  // eslint-disable-next-line accessor-pairs
+  public static set onAdd (value: ((font: FontRecord) => void) | null) {
+    FontMonitor._addCallback = value
+  }
+
+  public static get monitoring (): boolean {
+    return FontMonitor._monitoring
+  }
+
+  public static set monitoring (value: boolean) {
+    value ? FontMonitor._startMonitoring() : FontMonitor._stopMonitoring()
+  }
+
+  public static get all (): FontRecord[] {
+    return Array.from(FontMonitor._fontRecords.values())
+  }
+
+  /*
+    Fonts requested by a stylesheet (@font-face) and identified by their file extension
+  */
+  public static isFontResource (entry: PerformanceResourceTiming): boolean {
+    if (entry.initiatorType !== 'css' || SOURCES_TO_IGNORE.some(source => entry.name.startsWith(source))) {
+      return false
+    }
+    try {
+      return FONT_EXTENSIONS.test(new URL(entry.name).pathname)
+    } catch {
+      return false
+    }
+  }
+}
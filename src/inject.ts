@@ -10,6 +10,7 @@ import { checkTrustListInclusion, loadTrustLists } from './trustlist'
 import { type MediaRecord } from './mediaRecord'
 import * as VisibilityMonitor from './visible'
 import { MediaMonitor } from './mediaMonitor' // requires treeshake: { moduleSideEffects: [path.resolve('src/mediaMonitor.ts')] }, in rollup.config.js
+import { FontMonitor, type FontRecord } from './fontMonitor'
 import {
   MSG_CHILD_REQUEST, MSG_FRAME_CLICK, MSG_GET_CONTAINER_OFFSET, MSG_PARENT_RESPONSE,
   MSG_REQUEST_C2PA_ENTRIES, MSG_RESPONSE_C2PA_ENTRIES, MSG_TRUSTLIST_UPDATE, MSG_OPEN_OVERLAY,
@@ -199,6 +200,7 @@ document.addEventListener('click', (event) => {
 
 export interface MSG_RESPONSE_C2PA_ENTRIES_PAYLOAD {
   name: string
+  type: 'media' | 'font'
   status: VALIDATION_STATUS
   thumbnail: string | null
 }
@@ -210,6 +212,10 @@ async function updateTrustLists (): Promise<void> {
     mediaRecord.state.c2pa.trustList = checkTrustListInclusion(mediaRecord.state.c2pa.certChain)
     setIcon(mediaRecord)
   })
+  FontMonitor.all.forEach((fontRecord) => {
+    if (fontRecord.c2pa?.certChain == null) return
+    fontRecord.c2pa.trustList = checkTrustListInclusion(fontRecord.c2pa.certChain)
+  })
 }
 
 function getC2PAStatus(c2pa: C2paResult): VALIDATION_STATUS {
@@ -217,6 +223,8 @@ function getC2PAStatus(c2pa: C2paResult): VALIDATION_STATUS {
   if (!c2pa.manifestStore.validationStatus) throw new Error('Manifest store not found')
   // if there are validation errors, return the error status
   if (c2pa.manifestStore.validationStatus.length > 0) return 'error'
+  // if the asset could not be read as declared (e.g. a mismatched media type), return the warning status
+  if (c2pa.warnings.length > 0) return 'warning'
   // if there is no trust list, return the warning status
   if (c2pa.trustList == null) return 'warning'
   // if the cert is expired, make sure the TSA time stamp is trusted
@@ -240,12 +248,15 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
 
   if (message.action === MSG_REQUEST_C2PA_ENTRIES) {
     void (async () => {
-      const c2paEntries = MediaMonitor.all.filter((mediaRecord) => mediaRecord.state.c2pa != null)
-      c2paEntries.forEach((entry) => {
-        // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-        const c2pa = entry.state.c2pa!
-        const response = {
+      const c2paEntries = [
+        ...MediaMonitor.all.map((mediaRecord) => ({ type: 'media' as const, c2pa: mediaRecord.state.c2pa })),
+        ...FontMonitor.all.map((fontRecord) => ({ type: 'font' as const, c2pa: fontRecord.c2pa }))
+      ]
+      c2paEntries.forEach(({ type, c2pa }) => {
+        if (c2pa == null) return
+        const response: MSG_RESPONSE_C2PA_ENTRIES_PAYLOAD = {
           name: c2pa.source.filename,
+          type,
           status: getC2PAStatus(c2pa),
           thumbnail: c2pa.source.thumbnail.data
         }
@@ -258,17 +269,35 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
     void updateTrustLists()
   }
   if (message.action === MSG_C2PA_RESULT_FROM_CONTEXT && _id != null) {
-    if (data?.frame !== _id.frame || data?.c2paResult == null || data.url == null || _lastContextTarget == null) return
-    if (data.url !== _lastContextTarget?.src && data.url !== _lastContextTarget?.currentSrc) {
+    if (data?.frame !== _id.frame || data?.c2paResult == null || data.url == null) return
+    const c2paResultOrError = data.c2paResult as C2paResult | C2paError
+    if (_lastContextTarget == null || (data.url !== _lastContextTarget?.src && data.url !== _lastContextTarget?.currentSrc)) {
+      // not a media element: a link to a document, or the document itself
+      void openDocumentOverlay(c2paResultOrError)
       return
     }
-    const c2paResultOrError = data.c2paResult as C2paResult | C2paError
 
     MediaMonitor.add(_lastContextTarget)
     void handleValidationResult(_lastContextTarget, c2paResultOrError)
   }
 })
 
+/*
+  Documents, such as PDFs, have no media element to attach an icon to,
+  so the overlay is opened next to the link (or at the top of the page) instead.
+*/
+async function openDocumentOverlay (c2paResult: C2paResult | C2paError): Promise<void> {
+  if (c2paResult instanceof Error || c2paResult.manifestStore == null) {
+    console.error('Error validating document:', c2paResult)
+    return
+  }
+  const offsets = _lastContextTarget != null ? await getOffsets(_lastContextTarget) : await getParentOffset()
+  sendToContent({
+    action: MSG_OPEN_OVERLAY,
+    data: { c2paResult, position: { x: offsets.x + (_lastContextTarget != null ? offsets.width : 0), y: offsets.y } }
+  })
+}
+
 function sendToContent (message: unknown): void {
   void chrome.runtime.sendMessage({ action: MSG_FORWARD_TO_CONTENT, data: message })
 }
@@ -297,6 +326,7 @@ MediaMonitor.onMonitoringStart = (): void => {
     setIcon(mediaRecord)
     VisibilityMonitor.observe(mediaRecord)
   })
+  FontMonitor.monitoring = true
 }
 
 MediaMonitor.onMonitoringStop = (): void => {
@@ -304,6 +334,26 @@ MediaMonitor.onMonitoringStop = (): void => {
     mediaRecord.icon = null
     VisibilityMonitor.unobserve(mediaRecord)
   })
+  FontMonitor.monitoring = false
+}
+
+/*
+  Fonts are not displayed as elements, so they are validated as soon as they are found
+  and only listed in the popup
+*/
+FontMonitor.onAdd = (fontRecord: FontRecord): void => {
+  if (fontRecord.evaluated) return
+  fontRecord.evaluated = true
+  void c2paValidateImage(fontRecord.url)
+    .then((c2paResult) => {
+      if (c2paResult instanceof Error || c2paResult.manifestStore == null) {
+        return // This is not a c2pa font
+      }
+      fontRecord.c2pa = c2paResult
+    })
+    .catch((error) => {
+      console.error('Error validating font:', error)
+    })
 }
 
 VisibilityMonitor.onVisible((mediaRecord: MediaRecord): void => {
@@ -5,7 +5,7 @@
 
 import { type TrustListInfo, getTrustListInfos, removeTrustList, addTSATrustFile, addTrustFile } from './trustlistProxy.js'
 import packageManifest from '../package.json'
-import { AUTO_SCAN_DEFAULT, MSG_AUTO_SCAN_UPDATED, MSG_REQUEST_C2PA_ENTRIES, MSG_RESPONSE_C2PA_ENTRIES } from './constants.js'
+import { AUTO_SCAN_DEFAULT, MSG_AUTO_SCAN_UPDATED, MSG_REQUEST_C2PA_ENTRIES, MSG_RESPONSE_C2PA_ENTRIES, SIDECAR_LOOKUP_DEFAULT } from './constants.js'
 import { type MSG_RESPONSE_C2PA_ENTRIES_PAYLOAD } from './inject.js'
 import { type ToggleSwitch } from './components/toggle.js'
 
@@ -30,6 +30,16 @@ document.addEventListener('DOMContentLoaded', function (): void {
     void chrome.runtime.sendMessage({ action: MSG_AUTO_SCAN_UPDATED, data: checked })
   })
 
+  const sidecarLookupToggle = document.getElementById('toggleSidecarLookup') as ToggleSwitch
+
+  chrome.storage.local.get('sidecarLookup', (result) => {
+    sidecarLookupToggle.checked = result.sidecarLookup ?? SIDECAR_LOOKUP_DEFAULT
+  })
+
+  sidecarLookupToggle.addEventListener('change', (event) => {
+    void chrome.storage.local.set({ sidecarLookup: (event as CustomEvent).detail.checked })
+  })
+
   // Add event listeners to switch tabs
   const tabs = document.querySelectorAll('.tab')
   const tabContents = document.querySelectorAll('.tab-content')
@@ -76,7 +86,7 @@ function addValidationResult (validationResult: MSG_RESPONSE_C2PA_ENTRIES_PAYLOA
   const icon = validationResult.status === 'error' ? iconUrl.invalid : validationResult.status === 'warning' ? iconUrl.untrusted : iconUrl.valid
 
   if (validationResult.thumbnail === '') {
-    validationResult.thumbnail = chrome.runtime.getURL('icons/video.svg')
+    validationResult.thumbnail = chrome.runtime.getURL(validationResult.type === 'font' ? 'icons/font.svg' : 'icons/video.svg')
   }
 
   const html = `
@@ -12,6 +12,10 @@ export function bytesToHex (uint8Array: Uint8Array): string {
   return Array.from(uint8Array).map(b => b.toString(16).padStart(2, '0')).join('')
 }
 
+export function hexToBytes (hex: string): Uint8Array {
+  return Uint8Array.from(hex.match(/[0-9a-f]{2}/gi) ?? [], (byte) => parseInt(byte, 16))
+}
+
 export function formatUUID (uuid: string): string {
   return `${uuid.substring(0, 8)}-${uuid.substring(8, 12)}-${uuid.substring(12, 16)}-${uuid.substring(16, 20)}-${uuid.substring(20)}`
 }
@@ -6,7 +6,10 @@
 import { LitElement, html, css, type TemplateResult } from 'lit'
 import { customElement, property } from 'lit/decorators.js'
 import { type ExtensionC2paIngredient, type C2paResult } from './c2pa'
+import { type BmffFragment } from './certs/bmff'
 import { type CertificateInfoExtended } from './certs/certs'
+import { type SignatureResult } from './certs/cose'
+import { type ManifestSignature } from './certs/manifestSignatures'
 import { MSG_L3_INSPECT_URL } from './constants'
 
 /*
@@ -102,6 +105,11 @@ export class C2paOverlay extends LitElement {
         line-height: 1.2;
       }
 
+      #divSource {
+        line-height: 1.2;
+        margin-bottom: 5px;
+      }
+
       #inspectionLink {
 
       }
@@ -133,31 +141,31 @@ export class C2paOverlay extends LitElement {
         padding-right: 15px;
       }
 
-      #errors {
+      #errors, #warnings {
         border-radius: var(--border-radius);
         background-color: var(--background-highlight);
         padding: 12px 5px 12px 5px;
       }
 
-      #errorHeader {
+      #errorHeader, #warningHeader {
         display: grid;
         grid-template-columns: auto 1fr;
         align-items: center;
         padding-right: 15px;
       }
 
-      #errorIcon {
+      #errorIcon, #warningIcon {
         width: 20px;
         height: 20px;
         padding: 5px;
       }
 
-      #errorText {
+      #errorText, #warningText {
         text-align: center;
         padding: 0px;
       }
 
-      #errorList {
+      #errorList, #warningList {
         text-align: left;
       }
 
@@ -275,7 +283,7 @@ export class C2paOverlay extends LitElement {
 
   private trustList?: string
 
-  private status?: { errors: boolean, trusted: boolean }
+  private status?: { errors: boolean, warnings: boolean, trusted: boolean }
 
   @property({ type: Boolean })
     additionalInfoCollapsed = true
@@ -331,17 +339,19 @@ export class C2paOverlay extends LitElement {
     this.trustList = newValue?.trustList?.tlInfo.name ?? 'unknown'
   }
 
-  private setStatus (c2paResult: C2paResult): { errors: boolean, trusted: boolean } {
+  private setStatus (c2paResult: C2paResult): { errors: boolean, warnings: boolean, trusted: boolean } {
     const errors = (c2paResult.manifestStore?.validationStatus ?? []).length > 0
+    const warnings = (c2paResult.warnings ?? []).length > 0
     const trusted = c2paResult.trustList != null
-    return { errors, trusted }
+    return { errors, warnings, trusted }
   }
 
-  private validationSection (validation: string[]): TemplateResult[] {
+  private validationSection (validation: string[], warningMessages: string[]): TemplateResult[] {
     const isTrusted = this.status?.trusted === true
     const areErrors = this.status?.errors === true
+    const areWarnings = this.status?.warnings === true
 
-    if (isTrusted && !areErrors) {
+    if (isTrusted && !areErrors && !areWarnings) {
       return []
     }
 
@@ -362,6 +372,21 @@ export class C2paOverlay extends LitElement {
       )
     }
 
+    const warnings = (warningMessages ?? []).map((v) => html`<li class="errorEntry">${v}</li>`)
+    if (areWarnings) {
+      result.push(html`
+        <div id="warnings">
+          <div id="warningHeader">
+            <img id="warningIcon" src="icons/!.svg"/>
+            <div id="warningText"><span class="bold">Warnings</span></div>
+          </div>
+          <div id="warningList">
+            <ul> ${warnings}</ul>
+          </div>
+        </div>`
+      )
+    }
+
     if (!isTrusted) {
       result.push(html`
       <div id="untrusted">
@@ -428,6 +453,11 @@ export class C2paOverlay extends LitElement {
                       </div>
                   </div>
               </div>
+              ${c2paResult.manifestSource?.type === 'sidecar'
+              ? html`<div id="divSource">Credentials from sidecar manifest <span class="bold">${decodeURIComponent(c2paResult.manifestSource.url.split('/').pop() ?? '')}</span></div>`
+              : c2paResult.manifestSource?.type === 'remote'
+                ? html`<div id="divSource">Credentials obtained remotely from <span class="bold" title="${c2paResult.manifestSource.url}">${new URL(c2paResult.manifestSource.url).host}</span></div>`
+                : ''}
               ${!trusted
               ? ''
               : html`<div id="divTrust">Part of trust list: <span class="bold">${this.trustList}</span>
@@ -445,7 +475,7 @@ export class C2paOverlay extends LitElement {
               </div>`}
           </div>
       </div>
-      ${this.validationSection(c2paResult.manifestStore.validationStatus)}
+      ${this.validationSection(c2paResult.manifestStore.validationStatus, c2paResult.warnings)}
       <div id="inspectionLink">
           For more details, inspect the image in the <span id="mciLink" @click="${this.handleClick}"><u>Microsoft Content Integrity</u></span> page.
       </div>
@@ -464,13 +494,27 @@ export class C2paOverlay extends LitElement {
         ${useSeparators ? html`<div class="separator"></div>` : ''}
         <c2pa-collapsible>
           <span slot="header">Signature</span>
-          <div slot="content"><c2pa-grid-display .items="${signatureItems(activeManifest.signatureInfo ?? null)}"></c2pa-grid-display></div>
+          <div slot="content"><c2pa-grid-display .items="${signatureItems(activeManifest.signatureInfo ?? null, this.c2paResult?.signature ?? null)}"></c2pa-grid-display></div>
         </c2pa-collapsible>
+        ${Object.keys(c2paResult.manifestSignatures).length < 2
+        ? ''
+        : html`${useSeparators ? html`<div class="separator"></div>` : ''}
+        <c2pa-collapsible>
+          <span slot="header">Manifests</span>
+          <div slot="content"><c2pa-grid-display .items="${manifestSignatureItems(c2paResult.manifestSignatures, activeManifest.key)}"></c2pa-grid-display></div>
+        </c2pa-collapsible>`}
         ${useSeparators ? html`<div class="separator"></div>` : ''}
         <c2pa-collapsible>
           <span slot="header">Certificates</span>
           <div slot="content"><c2pa-grid-display .items="${certificateItems(this.c2paResult?.certChain ?? [])}"></c2pa-grid-display></div>
         </c2pa-collapsible>
+        ${c2paResult.fragments == null
+        ? ''
+        : html`${useSeparators ? html`<div class="separator"></div>` : ''}
+        <c2pa-collapsible>
+          <span slot="header">Fragments</span>
+          <div slot="content"><c2pa-grid-display .items="${fragmentItems(c2paResult.fragments)}"></c2pa-grid-display></div>
+        </c2pa-collapsible>`}
       </div>
       <button class="button" @click="${this.toggleAdditionalInfo}">
         ${this.additionalInfoCollapsed ? 'View more' : 'View less'}
@@ -641,19 +685,59 @@ function certificateItems (certificates: CertificateInfoExtended[]): IconTextIte
   })
 }
 
-function signatureItems (signature: { issuer: string }): IconTextItem[] {
+/*
+  A fragment with a merkle box is shown as unverified when the manifest has no merkle tree to hash it against
+*/
+function fragmentItems (fragments: BmffFragment[]): IconTextItem[] {
+  return fragments.map((fragment) => {
+    return {
+      icon: fragment.error != null ? 'icons/x.svg' : fragment.verified ? 'icons/verified.svg' : 'icons/!.svg',
+      text: [
+        `Fragment ${fragment.index} (offset ${fragment.offset}, ${fragment.length} bytes)`,
+        fragment.error ?? `Merkle leaf ${fragment.merkle?.location}${fragment.verified ? '' : ' (unverified)'}`
+      ]
+    }
+  })
+}
+
+function signatureItems (signature: { issuer: string }, verification: SignatureResult | null): IconTextItem[] {
   if (signature == null) {
     return [{
       icon: unknownSvg,
       text: ['None']
     }]
   }
-  return [{
+  const items = [{
     icon: signSvg,
     text: [
       signature.issuer ?? 'unknown'
     ]
   }]
+  if (verification != null) {
+    items.push({
+      icon: verification.valid === false ? 'icons/x.svg' : signSvg,
+      text: [
+        `Algorithm: ${verification.alg}${verification.algDescription != null ? ` (${verification.algDescription})` : ''}`
+      ]
+    })
+  }
+  return items
+}
+
+/**
+ * Lists the manifests of the manifest store in store order, each with its signer and the verification of its claim signature.
+ */
+export function manifestSignatureItems (manifestSignatures: Record<string, ManifestSignature>, activeLabel: string): IconTextItem[] {
+  return Object.entries(manifestSignatures).map(([label, { signature, certChain }]) => {
+    return {
+      icon: signature.valid === false ? 'icons/x.svg' : signature.valid == null ? 'icons/!.svg' : signSvg,
+      text: [
+        label === activeLabel ? `${label} (active)` : label,
+        certChain?.[0]?.subject.CN ?? 'unknown signer',
+        ...(signature.valid === true ? [`Algorithm: ${signature.alg}`] : signature.errors)
+      ]
+    }
+  })
 }
 
 function ingredientItems (ingredients: ExtensionC2paIngredient[] | undefined): IconTextItem[] {
@@ -0,0 +1,74 @@
+/*
+ *  Copyright (c) Microsoft Corporation.
+ *  Licensed under the MIT license.
+ */
+
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { decodeAssertions, decodeBoxHash, decodeCollectionHash, decodeDataHash, type UnknownAssertion } from '../../src/certs/assertions.js'
+import { encode, type CBORType } from '../../src/certs/cbor.js'
+import { decode as jumbfDecode, manifests } from '../../src/certs/jumbf.js'
+import { ascii, contentBox, jumbfBox, signedManifestStore } from './helpers.js'
+
+function cborAssertion (label: string, value: CBORType): Uint8Array {
+  return jumbfBox(label, 'cbor', contentBox('cbor', encode(value)))
+}
+
+/*
+  A manifest whose assertion store holds the assertions; the parser does not check the superboxes' content types
+*/
+function manifest (...assertions: Uint8Array[]): ReturnType<typeof jumbfDecode> {
+  return jumbfDecode(jumbfBox('urn:c2pa:6a1e2b9c-2d6a-4d7e-9a57-1c1f4b0e2f11', 'c2ma', jumbfBox('c2pa.assertions', 'c2as', ...assertions)))
+}
+
+describe('assertions', () => {
+  it('decodes the assertions of the signed manifest store', () => {
+    const [actions, dataHash] = decodeAssertions(manifests(jumbfDecode(signedManifestStore()))[0])
+    assert.equal(actions.type, 'c2pa.actions')
+    assert.ok(actions.type === 'c2pa.actions' && actions.data.actions.length > 0)
+    assert.equal(dataHash.type, 'c2pa.hash.data')
+    assert.ok(dataHash.type === 'c2pa.hash.data' && /^[0-9a-f]{64}$/.test(dataHash.data.hash))
+  })
+
+  it('decodes the version and instance suffixes of the labels, and JSON and embedded file assertions', () => {
+    const assertions = decodeAssertions(manifest(
+      cborAssertion('c2pa.actions.v2__1', { actions: [{ action: 'c2pa.created', when: new Date('2024-01-02T03:04:05Z') }] }),
+      jumbfBox('stds.schema-org.CreativeWork', 'json', contentBox('json', ascii('{"@type":"CreativeWork","author":[{"name":"A"}]}'))),
+      jumbfBox('c2pa.thumbnail.claim.jpeg', 'bfdb', contentBox('bfdb', ascii('\0image/jpeg\0')), contentBox('bidb', new Uint8Array([0xFF, 0xD8])))
+    ))
+    assert.deepEqual(assertions, [
+      { label: 'c2pa.actions.v2__1', type: 'c2pa.actions', version: 2, data: { actions: [{ action: 'c2pa.created', when: '2024-01-02T03:04:05.000Z' }] } },
+      { label: 'stds.schema-org.CreativeWork', type: 'stds.schema-org.CreativeWork', version: 1, data: { '@type': 'CreativeWork', author: [{ name: 'A' }] } },
+      { label: 'c2pa.thumbnail.claim.jpeg', type: 'c2pa.thumbnail', version: 1, data: { mediaType: 'image/jpeg', data: 'data:image/jpeg;base64,/9g=' } }
+    ])
+  })
+
+  it('returns other assertions as unknown, with their content as JSON', () => {
+    const [custom] = decodeAssertions(manifest(cborAssertion('com.example.custom', new Map<CBORType, CBORType>([[1, new Uint8Array([0xAB])], ['big', 2n ** 64n]]))))
+    assert.deepEqual(custom, { label: 'com.example.custom', type: 'unknown', version: 1, contentType: 'cbor', data: { 1: 'ab', big: '18446744073709551616' } })
+  })
+
+  it('returns malformed standard assertions as unknown, with the reason', () => {
+    const assertions = decodeAssertions(manifest(
+      cborAssertion('c2pa.hash.data', { alg: 'sha256', exclusions: [] }),
+      cborAssertion('c2pa.training-mining', { entries: { 'c2pa.ai_training': { use: 'maybe' } } }),
+      jumbfBox('c2pa.actions', 'cbor', contentBox('cbor', new Uint8Array([0x62, 0x61])))
+    )) as UnknownAssertion[]
+    assert.deepEqual(assertions.map(({ type, error }) => [type, error]), [
+      ['unknown', 'Expected hash to be a byte string'],
+      ['unknown', 'Invalid training and data mining use: maybe'],
+      ['unknown', 'CBOR length 2 exceeds the remaining 1 bytes at offset 0']
+    ])
+    assert.deepEqual(assertions[0].data, { alg: 'sha256', exclusions: [] })
+    assert.equal(assertions[2].data, null)
+  })
+
+  it('validates the structure of hash assertions', () => {
+    assert.deepEqual(decodeDataHash({ hash: new Uint8Array([1]), exclusions: [{ start: 0, length: 2 }] }), { hash: '01', exclusions: [{ start: 0, length: 2 }] })
+    assert.throws(() => decodeDataHash({ hash: new Uint8Array([1]), exclusions: [{ start: '0', length: 2 }] }), /Expected exclusion start to be a number/)
+    assert.deepEqual(decodeBoxHash({ boxes: [{ names: ['SOI'], hash: new Uint8Array([2]) }] }), { boxes: [{ names: ['SOI'], hash: '02' }] })
+    assert.throws(() => decodeBoxHash({ boxes: [{ names: 'SOI', hash: new Uint8Array([2]) }] }), /Expected box names to be an array/)
+    assert.deepEqual(decodeCollectionHash({ uris: [{ uri: 'a.jpg', hash: new Uint8Array([3]) }] }), { uris: [{ uri: 'a.jpg', hash: '03' }] })
+    assert.throws(() => decodeCollectionHash({ uris: [{ uri: 'a.jpg' }] }), /Expected uri hash to be a byte string/)
+  })
+})
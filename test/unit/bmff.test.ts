@@ -0,0 +1,181 @@
+/*
+ *  Copyright (c) Microsoft Corporation.
+ *  Licensed under the MIT license.
+ */
+
+import assert from 'node:assert/strict'
+import { createHash } from 'node:crypto'
+import { describe, it } from 'node:test'
+import { MIME } from '../../src/constants.js'
+import { type BmffHashAssertion } from '../../src/certs/assertions.js'
+import { decodeFileType, getBmffFragments, getBmffMimeType } from '../../src/certs/bmff.js'
+import { encode, type CBORType } from '../../src/certs/cbor.js'
+import { verifyFragments } from '../../src/certs/hardBinding.js'
+import { decode as jumbfDecode } from '../../src/certs/jumbf.js'
+import { getManifestFromMetadata } from '../../src/certs/metadata.js'
+import { sniffMimeType } from '../../src/certs/sniff.js'
+import { ascii, concat, readMedia, signedManifestStore, uint32 } from './helpers.js'
+
+const C2PA_UUID = Uint8Array.from(Buffer.from('d8fec3d61b0e483c92975828877ec481', 'hex'))
+
+function box (type: string, ...data: Uint8Array[]): Uint8Array {
+  const content = concat(...data)
+  return concat(uint32(8 + content.length), ascii(type), content)
+}
+
+function ftyp (majorBrand: string, ...compatibleBrands: string[]): Uint8Array {
+  return box('ftyp', ascii(majorBrand), uint32(0), ...compatibleBrands.map((brand) => ascii(brand)))
+}
+
+/*
+  A C2PA 'manifest' box: the C2PA uuid, version and flags, the purpose, and the offset of the first merkle box (none)
+*/
+function manifestBox (): Uint8Array {
+  return box('uuid', C2PA_UUID, uint32(0), ascii('manifest\0'), new Uint8Array(8), signedManifestStore())
+}
+
+/*
+  A C2PA 'merkle' box: the C2PA uuid, version and flags, the purpose, and the merkle map of the fragment that follows
+*/
+function merkleBox (map: CBORType): Uint8Array {
+  return box('uuid', C2PA_UUID, uint32(0), ascii('merkle\0'), encode(map))
+}
+
+function digest (alg: string, ...data: Uint8Array[]): Uint8Array {
+  return new Uint8Array(createHash(alg).update(concat(...data)).digest())
+}
+
+function hex (hash: Uint8Array): string {
+  return Buffer.from(hash).toString('hex')
+}
+
+/*
+  A fragmented MP4 file of three fragments, each preceded by a merkle box with the proof from its leaf to the root:
+  the leaves L0, L1 and L2 are the hashes of the fragments, and the root is H(H(L0 L1) L2), L2 having no sibling
+*/
+function fragmentedMp4 (alg = 'sha256'): { file: Uint8Array, leaves: Uint8Array[], pair: Uint8Array, root: Uint8Array } {
+  const fragments = [1, 2, 3].map((n) => concat(box('moof', box('mfhd', uint32(0), uint32(n))), box('mdat', new Uint8Array(16).fill(n))))
+  const leaves = fragments.map((fragment) => digest(alg, fragment))
+  const pair = digest(alg, leaves[0], leaves[1])
+  const proofs = [[leaves[1], leaves[2]], [leaves[0], leaves[2]], [pair]]
+  const file = concat(ftyp('iso6', 'dash'),
+    ...fragments.flatMap((fragment, location) => [merkleBox({ uniqueId: 1, localId: 1, location, hashes: proofs[location] }), fragment]))
+  return { file, leaves, pair, root: digest(alg, pair, leaves[2]) }
+}
+
+describe('bmff', () => {
+  it('maps the major brand, then the compatible brands in order, to a media type', () => {
+    const cases: Array<[string[], string | null]> = [
+      [['M4A ', 'isom', 'mp42'], MIME.AUDIO_MP4],
+      [['isom', 'M4A '], MIME.MP4],
+      [['mif1', 'heic'], MIME.HEIF],
+      [['crx ', 'heic', 'mif1'], MIME.HEIC],
+      [['avif', 'mif1', 'miaf'], MIME.AVIF],
+      [['qt  '], MIME.QUICKTIME],
+      [['3gp5', 'isom'], MIME.VIDEO_3GPP],
+      [['3g2a'], MIME.VIDEO_3GPP2],
+      [['M4V ', 'M4A '], MIME.X_M4V],
+      [['dash', 'iso6'], MIME.MP4],
+      [['abcd', 'efgh'], null]
+    ]
+    for (const [brands, mimeType] of cases) {
+      assert.equal(getBmffMimeType(ftyp(brands[0], ...brands.slice(1))), mimeType, brands.join(', '))
+    }
+  })
+
+  it('sniffs a BMFF file of unknown brands as application/mp4', () => {
+    assert.equal(sniffMimeType(ftyp('abcd', 'efgh')), MIME.APPLICATION_MP4)
+    assert.equal(sniffMimeType(ftyp('M4A ')), MIME.AUDIO_MP4)
+  })
+
+  it('finds the brands of a QuickTime file whose ftyp box follows a wide box, and recognizes one without an ftyp box', () => {
+    const movie = concat(box('wide'), ftyp('qt  ', 'qt  '), box('mdat', new Uint8Array(4)))
+    assert.deepEqual(decodeFileType(movie), { majorBrand: 'qt  ', minorVersion: 0, compatibleBrands: ['qt  '] })
+    assert.equal(sniffMimeType(movie), MIME.QUICKTIME)
+
+    const withoutFileType = concat(box('mdat', new Uint8Array(4)), box('moov', box('mvhd', new Uint8Array(100))))
+    assert.equal(decodeFileType(withoutFileType), null)
+    assert.equal(sniffMimeType(withoutFileType), MIME.QUICKTIME)
+  })
+
+  it('extracts the manifest store of every BMFF media type, and of unlisted ones from their brands', async () => {
+    const types: Array<[string, string]> = [
+      [MIME.AUDIO_MP4, 'M4A '], [MIME.X_M4A, 'M4A '], [MIME.AUDIO_3GPP, '3gp5'], [MIME.HEIC, 'heic'], [MIME.HEIF, 'mif1'],
+      [MIME.X_M4V, 'M4V '], [MIME.QUICKTIME, 'qt  '], [MIME.VIDEO_3GPP2, '3g2a'], ['video/iso.segment', 'dash']
+    ]
+    for (const [mimeType, brand] of types) {
+      const file = concat(ftyp(brand), manifestBox(), box('mdat'))
+      assert.deepEqual(await getManifestFromMetadata(mimeType, file), signedManifestStore(), mimeType)
+    }
+  })
+
+  it('extracts the manifest store of signed MP4 and AVIF files', async () => {
+    for (const [name, mimeType] of [['cards_trusted.mp4', MIME.MP4], ['cards_trusted.avif', MIME.AVIF]]) {
+      const file = readMedia(name)
+      assert.equal(sniffMimeType(file), mimeType)
+      const store = await getManifestFromMetadata(mimeType, file)
+      assert.ok(store != null)
+      assert.equal(jumbfDecode(store).label, 'c2pa')
+    }
+  })
+  it('lists the fragments of a fragmented MP4 file with their merkle boxes', () => {
+    const { file, leaves, pair } = fragmentedMp4()
+    const fragments = getBmffFragments(file)
+    assert.ok(fragments != null)
+    assert.deepEqual(fragments.map(({ index, merkle, covered, verified, error }) => ({ index, merkle, covered, verified, error })), [
+      { index: 0, merkle: { uniqueId: 1, localId: 1, location: 0, hashes: [hex(leaves[1]), hex(leaves[2])] }, covered: true, verified: false, error: null },
+      { index: 1, merkle: { uniqueId: 1, localId: 1, location: 1, hashes: [hex(leaves[0]), hex(leaves[2])] }, covered: true, verified: false, error: null },
+      { index: 2, merkle: { uniqueId: 1, localId: 1, location: 2, hashes: [hex(pair)] }, covered: true, verified: false, error: null }
+    ])
+    assert.equal(getBmffFragments(concat(ftyp('iso6'), box('moov'), box('mdat'))), null)
+  })
+
+  it('verifies each fragment against the root, or another stored row, of the merkle tree', async () => {
+    const { file, leaves, pair, root } = fragmentedMp4()
+    const fragments = getBmffFragments(file) ?? []
+    const rootOnly: BmffHashAssertion = { alg: 'sha256', merkle: [{ uniqueId: 1, localId: 1, count: 3, hashes: [hex(root)] }] }
+    assert.deepEqual((await verifyFragments(file, fragments, rootOnly)).map(({ verified, error }) => ({ verified, error })),
+      [{ verified: true, error: null }, { verified: true, error: null }, { verified: true, error: null }])
+    for (const hashes of [[hex(pair), hex(leaves[2])], leaves.map(hex)]) {
+      const assertion: BmffHashAssertion = { merkle: [{ uniqueId: 1, localId: 1, count: 3, hashes }] }
+      assert.ok((await verifyFragments(file, fragments, assertion)).every((fragment) => fragment.verified), `${hashes.length} stored hashes`)
+    }
+  })
+
+  it('hashes the fragments with the algorithm of the merkle tree, or else of the assertion', async () => {
+    const { file, root } = fragmentedMp4('sha384')
+    const fragments = getBmffFragments(file) ?? []
+    const ofTree: BmffHashAssertion = { alg: 'sha256', merkle: [{ uniqueId: 1, localId: 1, count: 3, alg: 'sha384', hashes: [hex(root)] }] }
+    assert.ok((await verifyFragments(file, fragments, ofTree)).every((fragment) => fragment.verified))
+    const ofAssertion: BmffHashAssertion = { alg: 'sha384', merkle: [{ uniqueId: 1, localId: 1, count: 3, hashes: [hex(root)] }] }
+    assert.ok((await verifyFragments(file, fragments, ofAssertion)).every((fragment) => fragment.verified))
+    const unsupported: BmffHashAssertion = { alg: 'md5', merkle: [{ uniqueId: 1, localId: 1, count: 3, hashes: [hex(root)] }] }
+    assert.deepEqual((await verifyFragments(file, fragments, unsupported)).map(({ error }) => error), Array(3).fill('unsupported hash algorithm md5'))
+  })
+
+  it('reports the fragments that do not match the merkle tree', async () => {
+    const { file, leaves, root } = fragmentedMp4()
+    const fragments = getBmffFragments(file) ?? []
+    const tampered = file.slice()
+    tampered[fragments[1].offset + fragments[1].length - 1] ^= 0xFF
+    const assertion: BmffHashAssertion = { alg: 'sha256', merkle: [{ uniqueId: 1, localId: 1, count: 3, hashes: [hex(root)] }] }
+    const verified = await verifyFragments(tampered, fragments, assertion)
+    assert.deepEqual(verified.map(({ verified }) => verified), [true, false, true])
+    assert.match(verified[1].error ?? '', new RegExp(`^hash does not match merkle tree 1/1 at location 1: expected ${hex(root)}, actual [0-9a-f]{64}$`))
+
+    const leafRow: BmffHashAssertion = { merkle: [{ uniqueId: 1, localId: 1, count: 3, hashes: leaves.map(hex) }] }
+    assert.equal((await verifyFragments(tampered, fragments, leafRow))[1].error,
+      `hash does not match merkle tree 1/1 at location 1: expected ${hex(leaves[1])}, actual ${hex(digest('sha256', tampered.subarray(fragments[1].offset, fragments[1].offset + fragments[1].length)))}`)
+  })
+
+  it('reports fragments without a merkle tree, outside the tree or with a short proof', async () => {
+    const { file, root } = fragmentedMp4()
+    const fragments = getBmffFragments(file) ?? []
+    const otherTrack: BmffHashAssertion = { merkle: [{ uniqueId: 2, localId: 1, count: 3, hashes: [hex(root)] }] }
+    assert.equal((await verifyFragments(file, fragments, otherTrack))[0].error, 'no merkle tree for uniqueId 1 and localId 1')
+    const smaller: BmffHashAssertion = { merkle: [{ uniqueId: 1, localId: 1, count: 2, hashes: [hex(root)] }] }
+    assert.equal((await verifyFragments(file, fragments, smaller))[2].error, 'merkle location 2 is outside the tree of 2 leaves')
+    const larger: BmffHashAssertion = { merkle: [{ uniqueId: 1, localId: 1, count: 5, hashes: [hex(root)] }] }
+    assert.equal((await verifyFragments(file, fragments, larger))[2].error, 'merkle proof of location 2 is too short')
+  })
+})
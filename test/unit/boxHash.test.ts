@@ -0,0 +1,60 @@
+/*
+ *  Copyright (c) Microsoft Corporation.
+ *  Licensed under the MIT license.
+ */
+
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { decodeBoxMap, type AssetBox } from '../../src/certs/boxHash.js'
+import { readMedia } from './helpers.js'
+
+/*
+  The boxes follow each other, from the start of the asset
+*/
+function assertContiguous (boxes: AssetBox[]): void {
+  boxes.reduce((offset, box) => {
+    assert.equal(box.offset, offset)
+    return box.offset + box.length
+  }, 0)
+}
+
+describe('boxHash', () => {
+  it('maps the marker segments of a JPEG image', () => {
+    const boxes = decodeBoxMap(readMedia('cards.jpg'))
+    assert.ok(boxes != null)
+    assertContiguous(boxes)
+    assert.equal(boxes[0].name, 'SOI')
+    assert.equal(boxes[boxes.length - 1].name, 'EOI')
+    assert.ok(boxes.some((box) => box.name === 'SOS'))
+    assert.ok(!boxes.some((box) => box.name === 'C2PA'))
+  })
+
+  it('maps the consecutive APP11 segments of a JPEG manifest store to a single C2PA box', () => {
+    const boxes = decodeBoxMap(readMedia('cards_trusted.jpg'))
+    assert.ok(boxes != null)
+    assertContiguous(boxes)
+    assert.equal(boxes.filter((box) => box.name === 'C2PA').length, 1)
+    assert.ok(!boxes.some((box) => box.name === 'APP11'))
+  })
+
+  it('maps the signature and chunks of a PNG image, naming the caBX chunk C2PA', () => {
+    const boxes = decodeBoxMap(readMedia('cards_trusted.png'))
+    assert.ok(boxes != null)
+    assertContiguous(boxes)
+    assert.deepEqual(boxes[0], { name: 'PNGh', offset: 0, length: 8 })
+    assert.equal(boxes[1].name, 'IHDR')
+    assert.equal(boxes[boxes.length - 1].name, 'IEND')
+    assert.equal(boxes.filter((box) => box.name === 'C2PA').length, 1)
+  })
+
+  it('returns null for other formats', () => {
+    assert.equal(decodeBoxMap(readMedia('cards.gif')), null)
+  })
+
+  it('rejects a JPEG image with data between marker segments', () => {
+    const jpeg = readMedia('cards.jpg').slice()
+    // the first byte of the segment after SOI
+    jpeg[2] = 0x00
+    assert.throws(() => decodeBoxMap(jpeg), /Invalid JPEG marker at offset 2/)
+  })
+})
@@ -0,0 +1,134 @@
+/*
+ *  Copyright (c) Microsoft Corporation.
+ *  Licensed under the MIT license.
+ */
+
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { CBORSimpleValue, CBORTag, decode, encode, type CBORType } from '../../src/certs/cbor.js'
+import { decode as jumbfDecode, isContentBox, type ContentBox, type JumbfBox } from '../../src/certs/jumbf.js'
+import { signedManifestStore } from './helpers.js'
+
+/*
+  The examples are from RFC 8949, appendix A
+*/
+function hex (text: string): Uint8Array {
+  return new Uint8Array(Buffer.from(text.replace(/\s/g, ''), 'hex'))
+}
+
+/*
+  The CBOR content boxes of a manifest store: the claims, the assertions and the signatures
+*/
+function cborBoxes (box: JumbfBox): ContentBox[] {
+  return box.boxes.flatMap((child) => isContentBox(child) ? (child.type === 'cbor' ? [child] : []) : cborBoxes(child))
+}
+
+describe('cbor decode', () => {
+  it('decodes half, single and double precision floats', () => {
+    assert.equal(decode(hex('f93c00')), 1)
+    assert.equal(decode(hex('f97bff')), 65504)
+    assert.equal(decode(hex('f90001')), 5.960464477539063e-8)
+    assert.equal(decode(hex('fa47c35000')), 100000)
+    assert.equal(decode(hex('fb3ff199999999999a')), 1.1)
+    assert.equal(decode(hex('f9fc00')), -Infinity)
+    assert.ok(Number.isNaN(decode(hex('f97e00'))))
+  })
+
+  it('decodes integers beyond the safe integer range and bignums to a bigint', () => {
+    assert.equal(decode(hex('1b001fffffffffffff')), Number.MAX_SAFE_INTEGER)
+    assert.equal(decode(hex('1b0020000000000000')), 2n ** 53n)
+    assert.equal(decode(hex('1bffffffffffffffff')), 18446744073709551615n)
+    assert.equal(decode(hex('3bffffffffffffffff')), -18446744073709551616n)
+    assert.equal(decode(hex('c249010000000000000000')), 18446744073709551616n)
+    assert.equal(decode(hex('c349010000000000000000')), -18446744073709551617n)
+  })
+
+  it('decodes indefinite-length strings, arrays and maps', () => {
+    assert.deepEqual(decode(hex('5f42010243030405ff')), hex('0102030405'))
+    assert.equal(decode(hex('7f657374726561646d696e67ff')), 'streaming')
+    assert.deepEqual(decode(hex('9f018202039f0405ffff')), [1, [2, 3], [4, 5]])
+    assert.deepEqual(decode(hex('bf61610161629f0203ffff')), { a: 1, b: [2, 3] })
+  })
+
+  it('keeps integer map keys', () => {
+    assert.deepEqual(decode(hex('a201020304')), new Map([[1, 2], [3, 4]]))
+    assert.deepEqual(decode(hex('a2 01 02 6161 03')), new Map<CBORType, CBORType>([[1, 2], ['a', 3]]))
+  })
+
+  it('decodes dates and tags', () => {
+    const date = new Date('2013-03-21T20:04:00Z')
+    assert.deepEqual(decode(hex('c074323031332d30332d32315432303a30343a30305a')), date)
+    assert.deepEqual(decode(hex('c11a514b67b0')), date)
+    assert.deepEqual(decode(hex('d818456449455446')), new CBORTag('EncodedCBOR', hex('6449455446')))
+    assert.deepEqual(decode(hex('d2 80')), new CBORTag('COSE_Sign1', []))
+    assert.deepEqual(decode(hex('d9 03e8 00')), new CBORTag(1000, 0))
+    assert.equal(decode(hex('d9d9f7 6161')), 'a')
+  })
+
+  it('reports malformed input with its offset', () => {
+    assert.throws(() => decode(hex('62 61')), /CBOR length 2 exceeds the remaining 1 bytes at offset 0/)
+    assert.throws(() => decode(hex('82 01 61')), /CBOR length 1 exceeds the remaining 0 bytes at offset 2/)
+    assert.throws(() => decode(hex('19 01')), /Unexpected end of CBOR data at offset 1 \(item at offset 0\)/)
+    assert.throws(() => decode(hex('9f 01')), /CBOR indefinite-length item is not terminated at offset 2/)
+    assert.throws(() => decode(hex('ff')), /Unexpected CBOR break at offset 0/)
+    assert.throws(() => decode(hex('1c')), /Reserved CBOR additional information 28 at offset 0/)
+    assert.throws(() => decode(hex('62 c328')), /Invalid UTF-8 in CBOR text string at offset 0/)
+    assert.throws(() => decode(hex('a2 6161 01 6161 02')), /CBOR map has duplicate key 'a' at offset 0/)
+    assert.throws(() => decode(new Uint8Array([...new Uint8Array(300).fill(0x81), 0])), /CBOR nesting exceeds 256 levels at offset 257/)
+  })
+})
+
+describe('cbor encode', () => {
+  it('encodes integers and floats in their shortest form', () => {
+    assert.deepEqual(encode(0), hex('00'))
+    assert.deepEqual(encode(24), hex('1818'))
+    assert.deepEqual(encode(1000000), hex('1a000f4240'))
+    assert.deepEqual(encode(-1000), hex('3903e7'))
+    assert.deepEqual(encode(18446744073709551615n), hex('1bffffffffffffffff'))
+    assert.deepEqual(encode(18446744073709551616n), hex('c249010000000000000000'))
+    assert.deepEqual(encode(-18446744073709551617n), hex('c349010000000000000000'))
+    assert.deepEqual(encode(1.5), hex('f93e00'))
+    assert.deepEqual(encode(5.960464477539063e-8), hex('f90001'))
+    assert.deepEqual(encode(100000.5), hex('fa47c35040'))
+    assert.deepEqual(encode(1.1), hex('fb3ff199999999999a'))
+    assert.deepEqual(encode(Infinity), hex('f97c00'))
+    assert.deepEqual(encode(NaN), hex('f97e00'))
+  })
+
+  it('encodes strings, arrays, dates, tags and simple values', () => {
+    assert.deepEqual(encode('streaming'), hex('6973747265616d696e67'))
+    assert.deepEqual(encode(hex('01020304')), hex('4401020304'))
+    assert.deepEqual(encode([1, [2, 3], [4, 5]]), hex('8301820203820405'))
+    assert.deepEqual(encode(new Date('2013-03-21T20:04:00Z')), hex('c074323031332d30332d32315432303a30343a30305a'))
+    assert.deepEqual(encode(new CBORTag('COSE_Sign1', [])), hex('d280'))
+    assert.deepEqual(encode(new CBORSimpleValue(255)), hex('f8ff'))
+    assert.deepEqual(encode([false, true, null, undefined]), hex('84f4f5f6f7'))
+    assert.throws(() => encode(new CBORTag('COSE_Unknown', 0)), /Unknown CBOR tag COSE_Unknown/)
+    assert.throws(() => encode(new CBORSimpleValue(24)), /Invalid CBOR simple value 24/)
+  })
+
+  it('sorts map keys by their encoded bytes, unless asked to keep their order', () => {
+    assert.deepEqual(encode({ b: 1, aa: 3, a: 2 }), hex('a3 6161 02 6162 01 626161 03'))
+    assert.deepEqual(encode(new Map<CBORType, CBORType>([['z', 0], [-1, 0], [10, 0], [1, 0]])), hex('a4 01 00 0a 00 20 00 617a 00'))
+    assert.deepEqual(encode({ b: 1, a: 2 }, { sortKeys: false }), hex('a2 6162 01 6161 02'))
+    assert.throws(() => encode(new Map<CBORType, CBORType>([[1, 0], [1n, 0]])), /CBOR map has duplicate keys/)
+  })
+
+  it('round-trips decoded items, and re-encodes deterministically encoded items to the same bytes', () => {
+    // indefinite lengths are encoded as definite lengths
+    for (const item of ['9f 01 820203 ff', 'bf 6161 5f 4101 4102 ff ff', 'd2 84 43a10126 a0 f6 40']) {
+      const value = decode(hex(item))
+      assert.deepEqual(decode(encode(value)), value)
+    }
+    const deterministic = hex('a4 01 f93e00 20 c249010000000000000000 6161 80 6162 c074323031332d30332d32315432303a30343a30305a')
+    assert.deepEqual(encode(decode(deterministic)), deterministic)
+  })
+
+  it('re-encodes the claims, assertions and signatures of a manifest store byte for byte', () => {
+    const boxes = cborBoxes(jumbfDecode(signedManifestStore()))
+    assert.ok(boxes.length > 3)
+    for (const { data } of boxes) {
+      assert.deepEqual(encode(decode(data), { sortKeys: false }), data)
+    }
+  })
+})
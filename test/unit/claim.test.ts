@@ -0,0 +1,68 @@
+/*
+ *  Copyright (c) Microsoft Corporation.
+ *  Licensed under the MIT license.
+ */
+
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { encode, type CBORType } from '../../src/certs/cbor.js'
+import { decodeClaim } from '../../src/certs/claim.js'
+import { decode as jumbfDecode, manifests } from '../../src/certs/jumbf.js'
+import { contentBox, jumbfBox, signedManifestStore } from './helpers.js'
+
+const MANIFEST_LABEL = 'urn:c2pa:6a1e2b9c-2d6a-4d7e-9a57-1c1f4b0e2f11'
+
+function manifest (claimLabel: string, claim: CBORType): ReturnType<typeof jumbfDecode> {
+  return jumbfDecode(jumbfBox(MANIFEST_LABEL, 'c2ma', jumbfBox(claimLabel, 'c2cl', contentBox('cbor', encode(claim)))))
+}
+
+const v2Claim = {
+  instanceID: 'xmp:iid:0b2a5d6e-8d57-4c2b-9d3e-2f7e1c4a8b90',
+  claim_generator_info: { name: 'test', version: '1.0' },
+  signature: 'self#jumbf=/c2pa/urn:c2pa:6a1e2b9c-2d6a-4d7e-9a57-1c1f4b0e2f11/c2pa.signature',
+  created_assertions: [{ url: 'self#jumbf=c2pa.assertions/c2pa.actions.v2', hash: new Uint8Array([0xAB, 0xCD]) }],
+  gathered_assertions: [{ url: 'self#jumbf=c2pa.assertions/c2pa.metadata', alg: 'sha384', hash: new Uint8Array([0xEF]) }],
+  alg: 'sha256'
+}
+
+describe('claim', () => {
+  it('decodes the v1 claim of the signed manifest store', () => {
+    const claim = decodeClaim(manifests(jumbfDecode(signedManifestStore()))[0])
+    assert.ok(claim != null)
+    assert.equal(claim.version, 1)
+    assert.match(claim.instanceId, /^xmp:iid:/)
+    assert.match(claim.claimGenerator ?? '', /c2patool/)
+    assert.equal(claim.signature, 'self#jumbf=c2pa.signature')
+    assert.deepEqual(claim.createdAssertions.map(({ url }) => url), ['self#jumbf=c2pa.assertions/c2pa.actions', 'self#jumbf=c2pa.assertions/c2pa.hash.data'])
+    assert.ok(claim.createdAssertions.every(({ hash }) => /^[0-9a-f]{64}$/.test(hash)))
+    assert.equal(claim.alg, 'sha256')
+  })
+
+  it('decodes a v2 claim, with created and gathered assertions and a single generator', () => {
+    assert.deepEqual(decodeClaim(manifest('c2pa.claim.v2', v2Claim)), {
+      version: 2,
+      instanceId: v2Claim.instanceID,
+      claimGenerator: null,
+      claimGeneratorInfo: [{ name: 'test', version: '1.0', icon: null }],
+      signature: v2Claim.signature,
+      createdAssertions: [{ url: 'self#jumbf=c2pa.assertions/c2pa.actions.v2', alg: null, hash: 'abcd' }],
+      gatheredAssertions: [{ url: 'self#jumbf=c2pa.assertions/c2pa.metadata', alg: 'sha384', hash: 'ef' }],
+      redactedAssertions: [],
+      alg: 'sha256'
+    })
+  })
+
+  it('returns null for a manifest without a claim', () => {
+    assert.equal(decodeClaim(manifest('c2pa.assertions', {})), null)
+  })
+
+  it('rejects a malformed claim', () => {
+    const withoutInstanceId: Record<string, unknown> = { ...v2Claim }
+    delete withoutInstanceId.instanceID
+    assert.throws(() => decodeClaim(manifest('c2pa.claim.v2', withoutInstanceId)), /c2pa.claim.v2: missing instanceID/)
+    assert.throws(() => decodeClaim(manifest('c2pa.claim.v2', { ...v2Claim, signature: 1 })), /c2pa.claim.v2: signature: expected a string/)
+    assert.throws(() => decodeClaim(manifest('c2pa.claim', { ...v2Claim, assertions: [{ url: 'self#jumbf=c2pa.assertions/c2pa.actions' }] })),
+      /c2pa.claim: expected a hashed URI \(url, hash\)/)
+    assert.throws(() => decodeClaim(manifest('c2pa.claim.v2', [])), /c2pa.claim.v2: expected a map/)
+  })
+})
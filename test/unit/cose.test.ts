@@ -0,0 +1,67 @@
+/*
+ *  Copyright (c) Microsoft Corporation.
+ *  Licensed under the MIT license.
+ */
+
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { publicKeyTypeFromDer } from '../../src/certs/certs.js'
+import { decode, verify } from '../../src/certs/cose.js'
+import { childBox, decode as jumbfDecode, isContentBox, manifests } from '../../src/certs/jumbf.js'
+import { signedManifestStore } from './helpers.js'
+
+/*
+  The claim signature (COSE_Sign1) and the claim it signs, of the manifest of the signed manifest store
+*/
+function signatureAndClaim (): { signature: Uint8Array, claim: Uint8Array } {
+  const manifest = manifests(jumbfDecode(signedManifestStore()))[0]
+  const signature = childBox(manifest, 'c2pa.signature')?.boxes[0]
+  const claim = (childBox(manifest, 'c2pa.claim.v2') ?? childBox(manifest, 'c2pa.claim'))?.boxes[0]
+  assert.ok(signature != null && isContentBox(signature) && claim != null && isContentBox(claim))
+  return { signature: signature.data, claim: claim.data }
+}
+
+describe('cose', () => {
+  it('decodes the claim signature and verifies it against the claim', async () => {
+    const { signature, claim } = signatureAndClaim()
+    const cose = await decode(signature)
+    assert.ok(cose != null)
+    assert.equal(cose.payload, null)
+    assert.ok(cose.certificates.length > 0)
+    const result = await verify(cose, claim)
+    assert.deepEqual(result.errors, [])
+    assert.equal(result.valid, true)
+    assert.equal(result.alg, 'ES256')
+  })
+
+  it('reports a signature that does not match the claim', async () => {
+    const { signature, claim } = signatureAndClaim()
+    const cose = await decode(signature)
+    assert.ok(cose != null)
+    const tampered = claim.slice()
+    tampered[tampered.length - 1] ^= 0xFF
+    const result = await verify(cose, tampered)
+    assert.equal(result.valid, false)
+    assert.deepEqual(result.errors, ['COSE ES256 signature does not match the claim'])
+  })
+
+  it('reports a signature without a payload, signer certificate or allowed algorithm as invalid', async () => {
+    const cose = await decode(signatureAndClaim().signature)
+    assert.ok(cose != null)
+    assert.deepEqual(await verify(cose), { alg: 'ES256', algDescription: 'ECDSA w/ SHA-256', valid: false, errors: ['COSE signature has no payload to verify'] })
+    assert.equal((await verify({ ...cose, certificates: [] }, new Uint8Array(0))).valid, false)
+    assert.equal((await verify({ ...cose, algId: null }, new Uint8Array(0))).valid, false)
+    // RS256 is not in the C2PA allowlist
+    assert.equal((await verify({ ...cose, algId: -257 }, new Uint8Array(0))).valid, false)
+  })
+  it('reads the key type of the signer certificate, and reports an allowed algorithm that does not match it', async () => {
+    const { signature, claim } = signatureAndClaim()
+    const cose = await decode(signature)
+    assert.ok(cose != null)
+    assert.deepEqual(publicKeyTypeFromDer(cose.certificates[0]), { type: 'EC', curve: 'P-256' })
+    assert.deepEqual(await verify({ ...cose, algId: -35 }, claim),
+      { alg: 'ES384', algDescription: 'ECDSA w/ SHA-384', valid: false, errors: ['COSE signature algorithm ES384 does not match the signer\'s EC P-256 key'] })
+    assert.deepEqual(await verify({ ...cose, algId: -257 }, claim),
+      { alg: 'RS256', algDescription: 'RSASSA-PKCS1-v1_5 using SHA-256', valid: false, errors: ['COSE signature algorithm RS256 is not allowed by C2PA'] })
+  })
+})
@@ -0,0 +1,46 @@
+/*
+ *  Copyright (c) Microsoft Corporation.
+ *  Licensed under the MIT license.
+ */
+
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { checkC2paSignatureAlgorithm, coseAlgorithm, coseAlgorithmName } from '../../src/certs/coseAlgorithms.js'
+
+const P256 = { type: 'EC', curve: 'P-256' }
+
+describe('coseAlgorithms', () => {
+  it('maps COSE algorithm identifiers to their registry entries', () => {
+    assert.deepEqual(coseAlgorithm(-7), { name: 'ES256', description: 'ECDSA w/ SHA-256', key: P256 })
+    assert.deepEqual(coseAlgorithm(-16), { name: 'SHA-256', description: 'SHA-2 256-bit Hash' })
+    assert.equal(coseAlgorithm(999), null)
+    assert.equal(coseAlgorithmName(-39), 'PS512')
+    assert.equal(coseAlgorithmName(999), '999')
+  })
+
+  it('allows the C2PA signature algorithms with a matching key, or an unknown key', () => {
+    assert.deepEqual(checkC2paSignatureAlgorithm(-7, P256), [])
+    assert.deepEqual(checkC2paSignatureAlgorithm(-35, { type: 'EC', curve: 'P-384' }), [])
+    assert.deepEqual(checkC2paSignatureAlgorithm(-36, { type: 'EC', curve: 'P-521' }), [])
+    for (const id of [-37, -38, -39]) {
+      assert.deepEqual(checkC2paSignatureAlgorithm(id, { type: 'RSA', curve: null }), [])
+      assert.deepEqual(checkC2paSignatureAlgorithm(id, { type: 'RSA-PSS', curve: null }), [])
+    }
+    assert.deepEqual(checkC2paSignatureAlgorithm(-8, { type: 'Ed25519', curve: null }), [])
+    assert.deepEqual(checkC2paSignatureAlgorithm(-7, null), [])
+  })
+
+  it('rejects algorithms outside the C2PA allowlist', () => {
+    assert.deepEqual(checkC2paSignatureAlgorithm(-257, { type: 'RSA', curve: null }), ['COSE signature algorithm RS256 is not allowed by C2PA'])
+    assert.deepEqual(checkC2paSignatureAlgorithm(-47, { type: 'EC', curve: 'secp256k1' }), ['COSE signature algorithm ES256K is not allowed by C2PA'])
+    assert.deepEqual(checkC2paSignatureAlgorithm(5, null), ['COSE signature algorithm HMAC 256/256 is not allowed by C2PA'])
+    assert.deepEqual(checkC2paSignatureAlgorithm(999, P256), ['COSE signature algorithm unassigned (999) is not allowed by C2PA'])
+  })
+
+  it('rejects an allowed algorithm that does not match the key type or curve of the signer', () => {
+    assert.deepEqual(checkC2paSignatureAlgorithm(-35, P256), ['COSE signature algorithm ES384 does not match the signer\'s EC P-256 key'])
+    assert.deepEqual(checkC2paSignatureAlgorithm(-37, P256), ['COSE signature algorithm PS256 does not match the signer\'s EC P-256 key'])
+    assert.deepEqual(checkC2paSignatureAlgorithm(-7, { type: 'RSA', curve: null }), ['COSE signature algorithm ES256 does not match the signer\'s RSA key'])
+    assert.deepEqual(checkC2paSignatureAlgorithm(-8, { type: 'Ed448', curve: null }), ['COSE signature algorithm EdDSA does not match the signer\'s Ed448 key'])
+  })
+})
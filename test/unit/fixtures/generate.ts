@@ -0,0 +1,310 @@
+/*
+ *  Copyright (c) Microsoft Corporation.
+ *  Licensed under the MIT license.
+ */
+
+/*
+  Generates the unit test fixtures: minimal files of each format that embed the manifest store of media/cards_trusted.svg.
+  The manifest store is copied as is, so its claim signature still verifies, but its hard binding does not match the new file.
+
+  Run from the repository root: npx tsx test/unit/fixtures/generate.ts
+
+  The fixtures named after a tool are not generated here, but made with that tool as a reference that does not share
+  this script's reading of the format:
+  - manifest_c2pa-rs.*: files signed by c2pa-rs
+  - manifest_pdf-lib.pdf: a PDF document written by pdf-lib, with the same manifest store attached
+  - manifest_opentype.*: an OpenType font written by opentype.js, with the same manifest store in its C2PA table,
+    and its WOFF and WOFF2 conversions
+  All are made by reference.mjs.
+*/
+
+import { writeFileSync } from 'node:fs'
+import { crc32, deflateRawSync, deflateSync } from 'node:zlib'
+import { ascii, concat, signedManifestStore, uint16, uint32 } from '../helpers.js'
+
+const store = signedManifestStore()
+
+/*
+  A 1x1 grayscale TIFF image (little-endian) with the manifest store in the C2PA tag (0xCD41, UNDEFINED) of IFD0
+*/
+function tiff (): Uint8Array {
+  const SHORT = 3
+  const LONG = 4
+  const UNDEFINED = 7
+  const entryCount = 10
+  const pixelOffset = 8 + 2 + entryCount * 12 + 4
+  const storeOffset = pixelOffset + 2
+  const entry = (tag: number, type: number, count: number, value: number): Uint8Array =>
+    concat(uint16(tag, true), uint16(type, true), uint32(count, true), type === SHORT ? concat(uint16(value, true), uint16(0)) : uint32(value, true))
+
+  return concat(
+    ascii('II'), uint16(42, true), uint32(8, true),
+    uint16(entryCount, true),
+    entry(256, SHORT, 1, 1), // ImageWidth
+    entry(257, SHORT, 1, 1), // ImageLength
+    entry(258, SHORT, 1, 8), // BitsPerSample
+    entry(259, SHORT, 1, 1), // Compression: none
+    entry(262, SHORT, 1, 1), // PhotometricInterpretation: black is zero
+    entry(273, LONG, 1, pixelOffset), // StripOffsets
+    entry(277, SHORT, 1, 1), // SamplesPerPixel
+    entry(278, SHORT, 1, 1), // RowsPerStrip
+    entry(279, LONG, 1, 1), // StripByteCounts
+    entry(0xCD41, UNDEFINED, store.length, storeOffset), // C2PA
+    uint32(0, true), // no next IFD
+    new Uint8Array([0x80, 0x00]), // the pixel, padded to an even offset
+    store
+  )
+}
+
+/*
+  The objects of a one-page PDF with a manifest store as a Flate-compressed embedded file, listed both as an associated file (/AF)
+  with the C2PA_Manifest relationship and in the /EmbeddedFiles name tree
+*/
+function pdfObjects (manifestStore: Uint8Array): Uint8Array[] {
+  const embeddedFile = deflateSync(manifestStore)
+  return [
+    ascii('<< /Type /Catalog /Pages 2 0 R /AF [4 0 R] /Names << /EmbeddedFiles << /Names [(manifest.c2pa) 4 0 R] >> >> >>'),
+    ascii('<< /Type /Pages /Kids [3 0 R] /Count 1 >>'),
+    ascii('<< /Type /Page /Parent 2 0 R /MediaBox [0 0 10 10] >>'),
+    ascii('<< /Type /Filespec /F (manifest.c2pa) /UF (manifest.c2pa) /AFRelationship /C2PA_Manifest /EF << /F 5 0 R >> >>'),
+    concat(ascii(`<< /Type /EmbeddedFile /Subtype /application#2Fc2pa /Filter /FlateDecode /Length ${embeddedFile.length} >>\nstream\n`), embeddedFile, ascii('\nendstream'))
+  ]
+}
+
+function pdfObject (num: number, object: Uint8Array): Uint8Array {
+  return concat(ascii(`${num} 0 obj\n`), object, ascii('\nendobj\n'))
+}
+
+function xrefTableEntry (offset: number | null): string {
+  return offset == null ? '0000000000 65535 f\r' : `${offset.toString().padStart(10, '0')} 00000 n\r`
+}
+
+/*
+  A PDF whose objects are indexed by a classic xref table
+*/
+function pdf (objects = pdfObjects(store)): Uint8Array {
+  const parts = [ascii('%PDF-1.7\n')]
+  let offset = parts[0].length
+  const offsets: number[] = []
+  objects.forEach((object, index) => {
+    const part = pdfObject(index + 1, object)
+    offsets.push(offset)
+    offset += part.length
+    parts.push(part)
+  })
+  const xref = ['xref', `0 ${objects.length + 1}`, xrefTableEntry(null), ...offsets.map(xrefTableEntry)]
+  parts.push(ascii(`${xref.join('\n')}\ntrailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${offset}\n%%EOF\n`))
+  return concat(...parts)
+}
+
+/*
+  A PDF whose objects are indexed by a Flate-compressed xref stream, with the PNG Up predictor
+*/
+function pdfWithXrefStream (): Uint8Array {
+  const objects = pdfObjects(store)
+  const parts = [ascii('%PDF-1.7\n')]
+  let offset = parts[0].length
+  const offsets: number[] = []
+  objects.forEach((object, index) => {
+    const part = pdfObject(index + 1, object)
+    offsets.push(offset)
+    offset += part.length
+    parts.push(part)
+  })
+  // the xref stream is the last object, and lists itself
+  offsets.push(offset)
+  const rowLength = 1 + 4 + 2
+  const rows = [new Uint8Array(rowLength), ...offsets.map((offset) => concat(new Uint8Array([1]), uint32(offset), uint16(0)))]
+  const predicted = rows.map((row, index) => concat(new Uint8Array([2]), row.map((byte, i) => (byte - (index > 0 ? rows[index - 1][i] : 0)) & 0xFF)))
+  const data = deflateSync(concat(...predicted))
+  const size = offsets.length + 1
+  const dict = `<< /Type /XRef /Size ${size} /W [1 4 2] /Root 1 0 R /Filter /FlateDecode /DecodeParms << /Predictor 12 /Columns ${rowLength} >> /Length ${data.length} >>`
+  parts.push(pdfObject(size - 1, concat(ascii(`${dict}\nstream\n`), data, ascii('\nendstream'))))
+  parts.push(ascii(`startxref\n${offset}\n%%EOF\n`))
+  return concat(...parts)
+}
+
+/*
+  Appends an incremental update to a PDF with an xref table: objects are replaced, added, or deleted (null) by a new
+  xref section whose trailer links the previous one with /Prev
+*/
+function pdfUpdate (base: Uint8Array, objects: Record<number, Uint8Array | null>): Uint8Array {
+  const tail = new TextDecoder('latin1').decode(base.subarray(base.length - 64))
+  const prev = Number(/startxref\s+(\d+)/.exec(tail)?.[1])
+  const size = Number(/\/Size (\d+)/.exec(new TextDecoder('latin1').decode(base.subarray(prev)))?.[1])
+  const parts = [base]
+  let offset = base.length
+  const xref = ['xref']
+  const nums = Object.keys(objects).map(Number).sort((a, b) => a - b)
+  for (const num of nums) {
+    const object = objects[num]
+    xref.push(`${num} 1`)
+    if (object == null) {
+      xref.push(xrefTableEntry(null))
+      continue
+    }
+    const part = pdfObject(num, object)
+    xref.push(xrefTableEntry(offset))
+    offset += part.length
+    parts.push(part)
+  }
+  const newSize = Math.max(size, nums[nums.length - 1] + 1)
+  parts.push(ascii(`${xref.join('\n')}\ntrailer\n<< /Size ${newSize} /Root 1 0 R /Prev ${prev} >>\nstartxref\n${offset}\n%%EOF\n`))
+  return concat(...parts)
+}
+
+/*
+  A 1x1 GIF image with the manifest store in a 'C2PA_GIF' application extension, split into data sub-blocks
+*/
+function gif (): Uint8Array {
+  const subBlocks: Uint8Array[] = []
+  for (let offset = 0; offset < store.length; offset += 255) {
+    const block = store.subarray(offset, offset + 255)
+    subBlocks.push(new Uint8Array([block.length]), block)
+  }
+  return concat(
+    ascii('GIF89a'),
+    uint16(1, true), uint16(1, true), new Uint8Array([0x80, 0, 0]), // 1x1 screen, 2-color global color table
+    new Uint8Array([0, 0, 0, 0xFF, 0xFF, 0xFF]),
+    new Uint8Array([0x21, 0xFF, 11]), ascii('C2PA_GIF'), new Uint8Array([0, 0, 0]), ...subBlocks, new Uint8Array([0]),
+    new Uint8Array([0x2C]), uint16(0), uint16(0), uint16(1, true), uint16(1, true), new Uint8Array([0]), // image descriptor
+    new Uint8Array([2, 2, 0x44, 0x01, 0]), // LZW-coded pixel
+    new Uint8Array([0x3B])
+  )
+}
+
+/*
+  A JPEG XL container with the manifest store as a top-level 'jumb' box. The codestream box only holds
+  the codestream signature: the parser reads the container boxes, not the image.
+*/
+function jxl (): Uint8Array {
+  return concat(
+    uint32(12), ascii('JXL '), new Uint8Array([0x0D, 0x0A, 0x87, 0x0A]),
+    uint32(20), ascii('ftyp'), ascii('jxl '), uint32(0), ascii('jxl '),
+    store,
+    uint32(10), ascii('jxlc'), new Uint8Array([0xFF, 0x0A])
+  )
+}
+
+/*
+  An AVI file without frames (main header, stream list and an empty movie list) with the manifest store in a top-level 'C2PA' chunk
+*/
+function avi (): Uint8Array {
+  const chunk = (id: string, data: Uint8Array): Uint8Array =>
+    concat(ascii(id), uint32(data.length, true), data, new Uint8Array(data.length % 2))
+  const list = (type: string, ...chunks: Uint8Array[]): Uint8Array => chunk('LIST', concat(ascii(type), ...chunks))
+
+  // 25 frames per second, no frames, one 1x1 video stream
+  const mainHeader = concat(uint32(40000, true), new Uint8Array(20), uint32(1, true), new Uint8Array(4), uint32(1, true), uint32(1, true), new Uint8Array(16))
+  const streamHeader = concat(ascii('vids'), ascii('DIB '), new Uint8Array(12), uint32(1, true), uint32(25, true), new Uint8Array(28))
+  const form = concat(
+    ascii('AVI '),
+    list('hdrl', chunk('avih', mainHeader), list('strl', chunk('strh', streamHeader))),
+    list('movi'),
+    chunk('C2PA', store)
+  )
+  return concat(ascii('RIFF'), uint32(form.length, true), form)
+}
+
+/*
+  An EPUB package: the stored 'mimetype' entry first, a deflated container document, and the manifest store
+  as the stored 'META-INF/content_credential.c2pa' entry
+*/
+function epub (): Uint8Array {
+  const files = [
+    { name: 'mimetype', data: ascii('application/epub+zip'), deflate: false },
+    { name: 'META-INF/container.xml', data: ascii('<?xml version="1.0"?><container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container"/>'), deflate: true },
+    { name: 'META-INF/content_credential.c2pa', data: store, deflate: false }
+  ]
+  const localParts: Uint8Array[] = []
+  const centralParts: Uint8Array[] = []
+  let offset = 0
+  for (const { name, data, deflate } of files) {
+    const content = deflate ? deflateRawSync(data) : data
+    // version needed, flags, method, modification time and date (1980-01-01), CRC-32, sizes, name length, extra length
+    const fields = concat(uint16(20, true), uint16(0), uint16(deflate ? 8 : 0, true), uint16(0), uint16(0x21, true), uint32(crc32(data), true),
+      uint32(content.length, true), uint32(data.length, true), uint16(name.length, true), uint16(0))
+    const local = concat(uint32(0x04034B50, true), fields, ascii(name), content)
+    // version made by, the local fields, comment length, disk number, attributes, local header offset
+    centralParts.push(concat(uint32(0x02014B50, true), uint16(20, true), fields, uint16(0), uint16(0), uint16(0), uint32(0), uint32(offset, true), ascii(name)))
+    localParts.push(local)
+    offset += local.length
+  }
+  const centralDirectory = concat(...centralParts)
+  return concat(
+    ...localParts,
+    centralDirectory,
+    uint32(0x06054B50, true), uint16(0), uint16(0), uint16(files.length, true), uint16(files.length, true),
+    uint32(centralDirectory.length, true), uint32(offset, true), uint16(0)
+  )
+}
+
+/*
+  The C2PA font table: version 1.0, no active manifest URI, and the manifest store after the 20-byte header
+*/
+function c2paTable (): Uint8Array {
+  return concat(uint16(1), uint16(0), uint32(0), uint16(0), uint16(0), uint32(20), uint32(store.length), store)
+}
+
+/*
+  The sfnt table checksum: the sum of the table's big-endian 32-bit words, zero-padded
+*/
+function tableChecksum (table: Uint8Array): number {
+  const padded = concat(table, new Uint8Array((4 - table.length % 4) % 4))
+  const view = new DataView(padded.buffer, padded.byteOffset, padded.byteLength)
+  let sum = 0
+  for (let offset = 0; offset < padded.length; offset += 4) {
+    sum = (sum + view.getUint32(offset)) >>> 0
+  }
+  return sum
+}
+
+/*
+  A CFF-flavored OpenType font whose only table is the C2PA table: the parser reads the table directory, not the glyphs
+*/
+function otf (): Uint8Array {
+  const table = c2paTable()
+  return concat(
+    ascii('OTTO'), uint16(1), uint16(16), uint16(0), uint16(0),
+    ascii('C2PA'), uint32(tableChecksum(table)), uint32(12 + 16), uint32(table.length),
+    table, new Uint8Array((4 - table.length % 4) % 4)
+  )
+}
+
+/*
+  The same font as a WOFF font, with the C2PA table zlib-compressed
+*/
+function woff (): Uint8Array {
+  const table = c2paTable()
+  const compressed = deflateSync(table)
+  const sfntSize = 12 + 16 + table.length + (4 - table.length % 4) % 4
+  const length = 44 + 20 + compressed.length
+  return concat(
+    ascii('wOFF'), ascii('OTTO'), uint32(length), uint16(1), uint16(0), uint32(sfntSize),
+    uint16(1), uint16(0), uint32(0), uint32(0), uint32(0), uint32(0), uint32(0), // version 1.0, no metadata or private data
+    ascii('C2PA'), uint32(44 + 20), uint32(compressed.length), uint32(table.length), uint32(tableChecksum(table)),
+    compressed
+  )
+}
+
+function write (name: string, bytes: Uint8Array): void {
+  writeFileSync(new URL(name, import.meta.url), bytes)
+}
+
+write('manifest.tif', tiff())
+write('manifest.pdf', pdf())
+write('manifest_xref_stream.pdf', pdfWithXrefStream())
+/* the first revision embeds a placeholder; the update adds the manifest store as a second file specification, listed first */
+write('manifest_update.pdf', pdfUpdate(pdf(pdfObjects(ascii('superseded manifest store'))), {
+  1: ascii('<< /Type /Catalog /Pages 2 0 R /AF [6 0 R 4 0 R] /Names << /EmbeddedFiles << /Names [(manifest.c2pa) 6 0 R (superseded.c2pa) 4 0 R] >> >> >>'),
+  6: ascii('<< /Type /Filespec /F (manifest.c2pa) /UF (manifest.c2pa) /AFRelationship /C2PA_Manifest /EF << /F 7 0 R >> >>'),
+  7: pdfObjects(store)[4]
+}))
+/* the update deletes the file specification, but leaves the catalog's references to it */
+write('manifest_deleted.pdf', pdfUpdate(pdf(), { 4: null }))
+write('manifest.gif', gif())
+write('manifest.jxl', jxl())
+write('manifest.avi', avi())
+write('manifest.epub', epub())
+write('manifest.otf', otf())
+write('manifest.woff', woff())
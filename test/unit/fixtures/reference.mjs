@@ -0,0 +1,318 @@
+/*
+ *  Copyright (c) Microsoft Corporation.
+ *  Licensed under the MIT license.
+ */
+
+/*
+  Makes the reference fixtures: files signed by c2pa-rs (the library of c2patool) through its WebAssembly build,
+  so that their layout and hard binding do not share the parsers' (or generate.ts') reading of each format.
+  The source files are written by other tools where one is available; see each fixture below.
+  Formats that c2pa-rs does not write are made by another tool from the manifest store of media/cards_trusted.svg.
+
+  The tools are not dependencies of the extension; install them outside of the repository, e.g. in a temporary folder:
+    npm install @contentauth/c2pa-wasm@0.13.2 @jsquash/jxl@1.3.0 cbor-x@1.6.6 fflate@0.8.3 gifenc@1.0.3 libflacjs@5.4.0 \
+      opentype.js@2.0.0 pdf-lib@1.17.1 ttf2woff@3.0.0 utif@3.1.0 wawoff2@2.0.1
+  then, after generating the test certificates with test/generate-cert-chain.sh, run from the repository root:
+    NODE_PATH=<folder>/node_modules node test/unit/fixtures/reference.mjs
+
+  The manifests are signed with the untrusted test certificate chain (test/untrusted), without a time-stamp.
+*/
+
+import { createRequire } from 'node:module'
+import { createPrivateKey, sign } from 'node:crypto'
+import { readFileSync, writeFileSync } from 'node:fs'
+
+/* NODE_PATH only applies to require() */
+const require = createRequire(import.meta.url)
+const { initSync, WasmBuilder, WasmReader } = await import(require.resolve('@contentauth/c2pa-wasm'))
+const { default: encodeJxl, init: initJxl } = await import(require.resolve('@jsquash/jxl/encode.js'))
+const { Encoder, Tag } = require('cbor-x')
+const { Zip, ZipPassThrough } = require('fflate')
+const { GIFEncoder } = require('gifenc')
+const Flac = require('libflacjs/dist/libflac.js')
+const opentype = require('opentype.js')
+const { PDFDocument } = require('pdf-lib')
+const ttf2woff = require('ttf2woff')
+const UTIF = require('utif')
+const wawoff2 = require('wawoff2')
+
+initSync({ module: readFileSync(require.resolve('@contentauth/c2pa-wasm/c2pa.wasm')) })
+if (!Flac.isReady()) await new Promise((resolve) => Flac.on('ready', resolve))
+await initJxl(await WebAssembly.compile(readFileSync(require.resolve('@jsquash/jxl/codec/enc/jxl_enc.wasm'))))
+
+/*
+  c2pa-rs reads its input through FileReaderSync, which only web workers define: read the bytes kept by the Blob instead
+*/
+class BytesBlob extends Blob {
+  constructor (bytes, options) {
+    super([bytes], options)
+    this.bytes = new Uint8Array(bytes)
+  }
+
+  slice (start = 0, end = this.bytes.length, type = '') {
+    const clamp = (index) => index < 0 ? Math.max(this.bytes.length + index, 0) : Math.min(index, this.bytes.length)
+    return new BytesBlob(this.bytes.slice(clamp(start), clamp(end)), { type })
+  }
+}
+
+globalThis.FileReaderSync = class {
+  readAsArrayBuffer (blob) {
+    return blob.bytes.slice().buffer
+  }
+}
+
+const encoder = new Encoder({ useRecords: false, useTag259ForMaps: false, tagUint8Array: false })
+const key = createPrivateKey(readFileSync(new URL('../../untrusted/signer.key', import.meta.url)))
+const certificates = readFileSync(new URL('../../untrusted/chain.pem', import.meta.url), 'latin1')
+  .match(/-----BEGIN CERTIFICATE-----[^-]+-----END CERTIFICATE-----/g)
+  .map((pem) => Buffer.from(pem.replace(/-----[A-Z ]+-----|\s/g, ''), 'base64'))
+
+/*
+  c2pa-rs leaves the COSE_Sign1 to a JavaScript signer: ES256 over the detached claim, with the certificate chain in
+  the protected header, padded to the reserved size
+*/
+const reserveSize = 16384
+const signer = {
+  alg: 'es256',
+  reserveSize,
+  sign: async (claim) => {
+    const protectedHeader = encoder.encode(new Map([[1, -7], [33, certificates]]))
+    const toBeSigned = encoder.encode(['Signature1', protectedHeader, Buffer.alloc(0), Buffer.from(claim)])
+    const signature = sign('sha256', toBeSigned, { key, dsaEncoding: 'ieee-p1363' })
+    const cose = (padding) => encoder.encode(new Tag([protectedHeader, new Map([['pad', Buffer.alloc(padding)]]), null, signature], 18))
+    let padding = reserveSize - cose(0).length
+    while (cose(padding).length > reserveSize) padding--
+    return new Uint8Array(cose(padding))
+  }
+}
+
+/* the test signer's certificate has the document signing EKU, which c2pa-rs does not allow by default */
+const context = JSON.stringify({ verify: { verify_trust: false }, trust: { trust_config: '1.3.6.1.5.5.7.3.36' } })
+
+const definition = {
+  claim_generator_info: [{ name: 'c2pa-extension-validator reference fixtures', version: '1.0' }],
+  title: 'Cards',
+  assertions: [
+    {
+      label: 'c2pa.actions',
+      data: { actions: [{ action: 'c2pa.created', digitalSourceType: 'http://cv.iptc.org/newscodes/digitalsourcetype/digitalCapture' }] }
+    }
+  ]
+}
+
+/*
+  Signs the source, then reads the result back with c2pa-rs, which must report no failure
+*/
+async function signAsset (format, source) {
+  const builder = WasmBuilder.fromJson(JSON.stringify(definition), context)
+  const signed = await builder.sign(signer, [], format, new BytesBlob(source, { type: format }))
+  const reader = await WasmReader.fromBytes(format, signed, context)
+  const failures = JSON.parse(reader.json()).validation_results?.activeManifest?.failure ?? []
+  if (failures.length > 0) {
+    throw new Error(`${format}: ${JSON.stringify(failures)}`)
+  }
+  return signed
+}
+
+/*
+  The manifest store of media/cards_trusted.svg, from its c2pa:manifest element
+*/
+function signedManifestStore () {
+  const svg = readFileSync(new URL('../../media/cards_trusted.svg', import.meta.url), 'utf8')
+  const base64 = /<c2pa:manifest[^>]*>([^<]+)<\/c2pa:manifest>/.exec(svg)[1]
+  return new Uint8Array(Buffer.from(base64, 'base64'))
+}
+
+function write (name, bytes) {
+  writeFileSync(new URL(name, import.meta.url), bytes)
+}
+
+/* a 4x4 RGBA TIFF image written by UTIF */
+const tiff = new Uint8Array(UTIF.encodeImage(new Uint8Array(4 * 4 * 4).fill(0x80), 4, 4))
+write('manifest_c2pa-rs.tif', await signAsset('image/tiff', tiff))
+
+/* an animated 4x4 GIF image of two frames written by gifenc, which loops it with a NETSCAPE2.0 application extension */
+const gifEncoder = GIFEncoder()
+const palette = [[0, 0, 0], [255, 255, 255]]
+gifEncoder.writeFrame(new Uint8Array(16).fill(0), 4, 4, { palette, repeat: 0, delay: 100 })
+gifEncoder.writeFrame(new Uint8Array(16).fill(1), 4, 4, { delay: 100 })
+gifEncoder.finish()
+write('manifest_c2pa-rs.gif', await signAsset('image/gif', gifEncoder.bytes()))
+
+/*
+  A 4x4 JPEG XL image encoded by libjxl (jsquash), which writes a bare codestream: c2pa-rs needs the container,
+  made of the signature box, the file type box and the codestream in a 'jxlc' box
+*/
+const box = (type, data) => Buffer.concat([Buffer.from([0, 0, (8 + data.length) >> 8, (8 + data.length) & 0xFF]), Buffer.from(type, 'latin1'), data])
+const codestream = Buffer.from(await encodeJxl({ data: new Uint8ClampedArray(4 * 4 * 4).fill(0x80), width: 4, height: 4, colorSpace: 'srgb' }, { lossless: true }))
+const jxl = Buffer.concat([box('JXL ', Buffer.from([0x0D, 0x0A, 0x87, 0x0A])), box('ftyp', Buffer.from('jxl \0\0\0\0jxl ', 'latin1')), box('jxlc', codestream)])
+write('manifest_c2pa-rs.jxl', await signAsset('image/jxl', jxl))
+
+/*
+  A FLAC file of 64 mono 16-bit samples encoded by libflac (libflac.js). Its stream encoder writes the STREAMINFO
+  block before encoding: the frame sizes and MD5 signature it reports once finished are written back, as its file
+  encoder does.
+*/
+const flacEncoder = Flac.create_libflac_encoder(8000, 1, 16, 5, 64, false, 0)
+const flacParts = []
+let streamInfo
+Flac.init_encoder_stream(flacEncoder, (data) => flacParts.push(Buffer.from(data)), (metadata) => { streamInfo = metadata })
+Flac.FLAC__stream_encoder_process_interleaved(flacEncoder, Int32Array.from({ length: 64 }, (_, i) => Math.round(1000 * Math.sin(i / 4))), 64)
+Flac.FLAC__stream_encoder_finish(flacEncoder)
+Flac.FLAC__stream_encoder_delete(flacEncoder)
+const flac = Buffer.concat(flacParts)
+// the STREAMINFO block data starts after 'fLaC' and the 4-byte block header
+flac.writeUIntBE(streamInfo.min_framesize, 12, 3)
+flac.writeUIntBE(streamInfo.max_framesize, 15, 3)
+flac.write(streamInfo.md5sum, 26, 'hex')
+write('manifest_c2pa-rs.flac', await signAsset('audio/flac', flac))
+
+/* the ID3 tag and the first 8 frames of media/cicadas.mp3, whose frames are 192 bytes long (64 kbit/s at 48 kHz) */
+const mp3 = readFileSync(new URL('../../media/cicadas.mp3', import.meta.url)).subarray(0, 224 + 8 * 192)
+write('manifest_c2pa-rs.mp3', await signAsset('audio/mpeg', mp3))
+
+/*
+  No npm package writes AVI or BWF files: the RIFF chunks of these are written here. Both have odd-sized chunks,
+  followed by a pad byte.
+*/
+const riffChunk = (id, ...parts) => {
+  const data = Buffer.concat(parts)
+  const header = Buffer.alloc(8)
+  header.write(id, 'latin1')
+  header.writeUInt32LE(data.length, 4)
+  return Buffer.concat([header, data, Buffer.alloc(data.length % 2)])
+}
+const list = (type, ...chunks) => riffChunk('LIST', Buffer.from(type, 'latin1'), ...chunks)
+const uint32s = (...values) => Buffer.from(new Uint32Array(values).buffer)
+
+/* a 1-frame 2x2 AVI video, with an uncompressed frame of 5 bytes */
+const avi = riffChunk('RIFF', Buffer.from('AVI ', 'latin1'),
+  list('hdrl',
+    riffChunk('avih', uint32s(1000000, 0, 0, 0x10, 1, 0, 1, 0, 2, 2, 0, 0, 0, 0)),
+    list('strl',
+      riffChunk('strh', Buffer.from('vidsDIB ', 'latin1'), uint32s(0, 0, 0, 1, 1, 0, 1, 5, 0, 0), Buffer.alloc(8)),
+      riffChunk('strf', uint32s(40, 2, 2), Buffer.from([1, 0, 8, 0]), uint32s(0, 5, 0, 0, 0, 0)))),
+  list('INFO', riffChunk('ISFT', Buffer.from('reference', 'latin1'))),
+  list('movi', riffChunk('00db', Buffer.from([1, 2, 3, 4, 5]))),
+  riffChunk('idx1', Buffer.from('00db', 'latin1'), uint32s(0x10, 4, 5)))
+write('manifest_c2pa-rs.avi', await signAsset('video/x-msvideo', avi))
+
+/* a Broadcast Wave Format file: a WAV file with a 'bext' chunk, whose coding history is 3 bytes long, and 3 samples */
+const bwf = riffChunk('RIFF', Buffer.from('WAVE', 'latin1'),
+  riffChunk('fmt ', Buffer.from([1, 0, 1, 0]), uint32s(8000, 8000), Buffer.from([1, 0, 8, 0])),
+  riffChunk('bext', Buffer.alloc(602), Buffer.from('A=\n', 'latin1')),
+  riffChunk('data', Buffer.from([0x80, 0x81, 0x82])))
+write('manifest_c2pa-rs.wav', await signAsset('audio/wav', bwf))
+
+/*
+  An EPUB package streamed by fflate, which follows each entry with a data descriptor. The entries are stored:
+  the ZIP writer of c2pa-rs' WebAssembly build does not deflate.
+*/
+const epubParts = []
+const epubZip = new Zip((error, data) => {
+  if (error != null) throw error
+  epubParts.push(data)
+})
+for (const [name, text] of [
+  ['mimetype', 'application/epub+zip'],
+  ['META-INF/container.xml', '<?xml version="1.0"?><container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container"><rootfiles><rootfile full-path="content.opf" media-type="application/oebps-package+xml"/></rootfiles></container>'],
+  ['content.opf', '<?xml version="1.0"?><package version="3.0" xmlns="http://www.idpf.org/2007/opf"/>']
+]) {
+  const entry = new ZipPassThrough(name)
+  entry.mtime = new Date('2024-01-01T00:00:00Z')
+  epubZip.add(entry)
+  entry.push(Buffer.from(text, 'latin1'), true)
+}
+epubZip.end()
+write('manifest_c2pa-rs.epub', await signAsset('application/epub+zip', Buffer.concat(epubParts)))
+
+/* a PDF document written by pdf-lib, with the manifest store attached; pdf-lib saves object streams and an xref stream */
+const pdf = await PDFDocument.create({ updateMetadata: false })
+pdf.addPage([10, 10])
+const date = new Date('2024-01-01T00:00:00Z')
+await pdf.attach(signedManifestStore(), 'manifest.c2pa', { mimeType: 'application/c2pa', creationDate: date, modificationDate: date })
+write('manifest_pdf-lib.pdf', await pdf.save({ useObjectStreams: true }))
+
+/*
+  Writes the font again with the table added: the table records sorted by tag, each table 4-byte aligned,
+  with its checksum, and the checksum adjustment of the 'head' table recomputed
+*/
+function addFontTable (sfnt, tag, data) {
+  const checksum = (bytes) => {
+    const padded = Buffer.concat([bytes, Buffer.alloc((4 - bytes.length % 4) % 4)])
+    let sum = 0
+    for (let offset = 0; offset < padded.length; offset += 4) sum = (sum + padded.readUInt32BE(offset)) >>> 0
+    return sum
+  }
+  const numTables = sfnt.readUInt16BE(4)
+  const tables = [{ tag, data }]
+  for (let i = 0; i < numTables; i++) {
+    const record = 12 + i * 16
+    const offset = sfnt.readUInt32BE(record + 8)
+    tables.push({ tag: sfnt.toString('latin1', record, record + 4), data: Buffer.from(sfnt.subarray(offset, offset + sfnt.readUInt32BE(record + 12))) })
+  }
+  tables.sort((a, b) => a.tag < b.tag ? -1 : 1)
+  const head = tables.find((table) => table.tag === 'head')
+  head.data.writeUInt32BE(0, 8)
+
+  const entrySelector = Math.floor(Math.log2(tables.length))
+  const header = Buffer.alloc(12 + tables.length * 16)
+  header.writeUInt32BE(sfnt.readUInt32BE(0), 0)
+  header.writeUInt16BE(tables.length, 4)
+  header.writeUInt16BE(16 * 2 ** entrySelector, 6)
+  header.writeUInt16BE(entrySelector, 8)
+  header.writeUInt16BE(tables.length * 16 - 16 * 2 ** entrySelector, 10)
+  let offset = header.length
+  tables.forEach((table, index) => {
+    const record = 12 + index * 16
+    header.write(table.tag, record, 'latin1')
+    header.writeUInt32BE(checksum(table.data), record + 4)
+    header.writeUInt32BE(offset, record + 8)
+    header.writeUInt32BE(table.data.length, record + 12)
+    offset += table.data.length + (4 - table.data.length % 4) % 4
+  })
+  const font = Buffer.concat([header, ...tables.map((table) => Buffer.concat([table.data, Buffer.alloc((4 - table.data.length % 4) % 4)]))])
+  font.writeUInt32BE((0xB1B0AFBA - checksum(font)) >>> 0, header.readUInt32BE(12 + tables.indexOf(head) * 16 + 8) + 8)
+  return font
+}
+
+/*
+  c2pa-rs does not sign fonts: the C2PA table (version 1.0, without an active manifest URI) holding the manifest store
+  is added here to a CFF-flavored OpenType font written by opentype.js, which is then converted to WOFF by ttf2woff
+  and to WOFF2 by wawoff2 (Google's woff2 encoder)
+*/
+const notdef = new opentype.Glyph({ name: '.notdef', advanceWidth: 500, path: new opentype.Path() })
+const glyphPath = new opentype.Path()
+glyphPath.moveTo(100, 0)
+glyphPath.lineTo(400, 0)
+glyphPath.lineTo(250, 700)
+glyphPath.close()
+const glyph = new opentype.Glyph({ name: 'A', unicode: 65, advanceWidth: 500, path: glyphPath })
+const font = new opentype.Font({
+  familyName: 'Reference',
+  styleName: 'Regular',
+  unitsPerEm: 1000,
+  ascender: 800,
+  descender: -200,
+  createdTimestamp: Date.UTC(2024, 0, 1) / 1000,
+  glyphs: [notdef, glyph]
+})
+const store = signedManifestStore()
+const c2paTable = Buffer.alloc(20 + store.length)
+c2paTable.writeUInt16BE(1, 0)
+c2paTable.writeUInt32BE(20, 12)
+c2paTable.writeUInt32BE(store.length, 16)
+c2paTable.set(store, 20)
+/* opentype.js sets the modification time of the 'head' table to the current time: set it to the creation time */
+const sfnt = Buffer.from(font.toArrayBuffer())
+const headRecord = sfnt.indexOf('head', 12, 'latin1')
+const headOffset = sfnt.readUInt32BE(headRecord + 8)
+sfnt.copy(sfnt, headOffset + 28, headOffset + 20, headOffset + 28)
+const otf = addFontTable(sfnt, 'C2PA', c2paTable)
+write('manifest_opentype.otf', otf)
+/* ttf2woff takes the flavor of the WOFF font from the font revision of the 'head' table: set it to the sfnt version */
+const woff = Buffer.from(ttf2woff(new Uint8Array(otf)))
+otf.copy(woff, 4, 0, 4)
+write('manifest_opentype.woff', woff)
+write('manifest_opentype.woff2', await wawoff2.compress(otf))
+
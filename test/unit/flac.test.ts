@@ -0,0 +1,58 @@
+/*
+ *  Copyright (c) Microsoft Corporation.
+ *  Licensed under the MIT license.
+ */
+
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { MIME } from '../../src/constants.js'
+import { decode, decodeMetadataBlocks } from '../../src/certs/flac.js'
+import { verifyHardBinding } from '../../src/certs/hardBinding.js'
+import { getManifestFromMetadata } from '../../src/certs/metadata.js'
+import { leadingTagLength } from '../../src/certs/mp3.js'
+import { sniffMimeType } from '../../src/certs/sniff.js'
+import { ascii, concat, readFixture, signedManifestStore, uint32 } from './helpers.js'
+
+const STREAMINFO = 0
+const APPLICATION = 2
+const VORBIS_COMMENT = 4
+
+function block (type: number, data: Uint8Array, last = false): Uint8Array {
+  return concat(new Uint8Array([(last ? 0x80 : 0) | type]), uint32(data.length).subarray(1), data)
+}
+
+/*
+  A FLAC stream of metadata blocks, without audio frames: the parser stops at the last metadata block
+*/
+function flac (...blocks: Uint8Array[]): Uint8Array {
+  return concat(ascii('fLaC'), block(STREAMINFO, new Uint8Array(34)), ...blocks)
+}
+
+describe('flac', () => {
+  it('extracts the manifest store of a FLAC file signed by c2pa-rs, from the ID3v2 tag before the stream', async () => {
+    const audio = readFixture('manifest_c2pa-rs.flac')
+    assert.equal(sniffMimeType(audio), MIME.FLAC)
+    assert.ok(leadingTagLength(audio) > 0)
+    assert.deepEqual(decodeMetadataBlocks(audio).map(({ type, last, data }) => ({ type, last, length: data.length })),
+      [{ type: STREAMINFO, last: false, length: 34 }, { type: VORBIS_COMMENT, last: true, length: 40 }])
+    const store = await getManifestFromMetadata(MIME.FLAC, audio)
+    assert.ok(store != null)
+    assert.deepEqual(await verifyHardBinding(store, audio), { assertion: 'c2pa.hash.data', alg: 'sha256', valid: true, errors: [] })
+  })
+
+  it('extracts the manifest store from a c2pa APPLICATION block', () => {
+    const audio = flac(block(APPLICATION, concat(ascii('riff'), new Uint8Array(4))), block(APPLICATION, concat(ascii('c2pa'), signedManifestStore()), true))
+    assert.equal(sniffMimeType(audio), MIME.FLAC)
+    assert.deepEqual(decode(audio), signedManifestStore())
+  })
+
+  it('returns null for a file without a manifest store', () => {
+    assert.equal(decode(flac(block(VORBIS_COMMENT, new Uint8Array(8), true))), null)
+  })
+
+  it('rejects a file that is not a FLAC stream, a reserved block type and a truncated block', () => {
+    assert.throws(() => decodeMetadataBlocks(ascii('OggS')), /Invalid fLaC signature/)
+    assert.throws(() => decodeMetadataBlocks(flac(block(127, new Uint8Array(0), true))), /Invalid FLAC metadata block type/)
+    assert.throws(() => decodeMetadataBlocks(flac(block(APPLICATION, new Uint8Array(8), true)).subarray(0, -1)), /Buffer too small/)
+  })
+})
@@ -0,0 +1,110 @@
+/*
+ *  Copyright (c) Microsoft Corporation.
+ *  Licensed under the MIT license.
+ */
+
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { MIME } from '../../src/constants.js'
+import { decode, decodeC2paTable, decodeTables, hasC2paTable } from '../../src/certs/font.js'
+import { getManifestFromMetadata } from '../../src/certs/metadata.js'
+import { sniffMimeType } from '../../src/certs/sniff.js'
+import { ascii, concat, readFixture, signedManifestStore, uint16, uint32 } from './helpers.js'
+
+/*
+  A WOFF2 header and table directory (no table data) listing a 'head' table and an explicitly tagged table
+*/
+function woff2 (tag: string): Uint8Array {
+  return concat(
+    ascii('wOF2'), ascii('OTTO'), uint32(64), uint16(2), new Uint8Array(34),
+    new Uint8Array([1, 54]), // head, 54 bytes
+    new Uint8Array([63]), ascii(tag), new Uint8Array([20])
+  )
+}
+
+/*
+  The tables of the fonts written by opentype.js, ttf2woff and wawoff2, with the C2PA table first
+*/
+const OPENTYPE_TABLES = ['C2PA', 'CFF ', 'OS/2', 'cmap', 'head', 'hhea', 'hmtx', 'ltag', 'maxp', 'name', 'post']
+
+describe('font', () => {
+  it('extracts the manifest store from the C2PA table of an OpenType font', async () => {
+    const otf = readFixture('manifest.otf')
+    assert.equal(sniffMimeType(otf), MIME.FONT_OTF)
+    assert.equal(await hasC2paTable(otf), true)
+    assert.deepEqual(await getManifestFromMetadata(MIME.FONT_OTF, otf), signedManifestStore())
+  })
+
+  it('extracts the manifest store from the compressed C2PA table of a WOFF font', async () => {
+    const woff = readFixture('manifest.woff')
+    assert.equal(sniffMimeType(woff), MIME.FONT_WOFF)
+    assert.equal(await hasC2paTable(woff), true)
+    assert.deepEqual(await getManifestFromMetadata(MIME.FONT_WOFF, woff), signedManifestStore())
+  })
+
+  it('extracts the manifest store from the C2PA table added to an OpenType font written by opentype.js', async () => {
+    const otf = readFixture('manifest_opentype.otf')
+    assert.equal(sniffMimeType(otf), MIME.FONT_OTF)
+    assert.deepEqual((await decodeTables(otf, [])).map((table) => table.tag), OPENTYPE_TABLES)
+    assert.deepEqual(await getManifestFromMetadata(MIME.FONT_OTF, otf), signedManifestStore())
+  })
+
+  it('extracts the manifest store from the C2PA table of the font converted to WOFF by ttf2woff', async () => {
+    const woff = readFixture('manifest_opentype.woff')
+    assert.equal(sniffMimeType(woff), MIME.FONT_WOFF)
+    // the first table record, after the 44-byte header: tag, offset, compressed and original lengths
+    const view = new DataView(woff.buffer, woff.byteOffset, woff.byteLength)
+    assert.ok(view.getUint32(52) < view.getUint32(56))
+    assert.deepEqual((await decodeTables(woff, [])).map((table) => table.tag), OPENTYPE_TABLES)
+    assert.deepEqual(await getManifestFromMetadata(MIME.FONT_WOFF, woff), signedManifestStore())
+  })
+
+  it('lists the tables of the font converted to WOFF2 by wawoff2, and reports its C2PA table as unsupported', async () => {
+    const woff2 = readFixture('manifest_opentype.woff2')
+    assert.equal(sniffMimeType(woff2), MIME.FONT_WOFF2)
+    assert.deepEqual((await decodeTables(woff2, [])).map((table) => table.tag), OPENTYPE_TABLES)
+    assert.equal(await hasC2paTable(woff2), true)
+    await assert.rejects(getManifestFromMetadata(MIME.FONT_WOFF2, woff2), /WOFF2 fonts are not supported/)
+  })
+
+  it('returns the active manifest URI of a C2PA table without a manifest store', async () => {
+    const uri = 'https://example.com/manifest.c2pa'
+    const table = concat(uint16(1), uint16(0), uint32(20), uint16(uri.length), uint16(0), uint32(0), uint32(0), ascii(uri))
+    assert.deepEqual(decodeC2paTable(table), { majorVersion: 1, minorVersion: 0, activeManifestUri: uri, manifestStore: null })
+
+    const otf = readFixture('manifest.otf')
+    // the font's only table record points to the table after the 28-byte directory
+    const font = concat(otf.subarray(0, 24), uint32(table.length), table)
+    assert.equal(await decode(font), null)
+  })
+
+  it('returns the tables shared by the fonts of a collection once', async () => {
+    const otf = readFixture('manifest.otf')
+    // two table directories, at offsets 20 and 48, whose C2PA records both point to the table at offset 76;
+    // table offsets are relative to the start of the collection
+    const directory = concat(otf.subarray(0, 20), uint32(76), otf.subarray(24, 28))
+    const collection = concat(ascii('ttcf'), uint16(1), uint16(0), uint32(2), uint32(20), uint32(48), directory, directory, otf.subarray(28))
+    assert.equal(sniffMimeType(collection), MIME.FONT_COLLECTION)
+    const tables = await decodeTables(collection, ['C2PA'])
+    assert.equal(tables.length, 1)
+    assert.deepEqual(decodeC2paTable(tables[0].data).manifestStore, signedManifestStore())
+  })
+
+  it('lists the tables of a WOFF2 font, and reports a C2PA table as unsupported', async () => {
+    assert.equal(await hasC2paTable(woff2('DSIG')), false)
+    assert.equal(await getManifestFromMetadata(MIME.FONT_WOFF2, woff2('DSIG')), null)
+    assert.equal(await hasC2paTable(woff2('C2PA')), true)
+    await assert.rejects(getManifestFromMetadata(MIME.FONT_WOFF2, woff2('C2PA')), /WOFF2 fonts are not supported: the C2PA table data is Brotli-compressed/)
+  })
+
+  it('rejects a table that ends past the end of the font', async () => {
+    const otf = readFixture('manifest.otf').slice()
+    otf.set(uint32(otf.length), 20)
+    await assert.rejects(decodeTables(otf, ['C2PA']), /Invalid font table offset: C2PA/)
+  })
+
+  it('rejects a C2PA table whose manifest store ends past the end of the table', () => {
+    assert.throws(() => decodeC2paTable(concat(uint16(1), uint16(0), uint32(0), uint16(0), uint16(0), uint32(20), uint32(100), new Uint8Array(10))),
+      /Invalid C2PA font table/)
+  })
+})
@@ -0,0 +1,55 @@
+/*
+ *  Copyright (c) Microsoft Corporation.
+ *  Licensed under the MIT license.
+ */
+
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { MIME } from '../../src/constants.js'
+import { decode, decodeApplicationExtensions } from '../../src/certs/gif.js'
+import { verifyHardBinding } from '../../src/certs/hardBinding.js'
+import { getManifestFromMetadata } from '../../src/certs/metadata.js'
+import { sniffMimeType } from '../../src/certs/sniff.js'
+import { concat, readFixture, readMedia, signedManifestStore } from './helpers.js'
+
+describe('gif', () => {
+  it('extracts the manifest store from the C2PA_GIF application extension', async () => {
+    const gif = readFixture('manifest.gif')
+    assert.equal(sniffMimeType(gif), MIME.GIF)
+    assert.deepEqual(await getManifestFromMetadata(MIME.GIF, gif), signedManifestStore())
+  })
+
+  it('extracts the manifest store of an animated image signed by c2pa-rs, whose hard binding matches', async () => {
+    const gif = readFixture('manifest_c2pa-rs.gif')
+    assert.deepEqual(decodeApplicationExtensions(gif).map((extension) => extension.identifier), ['C2PA_GIF', 'NETSCAPE'])
+    const store = await getManifestFromMetadata(MIME.GIF, gif)
+    assert.ok(store != null)
+    assert.deepEqual(await verifyHardBinding(store, gif), { assertion: 'c2pa.hash.data', alg: 'sha256', valid: true, errors: [] })
+  })
+
+  it('finds the C2PA_GIF application extension after the frames', () => {
+    const gif = readFixture('manifest_c2pa-rs.gif')
+    const { offset, length, data } = decodeApplicationExtensions(gif)[0]
+    // the extension moved before the trailer
+    const moved = concat(gif.subarray(0, offset), gif.subarray(offset + length, gif.length - 1), gif.subarray(offset, offset + length), gif.subarray(gif.length - 1))
+    assert.deepEqual(decodeApplicationExtensions(moved).map((extension) => extension.identifier), ['NETSCAPE', 'C2PA_GIF'])
+    assert.deepEqual(decode(moved), data)
+  })
+
+  it('returns null for an image without a manifest store', () => {
+    assert.equal(decode(readMedia('cards.gif')), null)
+  })
+
+  it('rejects an application extension with an invalid header size', () => {
+    const gif = readFixture('manifest.gif').slice()
+    const { offset } = decodeApplicationExtensions(gif)[0]
+    gif[offset + 2] = 10
+    assert.throws(() => decode(gif), /Invalid GIF application extension/)
+  })
+
+  it('rejects a data sub-block cut off by the end of the file', () => {
+    const gif = readFixture('manifest.gif')
+    const { offset } = decodeApplicationExtensions(gif)[0]
+    assert.throws(() => decode(gif.subarray(0, offset + 1000)), /Buffer too small/)
+  })
+})
@@ -0,0 +1,130 @@
+/*
+ *  Copyright (c) Microsoft Corporation.
+ *  Licensed under the MIT license.
+ */
+
+import assert from 'node:assert/strict'
+import { createHash } from 'node:crypto'
+import { describe, it } from 'node:test'
+import { MIME } from '../../src/constants.js'
+import { decodeBoxMap } from '../../src/certs/boxHash.js'
+import { encode, type CBORType } from '../../src/certs/cbor.js'
+import { verifyHardBinding } from '../../src/certs/hardBinding.js'
+import { getManifestFromMetadata } from '../../src/certs/metadata.js'
+import { decodeDirectory } from '../../src/certs/zip.js'
+import { contentBox, jumbfBox, readFixture, readMedia } from './helpers.js'
+
+/*
+  A manifest whose assertion store holds a hash assertion
+*/
+function manifest (urn: string, label: string, assertion: CBORType): Uint8Array {
+  return jumbfBox(urn, 'c2ma', jumbfBox('c2pa.assertions', 'c2as', jumbfBox(label, 'cbor', contentBox('cbor', encode(assertion)))))
+}
+
+/*
+  A manifest store with a single manifest
+*/
+function manifestStore (label: string, assertion: CBORType): Uint8Array {
+  return jumbfBox('c2pa', 'c2pa', manifest('urn:c2pa:6a1e2b9c-2d6a-4d7e-9a57-1c1f4b0e2f11', label, assertion))
+}
+
+function sha256 (data: Uint8Array): Uint8Array {
+  return new Uint8Array(createHash('sha256').update(data).digest())
+}
+
+/*
+  A box hash of a PNG or JPEG image, one box per entry
+*/
+function boxHash (asset: Uint8Array): { boxes: Array<{ names: string[], hash: Uint8Array }> } {
+  const boxes = decodeBoxMap(asset) ?? []
+  return { boxes: boxes.map(({ name, offset, length }) => ({ names: [name], hash: sha256(asset.subarray(offset, offset + length)) })) }
+}
+
+describe('hardBinding', () => {
+  it('verifies the data hash of a signed JPEG image', async () => {
+    const asset = readMedia('cards_trusted.jpg')
+    const store = await getManifestFromMetadata(MIME.JPEG, asset)
+    assert.ok(store != null)
+    assert.deepEqual(await verifyHardBinding(store, asset), { assertion: 'c2pa.hash.data', alg: 'sha256', valid: true, errors: [] })
+  })
+
+  it('reports the ranges and hashes of a data hash mismatch', async () => {
+    const asset = readMedia('cards_invalid.jpg')
+    const store = await getManifestFromMetadata(MIME.JPEG, asset)
+    assert.ok(store != null)
+    const result = await verifyHardBinding(store, asset)
+    assert.equal(result?.valid, false)
+    assert.match(result?.errors[0] ?? '', /^c2pa\.hash\.data: hash of bytes 0-\d+, \d+-\d+ does not match: expected [0-9a-f]{64}, actual [0-9a-f]{64}$/)
+  })
+
+  it('verifies the hash assertion of the manifest labelled active, or else of the last manifest', async () => {
+    const asset = readMedia('cards.jpg')
+    const store = jumbfBox('c2pa', 'c2pa',
+      manifest('urn:c2pa:active', 'c2pa.hash.data', { exclusions: [], alg: 'sha256', hash: sha256(asset) }),
+      manifest('urn:c2pa:last', 'c2pa.hash.data', { exclusions: [], alg: 'sha256', hash: new Uint8Array(32) }))
+    assert.deepEqual(await verifyHardBinding(store, asset, 'urn:c2pa:active'), { assertion: 'c2pa.hash.data', alg: 'sha256', valid: true, errors: [] })
+    assert.equal((await verifyHardBinding(store, asset))?.valid, false)
+    assert.equal(await verifyHardBinding(store, asset, 'urn:c2pa:unknown'), null)
+  })
+
+  it('reports data hash exclusions outside the asset', async () => {
+    const asset = readMedia('cards.jpg')
+    const store = manifestStore('c2pa.hash.data', { exclusions: [{ start: asset.length - 1, length: 2 }], alg: 'sha256', hash: new Uint8Array(32) })
+    assert.deepEqual((await verifyHardBinding(store, asset))?.errors, [`c2pa.hash.data: exclusion ${asset.length - 1}+2 is outside the asset`])
+  })
+
+  it('verifies a box hash, and reports the boxes that do not match', async () => {
+    const asset = readMedia('cards.png')
+    const store = manifestStore('c2pa.hash.boxes', boxHash(asset))
+    assert.deepEqual(await verifyHardBinding(store, asset), { assertion: 'c2pa.hash.boxes', alg: 'sha256', valid: true, errors: [] })
+
+    const modified = asset.slice()
+    const idat = decodeBoxMap(asset)?.find((box) => box.name === 'IDAT')
+    assert.ok(idat != null)
+    modified[idat.offset + 8] ^= 0xFF
+    const result = await verifyHardBinding(store, modified)
+    assert.equal(result?.valid, false)
+    assert.equal(result?.errors.length, 1)
+    assert.match(result?.errors[0] ?? '', new RegExp(`^c2pa\\.hash\\.boxes: hash of IDAT \\(bytes ${idat.offset}-${idat.offset + idat.length - 1}\\) does not match`))
+  })
+
+  it('reports boxes that are not covered by a box hash', async () => {
+    const asset = readMedia('cards.jpg')
+    const { boxes } = boxHash(asset)
+    const store = manifestStore('c2pa.hash.boxes', { boxes: boxes.slice(0, -1) })
+    assert.match((await verifyHardBinding(store, asset))?.errors[0] ?? '', /^c2pa\.hash\.boxes: EOI from offset \d+ is not covered by the box hash$/)
+  })
+
+  it('reports a box hash of an unsupported format, and a malformed box hash, as mismatches', async () => {
+    const gif = readMedia('cards.gif')
+    assert.deepEqual((await verifyHardBinding(manifestStore('c2pa.hash.boxes', { boxes: [] }), gif))?.errors,
+      ['c2pa.hash.boxes: box hashes are only supported for JPEG and PNG assets'])
+    assert.deepEqual(await verifyHardBinding(manifestStore('c2pa.hash.boxes', { boxes: [{ names: 'IHDR', hash: new Uint8Array(32) }] }), readMedia('cards.png')),
+      { assertion: 'c2pa.hash.boxes', alg: '', valid: false, errors: ['c2pa.hash.boxes: Expected box names to be an array'] })
+  })
+
+  it('verifies a collection hash of the entries and central directory of a ZIP-based document', async () => {
+    const epub = readFixture('manifest.epub')
+    const directory = decodeDirectory(epub)
+    const entries = directory.entries.filter((entry) => entry.name !== 'META-INF/content_credential.c2pa')
+    const manifestRecord = directory.entries.find((entry) => entry.name === 'META-INF/content_credential.c2pa')
+    assert.ok(manifestRecord != null)
+    // the central directory and the end of central directory record, without the CRC-32 of the manifest entry's record
+    const crc32Offset = manifestRecord.recordOffset + 16
+    const centralDirectory = new Uint8Array([...epub.subarray(directory.centralDirectoryOffset, crc32Offset), ...epub.subarray(crc32Offset + 4)])
+    const store = manifestStore('c2pa.hash.collection.data', {
+      uris: entries.map((entry) => ({ uri: entry.name, hash: sha256(epub.subarray(entry.localHeaderOffset, entry.end)) })),
+      alg: 'sha256',
+      zip_central_directory_hash: sha256(centralDirectory)
+    })
+    assert.deepEqual(await verifyHardBinding(store, epub), { assertion: 'c2pa.hash.collection.data', alg: 'sha256', valid: true, errors: [] })
+
+    const modified = epub.slice()
+    modified[entries[0].dataOffset] ^= 0xFF
+    assert.deepEqual((await verifyHardBinding(store, modified))?.errors, ['c2pa.hash.collection.data: hash of mimetype does not match'])
+  })
+
+  it('returns null for a manifest without a hash assertion', async () => {
+    assert.equal(await verifyHardBinding(manifestStore('c2pa.actions', { actions: [] }), readMedia('cards.jpg')), null)
+  })
+})
@@ -0,0 +1,77 @@
+/*
+ *  Copyright (c) Microsoft Corporation.
+ *  Licensed under the MIT license.
+ */
+
+import { readFileSync } from 'node:fs'
+import { decode as svgDecode } from '../../src/certs/svg.js'
+
+/**
+ * Reads a file of the test/media folder.
+ */
+export function readMedia (name: string): Uint8Array {
+  return new Uint8Array(readFileSync(new URL(`../media/${name}`, import.meta.url)))
+}
+
+/**
+ * Reads a file of the test/unit/fixtures folder.
+ */
+export function readFixture (name: string): Uint8Array {
+  return new Uint8Array(readFileSync(new URL(`fixtures/${name}`, import.meta.url)))
+}
+
+/**
+ * Returns the manifest store of media/cards_trusted.svg, signed by sign-test-files.sh with the trusted test certificates.
+ * The fixtures of the other formats embed this manifest store.
+ */
+export function signedManifestStore (): Uint8Array {
+  const store = svgDecode(readMedia('cards_trusted.svg'))
+  if (store == null) {
+    throw new Error('media/cards_trusted.svg has no manifest store')
+  }
+  return store
+}
+
+/*
+  Helpers to build binary test data; multi-byte integers are big-endian unless littleEndian is set, as with ByteReader
+*/
+
+export function concat (...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    result.set(part, offset)
+    offset += part.length
+  }
+  return result
+}
+
+export function ascii (text: string): Uint8Array {
+  return new Uint8Array(Array.from(text, (char) => char.charCodeAt(0)))
+}
+
+export function uint16 (value: number, littleEndian = false): Uint8Array {
+  const bytes = new Uint8Array(2)
+  new DataView(bytes.buffer).setUint16(0, value, littleEndian)
+  return bytes
+}
+
+export function uint32 (value: number, littleEndian = false): Uint8Array {
+  const bytes = new Uint8Array(4)
+  new DataView(bytes.buffer).setUint32(0, value, littleEndian)
+  return bytes
+}
+
+/**
+ * Builds a JUMBF superbox: a description box with the label and the content type (a 4-character code, e.g. 'c2cl'
+ * for a claim, followed by the C2PA UUID suffix), then the boxes.
+ */
+export function jumbfBox (label: string, contentType: string, ...boxes: Uint8Array[]): Uint8Array {
+  const description = concat(ascii(contentType), new Uint8Array([0x00, 0x11, 0x00, 0x10, 0x80, 0x00, 0x00, 0xAA, 0x00, 0x38, 0x9B, 0x71]),
+    new Uint8Array([0x03]), ascii(`${label}\0`)) // toggles: requestable, label
+  return contentBox('jumb', concat(contentBox('jumd', description), ...boxes))
+}
+
+export function contentBox (type: string, data: Uint8Array): Uint8Array {
+  return concat(uint32(8 + data.length), ascii(type), data)
+}
@@ -0,0 +1,75 @@
+/*
+ *  Copyright (c) Microsoft Corporation.
+ *  Licensed under the MIT license.
+ */
+
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { exportApp11 } from '../../src/certs/jpeg.js'
+import { decode, decodeBoxes } from '../../src/certs/jpegxt.js'
+import { decode as jumbfDecode } from '../../src/certs/jumbf.js'
+import { ascii, concat, jumbfBox, readMedia, signedManifestStore, uint16, uint32 } from './helpers.js'
+
+const C2PA_MANIFEST_STORE_UUID = '6332706100110010800000aa00389b71'
+
+/*
+  Splits a box into APP11 segments of at most size content bytes, each starting with the segment length,
+  the 'JP' common identifier, the box instance number, the packet sequence number and the box header
+*/
+function segments (box: Uint8Array, instance: number, size: number, header = box.subarray(0, 8)): Uint8Array[] {
+  const content = box.subarray(8)
+  const result: Uint8Array[] = []
+  for (let offset = 0, sequence = 1; offset < content.length; offset += size, sequence++) {
+    const data = concat(header, content.subarray(offset, offset + size))
+    result.push(concat(uint16(10 + data.length), ascii('JP'), uint16(instance), uint32(sequence), data))
+  }
+  return result
+}
+
+describe('jpegxt', () => {
+  it('extracts the manifest store of a signed JPEG image', () => {
+    const boxes = decodeBoxes(exportApp11(readMedia('cards_trusted.jpg')))
+    assert.deepEqual(boxes.map(({ boxType, uuid, error }) => ({ boxType, uuid, error })), [{ boxType: 'jumb', uuid: C2PA_MANIFEST_STORE_UUID, error: null }])
+    const store = decode(exportApp11(readMedia('cards_trusted.jpg')))
+    assert.ok(store != null)
+    assert.equal(jumbfDecode(store).label, 'c2pa')
+  })
+
+  it('reassembles the segments of every box instance in packet sequence order, and returns the other boxes', () => {
+    const store = signedManifestStore()
+    const other = jumbfBox('other', 'json', new Uint8Array(64))
+    const notJpegXt = concat(uint16(20), ascii('XX'), new Uint8Array(16))
+    const app11 = [...segments(other, 1, 40), notJpegXt, ...segments(store, 2, 1000).reverse()]
+    assert.deepEqual(decode(app11), store)
+
+    const boxes = decodeBoxes(app11)
+    assert.deepEqual(boxes.map(({ boxType, boxInstanceNumber, uuid, jumbf, error }) => ({ boxType, boxInstanceNumber, uuid, jumbf, error })), [
+      { boxType: 'jumb', boxInstanceNumber: 1, uuid: '6a736f6e00110010800000aa00389b71', jumbf: other, error: null },
+      { boxType: 'jumb', boxInstanceNumber: 2, uuid: C2PA_MANIFEST_STORE_UUID, jumbf: store, error: null }
+    ])
+  })
+
+  it('returns null without a C2PA manifest store', () => {
+    assert.equal(decode(segments(jumbfBox('other', 'json'), 1, 100)), null)
+    assert.equal(decode([concat(uint16(20), ascii('XX'), new Uint8Array(16))]), null)
+  })
+
+  it('reassembles a box of length 0, which extends to the end of its data, into a box of its total length', () => {
+    const store = signedManifestStore()
+    assert.deepEqual(decode(segments(store, 1, 1000, concat(uint32(0), ascii('jumb')))), store)
+  })
+
+  it('reassembles a box with an extended length', () => {
+    const store = signedManifestStore()
+    const header = concat(uint32(1), ascii('jumb'), uint32(0), uint32(store.length + 8))
+    assert.deepEqual(decode(segments(store, 1, 1000, header)), concat(header, store.subarray(8)))
+  })
+
+  it('reports a box whose segments do not repeat its length, and throws for the C2PA manifest store', () => {
+    const store = signedManifestStore()
+    const app11 = segments(store, 1, 1000)
+    app11.splice(1, 1, ...segments(store, 1, 1000, concat(uint32(0), ascii('jumb'))).slice(1, 2))
+    assert.equal(decodeBoxes(app11)[0].error, 'Invalid box length')
+    assert.throws(() => decode(app11), /Invalid box length/)
+  })
+})
@@ -0,0 +1,56 @@
+/*
+ *  Copyright (c) Microsoft Corporation.
+ *  Licensed under the MIT license.
+ */
+
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { childBox, decode, manifests, resolveUri, type JumbfBox } from '../../src/certs/jumbf.js'
+import { ascii, concat, signedManifestStore, uint32 } from './helpers.js'
+
+function label (box: unknown): string | undefined {
+  return (box as JumbfBox).label
+}
+
+describe('jumbf', () => {
+  it('decodes the manifest store into its manifests and their boxes', () => {
+    const store = decode(signedManifestStore())
+    assert.equal(store.label, 'c2pa')
+    assert.equal(store.length, signedManifestStore().length)
+    const [manifest] = manifests(store)
+    assert.match(manifest.label ?? '', /^urn:(uuid|c2pa):/)
+    assert.ok(childBox(manifest, 'c2pa.assertions') != null)
+    assert.ok(childBox(manifest, 'c2pa.signature') != null)
+    assert.equal(childBox(manifest, 'c2pa.missing'), null)
+  })
+
+  it('resolves absolute and relative JUMBF URIs', () => {
+    const store = decode(signedManifestStore())
+    const [manifest] = manifests(store)
+    const absolute = resolveUri(store, `self#jumbf=/c2pa/${manifest.label ?? ''}/c2pa.assertions`)
+    assert.ok(absolute != null)
+    assert.equal(label(absolute.box), 'c2pa.assertions')
+    // the resolved bytes are the whole box, header included
+    assert.deepEqual(absolute.bytes.subarray(0, 4), uint32(absolute.bytes.length))
+    assert.equal(resolveUri(store, 'self#jumbf=c2pa.assertions', manifest)?.box, absolute.box)
+    assert.equal(label(resolveUri(store, `self#jumbf=c2pa/${encodeURIComponent(manifest.label ?? '')}/c2pa.signature`)?.box), 'c2pa.signature')
+  })
+
+  it('returns null for references to other assets and for missing boxes', () => {
+    const store = decode(signedManifestStore())
+    assert.equal(resolveUri(store, 'https://example.com/manifest.c2pa#jumbf=/c2pa'), null)
+    assert.equal(resolveUri(store, 'self#jumbf=/c2pa/urn:uuid:00000000-0000-0000-0000-000000000000'), null)
+    assert.equal(resolveUri(store, 'self#jumbf='), null)
+  })
+
+  it('rejects a box that overruns the buffer', () => {
+    const bytes = signedManifestStore().slice()
+    bytes.set(uint32(bytes.length + 1), 0)
+    assert.throws(() => decode(bytes), /Invalid JUMBF box length: 'jumb' at offset 0/)
+  })
+
+  it('rejects a content box at the top level, and a superbox without a description box', () => {
+    assert.throws(() => decode(concat(uint32(8), ascii('json'))), /Expected a JUMBF superbox, found 'json'/)
+    assert.throws(() => decode(concat(uint32(16), ascii('jumb'), uint32(8), ascii('json'))), /Expected a JUMBF description box at offset 8, found 'json'/)
+  })
+})
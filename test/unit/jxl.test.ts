@@ -0,0 +1,52 @@
+/*
+ *  Copyright (c) Microsoft Corporation.
+ *  Licensed under the MIT license.
+ */
+
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { MIME } from '../../src/constants.js'
+import { verifyHardBinding } from '../../src/certs/hardBinding.js'
+import { decode, decodeJxlBoxes } from '../../src/certs/jxl.js'
+import { getManifestFromMetadata } from '../../src/certs/metadata.js'
+import { sniffMimeType } from '../../src/certs/sniff.js'
+import { ascii, concat, contentBox, jumbfBox, readFixture, signedManifestStore, uint32 } from './helpers.js'
+
+const JXL_SIGNATURE_BOX = concat(uint32(12), ascii('JXL '), new Uint8Array([0x0D, 0x0A, 0x87, 0x0A]))
+
+describe('jxl', () => {
+  it('extracts the manifest store from the jumb box', async () => {
+    const jxl = readFixture('manifest.jxl')
+    assert.equal(sniffMimeType(jxl), MIME.JXL)
+    assert.deepEqual(await getManifestFromMetadata(MIME.JXL, jxl), signedManifestStore())
+  })
+
+  it('extracts the manifest store of an image signed by c2pa-rs, whose hard binding matches', async () => {
+    const jxl = readFixture('manifest_c2pa-rs.jxl')
+    assert.deepEqual(decodeJxlBoxes(jxl).map((box) => box.type), ['JXL ', 'ftyp', 'jumb', 'jxlc'])
+    const store = await getManifestFromMetadata(MIME.JXL, jxl)
+    assert.ok(store != null)
+    assert.deepEqual(await verifyHardBinding(store, jxl), { assertion: 'c2pa.hash.data', alg: 'sha256', valid: true, errors: [] })
+  })
+
+  it('skips a JUMBF box that is not a C2PA manifest store', async () => {
+    const other = jumbfBox('other', 'json', contentBox('json', ascii('{}')))
+    const jxl = concat(JXL_SIGNATURE_BOX, other, signedManifestStore())
+    assert.deepEqual(decode(jxl), signedManifestStore())
+    assert.equal(decode(concat(JXL_SIGNATURE_BOX, other)), null)
+  })
+
+  it('returns null for a bare codestream', async () => {
+    assert.equal(await getManifestFromMetadata(MIME.JXL, new Uint8Array([0xFF, 0x0A, 0x00, 0x00])), null)
+  })
+
+  it('reports a Brotli-compressed manifest store as unsupported', () => {
+    const jxl = concat(JXL_SIGNATURE_BOX, uint32(16), ascii('brob'), ascii('jumb'), new Uint8Array(4))
+    assert.throws(() => decode(jxl), /Brotli-compressed \(brob\) JPEG XL manifest stores are not supported/)
+  })
+
+  it('rejects a brob box that holds a codestream', () => {
+    const jxl = concat(JXL_SIGNATURE_BOX, uint32(16), ascii('brob'), ascii('jxlc'), new Uint8Array(4))
+    assert.throws(() => decode(jxl), /Invalid JPEG XL brob box type: jxlc/)
+  })
+})
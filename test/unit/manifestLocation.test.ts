@@ -0,0 +1,86 @@
+/*
+ *  Copyright (c) Microsoft Corporation.
+ *  Licensed under the MIT license.
+ */
+
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { MIME } from '../../src/constants.js'
+import { getLinkedManifestUrl, getRemoteManifestUrl, getSidecarUrl } from '../../src/certs/manifestLocation.js'
+import { getManifestFromMetadata } from '../../src/certs/metadata.js'
+import { sniffMimeType } from '../../src/certs/sniff.js'
+import { ascii, concat, readMedia, signedManifestStore, uint16 } from './helpers.js'
+
+const ASSET_URL = 'https://example.com/images/cards.jpg'
+
+/*
+  A JPEG image of a SOI marker and an APP1 segment holding an XMP packet
+*/
+function jpegWithXmp (description: string): Uint8Array {
+  const xmp = ascii('http://ns.adobe.com/xap/1.0/\0' +
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">' +
+    `<rdf:Description rdf:about="" xmlns:dcterms="http://purl.org/dc/terms/"${description}</rdf:RDF></x:xmpmeta>`)
+  return concat(new Uint8Array([0xFF, 0xD8, 0xFF, 0xE1]), uint16(xmp.length + 2), xmp, new Uint8Array([0xFF, 0xD9]))
+}
+
+describe('manifestLocation', () => {
+  it('names the sidecar manifest store after the asset, without its query and fragment', () => {
+    assert.equal(getSidecarUrl('https://example.com/images/cards.jpg'), 'https://example.com/images/cards.c2pa')
+    assert.equal(getSidecarUrl('https://example.com/images/cards.jpg?width=200#top'), 'https://example.com/images/cards.c2pa')
+    assert.equal(getSidecarUrl('http://example.com/archive.tar.gz'), 'http://example.com/archive.tar.c2pa')
+    assert.equal(getSidecarUrl('https://example.com/media/cards'), 'https://example.com/media/cards.c2pa')
+    assert.equal(getSidecarUrl('https://example.com/.hidden'), 'https://example.com/.hidden.c2pa')
+    assert.equal(getSidecarUrl('https://example.com/cards%20trusted.png'), 'https://example.com/cards%20trusted.c2pa')
+  })
+
+  it('has no sidecar for URLs that do not name a file, .c2pa files and assets not fetched over HTTP(S)', () => {
+    assert.equal(getSidecarUrl('https://example.com/images/'), null)
+    assert.equal(getSidecarUrl('https://example.com/images/cards.c2pa'), null)
+    assert.equal(getSidecarUrl('file:///home/user/cards.jpg'), null)
+    assert.equal(getSidecarUrl('data:image/png;base64,iVBORw0KGgo='), null)
+    assert.equal(getSidecarUrl('blob:https://example.com/5f0c7a9e-4e0b-4f8a-9c1d-2b3e4f5a6b7c'), null)
+  })
+
+  it('reads a sidecar file as a bare manifest store, whatever its declared type', async () => {
+    const sidecar = signedManifestStore()
+    assert.equal(sniffMimeType(sidecar), MIME.C2PA)
+    assert.deepEqual(await getManifestFromMetadata(MIME.C2PA, sidecar), sidecar)
+    assert.deepEqual(await getManifestFromMetadata(MIME.X_C2PA_MANIFEST_STORE, sidecar), sidecar)
+    assert.equal(await getManifestFromMetadata(MIME.C2PA, readMedia('cards.jpg')), null)
+  })
+
+  it('prefers the dcterms:provenance reference of the XMP to the Link header', () => {
+    const jpeg = jpegWithXmp(' dcterms:provenance="https://manifests.example.com/cards.c2pa"/>')
+    const link = '<https://example.com/linked.c2pa>; rel="c2pa-manifest"'
+    assert.equal(getRemoteManifestUrl(ASSET_URL, MIME.JPEG, jpeg, link), 'https://manifests.example.com/cards.c2pa')
+  })
+
+  it('falls back to the Link header when the XMP has no reference, or is malformed, or the asset has no XMP', () => {
+    const link = '<https://example.com/linked.c2pa>; rel="c2pa-manifest"'
+    const withoutReference = jpegWithXmp(' xmlns:dc="http://purl.org/dc/elements/1.1/" dc:format="image/jpeg"/>')
+    assert.equal(getRemoteManifestUrl(ASSET_URL, MIME.JPEG, withoutReference, link), 'https://example.com/linked.c2pa')
+    // the end tag does not match rdf:Description, before the reference
+    const malformed = jpegWithXmp('></x:other><rdf:Description dcterms:provenance="https://manifests.example.com/cards.c2pa"/>')
+    assert.equal(getRemoteManifestUrl(ASSET_URL, MIME.JPEG, malformed, link), 'https://example.com/linked.c2pa')
+    assert.equal(getRemoteManifestUrl(ASSET_URL, MIME.JPEG, readMedia('cards.jpg'), link), 'https://example.com/linked.c2pa')
+    assert.equal(getRemoteManifestUrl(ASSET_URL, MIME.JPEG, readMedia('cards.jpg'), null), null)
+  })
+
+  it('resolves a relative reference against the asset URL, and only follows HTTP(S) references', () => {
+    const relative = jpegWithXmp('><dcterms:provenance rdf:resource="../manifests/cards.c2pa"/></rdf:Description>')
+    assert.equal(getRemoteManifestUrl(ASSET_URL, MIME.JPEG, relative, null), 'https://example.com/manifests/cards.c2pa')
+    assert.equal(getRemoteManifestUrl(ASSET_URL, MIME.JPEG, readMedia('cards.jpg'), '</cards.c2pa>; rel=c2pa-manifest'), 'https://example.com/cards.c2pa')
+    const file = jpegWithXmp('><dcterms:provenance>file:///etc/cards.c2pa</dcterms:provenance></rdf:Description>')
+    assert.equal(getRemoteManifestUrl(ASSET_URL, MIME.JPEG, file, '<https://example.com/linked.c2pa>; rel="c2pa-manifest"'), null)
+    assert.equal(getRemoteManifestUrl(ASSET_URL, MIME.JPEG, readMedia('cards.jpg'), '<>; rel="c2pa-manifest"'), null)
+  })
+
+  it('finds the c2pa-manifest link among the links of a Link header', () => {
+    assert.equal(getLinkedManifestUrl('<https://example.com/style.css>; rel=stylesheet, <https://example.com/a,b.c2pa>; rel="alternate C2PA-Manifest"'),
+      'https://example.com/a,b.c2pa')
+    assert.equal(getLinkedManifestUrl('<https://example.com/first.c2pa>;rel=c2pa-manifest;type="application/c2pa",<https://example.com/second.c2pa>; rel=c2pa-manifest'),
+      'https://example.com/first.c2pa')
+    assert.equal(getLinkedManifestUrl('<https://example.com/cards.c2pa>; rel="c2pa-manifest-store"'), null)
+    assert.equal(getLinkedManifestUrl('https://example.com/cards.c2pa; rel="c2pa-manifest"'), null)
+  })
+})
@@ -0,0 +1,54 @@
+/*
+ *  Copyright (c) Microsoft Corporation.
+ *  Licensed under the MIT license.
+ */
+
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { MIME } from '../../src/constants.js'
+import { childBox, decode as jumbfDecode, isContentBox, manifests, type JumbfResult } from '../../src/certs/jumbf.js'
+import { extractManifestSignatures } from '../../src/certs/manifestSignatures.js'
+import { getManifestFromMetadata } from '../../src/certs/metadata.js'
+import { readMedia } from './helpers.js'
+
+const INGREDIENT_LABEL = 'urn:uuid:4c27da49-3ecf-452d-b7a9-c433fad86d3a'
+const ACTIVE_LABEL = 'urn:uuid:8381c54c-77c0-48d7-b7dd-164db2456ccb'
+
+/*
+  The manifest store of media/DALL-E_cloud_surfing_puppy.webp: the manifest of the generated image,
+  then the active manifest of the edit that has it as ingredient
+*/
+async function twoManifestStore (): Promise<JumbfResult> {
+  const store = await getManifestFromMetadata(MIME.WEBP, readMedia('DALL-E_cloud_surfing_puppy.webp'))
+  assert.ok(store != null)
+  return jumbfDecode(store.slice())
+}
+
+describe('manifestSignatures', () => {
+  it('verifies the claim signature of every manifest, keyed by manifest label in store order', async () => {
+    const signatures = await extractManifestSignatures(await twoManifestStore())
+    assert.deepEqual(Object.keys(signatures), [INGREDIENT_LABEL, ACTIVE_LABEL])
+    assert.deepEqual(Object.values(signatures).map(({ signature, certChain, tstTokens }) => ({ signature, signer: certChain?.[0].subject.CN, tstTokens: tstTokens?.length })), [
+      { signature: { alg: 'ES256', algDescription: 'ECDSA w/ SHA-256', valid: true, errors: [] }, signer: 'Truepic Lens CLI in DALL·E', tstTokens: 1 },
+      { signature: { alg: 'ES256', algDescription: 'ECDSA w/ SHA-256', valid: true, errors: [] }, signer: 'Truepic Lens CLI in ChatGPT', tstTokens: 1 }
+    ])
+  })
+
+  it('reports the signature of a tampered claim against its own manifest only', async () => {
+    const store = await twoManifestStore()
+    const claim = childBox(manifests(store)[0], 'c2pa.claim')?.boxes[0] ?? childBox(manifests(store)[0], 'c2pa.claim.v2')?.boxes[0]
+    assert.ok(claim != null && isContentBox(claim))
+    claim.data[claim.data.length - 1] ^= 0xFF
+    const signatures = await extractManifestSignatures(store)
+    assert.deepEqual(signatures[INGREDIENT_LABEL].signature.errors, ['COSE ES256 signature does not match the claim'])
+    assert.equal(signatures[INGREDIENT_LABEL].signature.valid, false)
+    assert.equal(signatures[ACTIVE_LABEL].signature.valid, true)
+  })
+
+  it('leaves out a manifest without a claim signature', async () => {
+    const store = await twoManifestStore()
+    const manifest = manifests(store)[1]
+    manifest.boxes = manifest.boxes.filter((box) => box !== childBox(manifest, 'c2pa.signature'))
+    assert.deepEqual(Object.keys(await extractManifestSignatures(store)), [INGREDIENT_LABEL])
+  })
+})
@@ -0,0 +1,61 @@
+/*
+ *  Copyright (c) Microsoft Corporation.
+ *  Licensed under the MIT license.
+ */
+
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { MIME } from '../../src/constants.js'
+import { verifyHardBinding } from '../../src/certs/hardBinding.js'
+import { decode as jumbfDecode } from '../../src/certs/jumbf.js'
+import { getManifestFromMetadata } from '../../src/certs/metadata.js'
+import { decode, decodeTag } from '../../src/certs/mp3.js'
+import { sniffMimeType } from '../../src/certs/sniff.js'
+import { ascii, concat, readFixture, readMedia, signedManifestStore, uint32 } from './helpers.js'
+
+function syncSafe (size: number): Uint8Array {
+  return new Uint8Array([(size >> 21) & 0x7F, (size >> 14) & 0x7F, (size >> 7) & 0x7F, size & 0x7F])
+}
+
+/*
+  An ID3v2.3 tag with a GEOB frame holding the manifest store, followed by an MPEG audio frame header
+*/
+function mp3 (frameSize: number | null = null): Uint8Array {
+  const geob = concat(new Uint8Array([0]), ascii('application/x-c2pa-manifest-store\0'), ascii('c2pa\0'), ascii('\0'), signedManifestStore())
+  const frame = concat(ascii('GEOB'), uint32(frameSize ?? geob.length), new Uint8Array(2), geob)
+  return concat(ascii('ID3'), new Uint8Array([3, 0, 0]), syncSafe(frame.length), frame, new Uint8Array([0xFF, 0xFB, 0x90, 0x00]))
+}
+
+describe('mp3', () => {
+  it('extracts the manifest store of a signed MP3 file', async () => {
+    const audio = readMedia('cicadas_trusted.mp3')
+    assert.equal(sniffMimeType(audio), MIME.MPEG)
+    const store = await getManifestFromMetadata(MIME.MPEG, audio)
+    assert.ok(store != null)
+    assert.equal(jumbfDecode(store).label, 'c2pa')
+  })
+
+  it('extracts the manifest store of an MP3 file signed by c2pa-rs, from a GEOB frame of type application/c2pa', async () => {
+    const audio = readFixture('manifest_c2pa-rs.mp3')
+    assert.equal(sniffMimeType(audio), MIME.MPEG)
+    const tag = decodeTag(audio)
+    assert.equal(tag?.version, 4)
+    assert.deepEqual(tag?.frames.map((frame) => frame.id), ['TXXX', 'TIT2', 'TSSE', 'TPUB', 'GEOB'])
+    const store = await getManifestFromMetadata(MIME.MPEG, audio)
+    assert.ok(store != null)
+    assert.deepEqual(await verifyHardBinding(store, audio), { assertion: 'c2pa.hash.data', alg: 'sha256', valid: true, errors: [] })
+  })
+
+  it('extracts the manifest store from the GEOB frame of an ID3v2.3 tag', () => {
+    assert.equal(decodeTag(mp3())?.version, 3)
+    assert.deepEqual(decode(mp3()), signedManifestStore())
+  })
+
+  it('returns null for a file without an ID3 tag', () => {
+    assert.equal(decode(new Uint8Array([0xFF, 0xFB, 0x90, 0x00])), null)
+  })
+
+  it('rejects a frame larger than the tag', () => {
+    assert.throws(() => decode(mp3(0x7FFFFFFF)), /Invalid ID3 frame size: GEOB/)
+  })
+})
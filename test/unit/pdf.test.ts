@@ -0,0 +1,55 @@
+/*
+ *  Copyright (c) Microsoft Corporation.
+ *  Licensed under the MIT license.
+ */
+
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { MIME } from '../../src/constants.js'
+import { getManifestFromMetadata } from '../../src/certs/metadata.js'
+import { decode, PdfDocument } from '../../src/certs/pdf.js'
+import { sniffMimeType } from '../../src/certs/sniff.js'
+import { readFixture, signedManifestStore } from './helpers.js'
+
+describe('pdf', () => {
+  it('extracts the manifest store from the C2PA embedded file', async () => {
+    const pdf = readFixture('manifest.pdf')
+    assert.equal(sniffMimeType(pdf), MIME.PDF)
+    assert.deepEqual(await getManifestFromMetadata(MIME.PDF, pdf), signedManifestStore())
+  })
+
+  it('reads the objects indexed by an xref stream with a PNG predictor', async () => {
+    assert.deepEqual(await decode(readFixture('manifest_xref_stream.pdf')), signedManifestStore())
+  })
+
+  it('reads the objects of object streams, in a document saved by pdf-lib', async () => {
+    const pdf = readFixture('manifest_pdf-lib.pdf')
+    assert.equal(sniffMimeType(pdf), MIME.PDF)
+    const document = await PdfDocument.load(pdf)
+    const fileSpec = await document.findC2paFileSpec()
+    assert.ok(fileSpec != null)
+    assert.equal(await document.resolve(fileSpec.entries.AFRelationship), null)
+    assert.deepEqual(await decode(pdf), signedManifestStore())
+  })
+
+  it('follows an incremental update through /Prev, choosing the file specification of the most recent revision', async () => {
+    const pdf = readFixture('manifest_update.pdf')
+    const document = await PdfDocument.load(pdf)
+    const catalog = await document.catalog()
+    assert.deepEqual(catalog?.entries.AF, [{ type: 'ref', num: 6, gen: 0 }, { type: 'ref', num: 4, gen: 0 }])
+    assert.deepEqual(await decode(pdf), signedManifestStore())
+  })
+
+  it('does not resolve an object deleted by an incremental update', async () => {
+    const pdf = readFixture('manifest_deleted.pdf')
+    const document = await PdfDocument.load(pdf)
+    assert.equal(await document.resolve({ type: 'ref', num: 4, gen: 0 }), null)
+    assert.equal(await decode(pdf), null)
+  })
+
+  it('rejects a document without startxref', async () => {
+    const pdf = readFixture('manifest.pdf')
+    const end = new TextDecoder('latin1').decode(pdf).lastIndexOf('startxref')
+    await assert.rejects(decode(pdf.subarray(0, end)), /PDF startxref not found/)
+  })
+})
@@ -0,0 +1,91 @@
+/*
+ *  Copyright (c) Microsoft Corporation.
+ *  Licensed under the MIT license.
+ */
+
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { MIME } from '../../src/constants.js'
+import { verifyHardBinding } from '../../src/certs/hardBinding.js'
+import { decode as jumbfDecode } from '../../src/certs/jumbf.js'
+import { getManifestFromMetadata } from '../../src/certs/metadata.js'
+import { decode, findChunk, type RIFFChunk } from '../../src/certs/riff.js'
+import { sniffMimeType } from '../../src/certs/sniff.js'
+import { ascii, concat, readFixture, readMedia, signedManifestStore, uint32 } from './helpers.js'
+
+function chunk (id: string, data: Uint8Array): Uint8Array {
+  return concat(ascii(id), uint32(data.length, true), data, new Uint8Array(data.length % 2))
+}
+
+/*
+  The ids of the chunks, with the list type and chunks of LIST chunks
+*/
+function layout (chunks: RIFFChunk[]): string[] {
+  return chunks.map((chunk) => chunk.chunks != null ? `${chunk.listType ?? ''}(${layout(chunk.chunks).join(' ')})` : `${chunk.id}:${chunk.size}`)
+}
+
+async function assertHardBinding (mimeType: string, asset: Uint8Array): Promise<void> {
+  const store = await getManifestFromMetadata(mimeType, asset)
+  assert.ok(store != null)
+  assert.deepEqual(await verifyHardBinding(store, asset), { assertion: 'c2pa.hash.data', alg: 'sha256', valid: true, errors: [] })
+}
+
+describe('riff', () => {
+  it('extracts the manifest store from the C2PA chunk of an AVI file', async () => {
+    const avi = readFixture('manifest.avi')
+    assert.equal(sniffMimeType(avi), MIME.X_MSVIDEO)
+    assert.deepEqual(await getManifestFromMetadata(MIME.X_MSVIDEO, avi), signedManifestStore())
+    assert.equal(findChunk(decode(avi).chunks, 'strh')?.size, 56)
+  })
+
+  it('extracts the manifest store of an AVI file signed by c2pa-rs, reading the odd-sized chunks and their pad byte', async () => {
+    const avi = readFixture('manifest_c2pa-rs.avi')
+    assert.equal(sniffMimeType(avi), MIME.X_MSVIDEO)
+    assert.deepEqual(layout(decode(avi).chunks), ['hdrl(avih:56 strl(strh:56 strf:40))', 'INFO(ISFT:9)', 'movi(00db:5)', 'idx1:16', 'C2PA:17554'])
+    await assertHardBinding(MIME.X_MSVIDEO, avi)
+  })
+
+  it('extracts the manifest store of a signed WAV file', async () => {
+    const wav = readMedia('cicadas_trusted.wav')
+    assert.equal(sniffMimeType(wav), MIME.WAV)
+    const store = await getManifestFromMetadata(MIME.WAV, wav)
+    assert.ok(store != null)
+    assert.equal(jumbfDecode(store).label, 'c2pa')
+    await assertHardBinding(MIME.WAV, wav)
+  })
+
+  it('extracts the manifest store of a Broadcast Wave Format file signed by c2pa-rs', async () => {
+    const bwf = readFixture('manifest_c2pa-rs.wav')
+    assert.equal(sniffMimeType(bwf), MIME.WAV)
+    assert.deepEqual(layout(decode(bwf).chunks), ['fmt:16', 'bext:605', 'data:3', 'C2PA:17554'])
+    await assertHardBinding(MIME.WAV, bwf)
+  })
+
+  it('reads the chunk sizes of an RF64 file from the ds64 chunk', async () => {
+    const format = chunk('fmt ', concat(new Uint8Array([1, 0, 1, 0]), uint32(8000, true), uint32(8000, true), new Uint8Array([1, 0, 8, 0])))
+    const form = concat(
+      ascii('WAVE'),
+      chunk('ds64', concat(uint32(0, true), uint32(0, true), uint32(4, true), uint32(0, true), new Uint8Array(8), uint32(0, true))),
+      format,
+      concat(ascii('data'), uint32(0xFFFFFFFF, true), new Uint8Array(4)),
+      chunk('C2PA', signedManifestStore())
+    )
+    // the RIFF size is set in the ds64 chunk: the form type and the chunks
+    form.set(uint32(form.length, true), 12)
+    const rf64 = concat(ascii('RF64'), uint32(0xFFFFFFFF, true), form)
+    assert.equal(findChunk(decode(rf64).chunks, 'data')?.size, 4)
+    assert.deepEqual(await getManifestFromMetadata(MIME.WAV, rf64), signedManifestStore())
+  })
+
+  it('clamps a last chunk that is larger than the file', () => {
+    const avi = readFixture('manifest.avi')
+    const truncated = avi.subarray(0, avi.length - 100)
+    const c2pa = findChunk(decode(truncated).chunks, 'C2PA')
+    assert.equal(c2pa?.size, signedManifestStore().length)
+    assert.deepEqual(c2pa?.data, signedManifestStore().subarray(0, signedManifestStore().length - 100))
+  })
+
+  it('rejects an invalid signature', () => {
+    assert.throws(() => decode(concat(ascii('RIFX'), uint32(4, true), ascii('WAVE'))), /Invalid RIFF signature/)
+  })
+})
@@ -0,0 +1,86 @@
+/*
+ *  Copyright (c) Microsoft Corporation.
+ *  Licensed under the MIT license.
+ */
+
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { MIME } from '../../src/constants.js'
+import { isMimeTypeMismatch, sniffMimeType } from '../../src/certs/sniff.js'
+import { ascii, concat, readFixture, readMedia, signedManifestStore } from './helpers.js'
+
+describe('sniff', () => {
+  it('identifies the media and fixtures from their contents', () => {
+    const files: Array<[Uint8Array, string]> = [
+      [readMedia('cards.png'), MIME.PNG],
+      [readMedia('cards.jpg'), MIME.JPEG],
+      [readMedia('cards.gif'), MIME.GIF],
+      [readMedia('cards.webp'), MIME.WEBP],
+      [readMedia('cards.svg'), MIME.SVG_XML],
+      [readMedia('cards.avif'), MIME.AVIF],
+      [readMedia('cards.mp4'), MIME.MP4],
+      [readMedia('cicadas.mp3'), MIME.MPEG],
+      [readMedia('cicadas.wav'), MIME.WAV],
+      [readFixture('manifest.tif'), MIME.TIFF],
+      [readFixture('manifest.jxl'), MIME.JXL],
+      [readFixture('manifest.avi'), MIME.X_MSVIDEO],
+      [readFixture('manifest.pdf'), MIME.PDF],
+      [readFixture('manifest.epub'), MIME.EPUB],
+      [readFixture('manifest_c2pa-rs.flac'), MIME.FLAC],
+      [readFixture('manifest_opentype.otf'), MIME.FONT_OTF],
+      [readFixture('manifest_opentype.woff'), MIME.FONT_WOFF],
+      [readFixture('manifest_opentype.woff2'), MIME.FONT_WOFF2],
+      [signedManifestStore(), MIME.C2PA]
+    ]
+    for (const [file, mimeType] of files) {
+      assert.equal(sniffMimeType(file), mimeType)
+    }
+  })
+
+  it('identifies formats from their signatures', () => {
+    const signatures: Array<[number[], string]> = [
+      [[0x4D, 0x4D, 0x00, 0x2B], MIME.TIFF], // big-endian BigTIFF
+      [[0xFF, 0x0A, 0xFA, 0x7F], MIME.JXL], // JPEG XL codestream
+      [[0x00, 0x01, 0x00, 0x00], MIME.FONT_TTF],
+      [[0x74, 0x74, 0x63, 0x66], MIME.FONT_COLLECTION], // ttcf
+      [[0xFF, 0xFB, 0x90, 0x64], MIME.MPEG] // MPEG-1 layer III frame, without an ID3 tag
+    ]
+    for (const [signature, mimeType] of signatures) {
+      assert.equal(sniffMimeType(concat(new Uint8Array(signature), new Uint8Array(12))), mimeType)
+    }
+    assert.equal(sniffMimeType(concat(ascii('RIFF'), new Uint8Array(4), ascii('AVI LIST'))), MIME.X_MSVIDEO)
+    assert.equal(sniffMimeType(concat(ascii('RF64'), new Uint8Array(4), ascii('WAVEds64'))), MIME.WAV)
+  })
+
+  it('identifies SVG after an XML declaration, comments and a doctype', () => {
+    assert.equal(sniffMimeType(ascii('<?xml version="1.0"?>\n<!-- cards -->\n<!DOCTYPE svg>\n<svg xmlns="http://www.w3.org/2000/svg"/>')), MIME.SVG_XML)
+    assert.equal(sniffMimeType(ascii('  <svg>')), MIME.SVG_XML)
+    assert.equal(sniffMimeType(ascii('<?xml version="1.0"?><html><svg/></html>')), null)
+    assert.equal(sniffMimeType(ascii('<svgfoo>')), null)
+  })
+
+  it('falls back to a ZIP file for an unreadable ZIP directory, and returns null for unknown formats', () => {
+    assert.equal(sniffMimeType(concat(new Uint8Array([0x50, 0x4B, 0x03, 0x04]), new Uint8Array(26))), MIME.ZIP)
+    assert.equal(sniffMimeType(concat(ascii('RIFF'), new Uint8Array(4), ascii('XYZW'))), null)
+    assert.equal(sniffMimeType(new Uint8Array([0xFF, 0xF1, 0x50, 0x80])), null) // AAC ADTS
+    assert.equal(sniffMimeType(ascii('plain text')), null)
+    assert.equal(sniffMimeType(new Uint8Array(0)), null)
+  })
+
+  it('reports a declared type that does not match the contents, unless it is generic or of the same format family', () => {
+    assert.equal(isMimeTypeMismatch(MIME.PNG, MIME.JPEG), true)
+    assert.equal(isMimeTypeMismatch('image/webp', MIME.AVIF), true)
+    assert.equal(isMimeTypeMismatch(MIME.ZIP, MIME.PDF), true)
+    assert.equal(isMimeTypeMismatch(MIME.JPEG, MIME.JPEG), false)
+    assert.equal(isMimeTypeMismatch('Image/JPEG; charset=binary', MIME.JPEG), false)
+    for (const generic of ['', 'application/octet-stream', 'binary/octet-stream', 'application/unknown']) {
+      assert.equal(isMimeTypeMismatch(generic, MIME.PNG), false, generic)
+    }
+    assert.equal(isMimeTypeMismatch('image/jpg', MIME.JPEG), false)
+    assert.equal(isMimeTypeMismatch(MIME.X_ADOBE_DNG, MIME.TIFF), false)
+    assert.equal(isMimeTypeMismatch(MIME.ZIP, MIME.EPUB), false)
+    assert.equal(isMimeTypeMismatch(MIME.MP4, MIME.AUDIO_MP4), false)
+    assert.equal(isMimeTypeMismatch('application/vnd.ms-opentype', MIME.FONT_OTF), false)
+    assert.equal(isMimeTypeMismatch(MIME.X_C2PA_MANIFEST_STORE, MIME.C2PA), false)
+  })
+})
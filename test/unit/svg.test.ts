@@ -0,0 +1,50 @@
+/*
+ *  Copyright (c) Microsoft Corporation.
+ *  Licensed under the MIT license.
+ */
+
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { MIME } from '../../src/constants.js'
+import { decode as jumbfDecode } from '../../src/certs/jumbf.js'
+import { sniffMimeType } from '../../src/certs/sniff.js'
+import { decode } from '../../src/certs/svg.js'
+import { readMedia, signedManifestStore } from './helpers.js'
+
+const base64 = Buffer.from(signedManifestStore()).toString('base64')
+
+function svg (body: string, doctype = ''): Uint8Array {
+  return new TextEncoder().encode(`<?xml version="1.0" encoding="UTF-8"?>${doctype}<svg xmlns="http://www.w3.org/2000/svg" width="1" height="1">${body}</svg>`)
+}
+
+describe('svg', () => {
+  it('extracts the manifest store of a signed SVG image', () => {
+    const image = readMedia('cards_trusted.svg')
+    assert.equal(sniffMimeType(image), MIME.SVG_XML)
+    const store = decode(image)
+    assert.ok(store != null)
+    assert.equal(jumbfDecode(store).label, 'c2pa')
+  })
+
+  it('reads a manifest element with another prefix, split across lines and CDATA sections', () => {
+    const content = `\n  ${base64.substring(0, 76)}\n  <![CDATA[${base64.substring(76, 1000)}]]>${base64.substring(1000)}\n`
+    const image = svg(`<metadata><m:manifest xmlns:m="http://c2pa.org/manifest">${content}</m:manifest></metadata>`)
+    assert.deepEqual(decode(image), signedManifestStore())
+  })
+
+  it('resolves a namespace URI declared as an entity in the DOCTYPE', () => {
+    const doctype = '<!DOCTYPE svg [<!ENTITY ns_c2pa "http://c2pa.org/manifest">]>'
+    const image = svg(`<metadata><c2pa:manifest xmlns:c2pa="&ns_c2pa;">${base64}</c2pa:manifest></metadata>`, doctype)
+    assert.deepEqual(decode(image), signedManifestStore())
+  })
+
+  it('ignores a manifest element outside of a metadata element, or in another namespace', () => {
+    assert.equal(decode(svg(`<g><c2pa:manifest xmlns:c2pa="http://c2pa.org/manifest">${base64}</c2pa:manifest></g>`)), null)
+    assert.equal(decode(svg(`<metadata><manifest>${base64}</manifest></metadata>`)), null)
+  })
+
+  it('rejects malformed markup', () => {
+    assert.throws(() => decode(svg(`<metadata><c2pa:manifest xmlns:c2pa="http://c2pa.org/manifest">${base64}</metadata>`)),
+      /XML end tag <\/metadata> does not match <c2pa:manifest>/)
+  })
+})
@@ -0,0 +1,94 @@
+/*
+ *  Copyright (c) Microsoft Corporation.
+ *  Licensed under the MIT license.
+ */
+
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { MIME } from '../../src/constants.js'
+import { verifyHardBinding } from '../../src/certs/hardBinding.js'
+import { getManifestFromMetadata } from '../../src/certs/metadata.js'
+import { sniffMimeType } from '../../src/certs/sniff.js'
+import { decode } from '../../src/certs/tiff.js'
+import { ascii, concat, readFixture, signedManifestStore, uint16, uint32 } from './helpers.js'
+
+function uint64 (value: number): Uint8Array {
+  return concat(uint32(Math.floor(value / 0x100000000)), uint32(value >>> 0))
+}
+
+/*
+  A big-endian BigTIFF file: IFD0 holds the C2PA tag and a SubIFDs entry that heads a chain of two IFDs
+*/
+function bigTiff (): Uint8Array {
+  const store = signedManifestStore()
+  const entry = (tag: number, type: number, count: number, value: Uint8Array): Uint8Array =>
+    concat(uint16(tag), uint16(type), uint64(count), value)
+  const ifd = (...entries: Uint8Array[]): Uint8Array => concat(uint64(entries.length), ...entries)
+  // IFD0 at 16, the SubIFDs at 72 and 108, the manifest store at 144
+  return concat(
+    ascii('MM'), uint16(43), uint16(8), uint16(0), uint64(16),
+    ifd(entry(0x014A, 18, 1, uint64(72)), entry(0xCD41, 7, store.length, uint64(144))), uint64(0),
+    ifd(entry(256, 3, 1, concat(uint16(1), new Uint8Array(6)))), uint64(108),
+    ifd(entry(257, 3, 1, concat(uint16(1), new Uint8Array(6)))), uint64(0),
+    store
+  )
+}
+
+describe('tiff', () => {
+  it('extracts the manifest store from the C2PA tag', async () => {
+    const tiff = readFixture('manifest.tif')
+    assert.equal(sniffMimeType(tiff), MIME.TIFF)
+    assert.deepEqual(await getManifestFromMetadata(MIME.TIFF, tiff), signedManifestStore())
+    const entry = decode(tiff).find((entry) => entry.tag === 0xCD41)
+    assert.equal(entry?.ifd, 'IFD0')
+  })
+
+  it('extracts a manifest store signed by c2pa-rs, whose hard binding matches', async () => {
+    const tiff = readFixture('manifest_c2pa-rs.tif')
+    assert.equal(sniffMimeType(tiff), MIME.TIFF)
+    const store = await getManifestFromMetadata(MIME.TIFF, tiff)
+    assert.ok(store != null)
+    assert.deepEqual(await verifyHardBinding(store, tiff), { assertion: 'c2pa.hash.data', alg: 'sha256', valid: true, errors: [] })
+  })
+
+  it('walks a big-endian BigTIFF file and the chain of IFDs headed by a SubIFD', async () => {
+    const tiff = bigTiff()
+    assert.equal(sniffMimeType(tiff), MIME.TIFF)
+    assert.deepEqual(decode(tiff).map((entry) => `${entry.ifd}:${entry.tag}`), ['IFD0:330', 'IFD0:52545', 'IFD0/SubIFD0.0:256', 'IFD0/SubIFD0.1:257'])
+    assert.deepEqual(await getManifestFromMetadata(MIME.TIFF, tiff), signedManifestStore())
+  })
+
+  it('skips a SubIFD at an invalid offset', async () => {
+    const tiff = bigTiff()
+    // the value of the SubIFDs entry
+    tiff.set(uint64(0xFFFFFF), 16 + 8 + 12)
+    assert.deepEqual(decode(tiff).map((entry) => entry.ifd), ['IFD0', 'IFD0'])
+    assert.deepEqual(await getManifestFromMetadata(MIME.TIFF, tiff), signedManifestStore())
+  })
+
+  it('skips an entry whose value lies outside the file', async () => {
+    const tiff = readFixture('manifest.tif').slice()
+    // BitsPerSample, the third entry of IFD0: 100 values at an offset past the end of the file
+    tiff.set(uint32(100, true), 8 + 2 + 2 * 12 + 4)
+    tiff.set(uint32(0xFFFFFF, true), 8 + 2 + 2 * 12 + 8)
+    const entries = decode(tiff)
+    assert.equal(entries.find((entry) => entry.tag === 258), undefined)
+    assert.deepEqual(await getManifestFromMetadata(MIME.TIFF, tiff), signedManifestStore())
+  })
+
+  it('stops at an invalid next-IFD offset, keeping the entries read so far', async () => {
+    const tiff = readFixture('manifest.tif').slice()
+    const entryCount = tiff[8] | (tiff[9] << 8)
+    // the next-IFD offset of IFD0, past the end of the file
+    tiff.set(uint32(0xFFFFFF, true), 8 + 2 + entryCount * 12)
+    assert.equal(decode(tiff).find((entry) => entry.tag === 0xCD41)?.ifd, 'IFD0')
+    assert.deepEqual(await getManifestFromMetadata(MIME.TIFF, tiff), signedManifestStore())
+    // a next-IFD offset that points back to IFD0
+    tiff.set(uint32(8, true), 8 + 2 + entryCount * 12)
+    assert.equal(decode(tiff).filter((entry) => entry.tag === 0xCD41).length, 1)
+  })
+
+  it('rejects an invalid byte order', () => {
+    assert.throws(() => decode(new Uint8Array([0x58, 0x58, 42, 0, 8, 0, 0, 0])), /Invalid TIFF byte order/)
+  })
+})
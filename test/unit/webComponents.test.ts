@@ -0,0 +1,33 @@
+/*
+ *  Copyright (c) Microsoft Corporation.
+ *  Licensed under the MIT license.
+ */
+
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { MIME } from '../../src/constants.js'
+import { childBox, decode as jumbfDecode, isContentBox, manifests } from '../../src/certs/jumbf.js'
+import { extractManifestSignatures } from '../../src/certs/manifestSignatures.js'
+import { getManifestFromMetadata } from '../../src/certs/metadata.js'
+import { manifestSignatureItems } from '../../src/webComponents.js'
+import { readMedia } from './helpers.js'
+
+describe('webComponents', () => {
+  it('lists the manifests of a two-manifest store with their signers and signature verification', async () => {
+    const bytes = await getManifestFromMetadata(MIME.WEBP, readMedia('DALL-E_cloud_surfing_puppy.webp'))
+    assert.ok(bytes != null)
+    const store = jumbfDecode(bytes.slice())
+    const [ingredient, active] = manifests(store)
+    const claim = childBox(ingredient, 'c2pa.claim')?.boxes[0] ?? childBox(ingredient, 'c2pa.claim.v2')?.boxes[0]
+    assert.ok(claim != null && isContentBox(claim))
+    claim.data[claim.data.length - 1] ^= 0xFF
+
+    const items = manifestSignatureItems(await extractManifestSignatures(store), active.label ?? '')
+    assert.deepEqual(items.map(({ text }) => text), [
+      [ingredient.label, 'Truepic Lens CLI in DALL·E', 'COSE ES256 signature does not match the claim'],
+      [`${active.label} (active)`, 'Truepic Lens CLI in ChatGPT', 'Algorithm: ES256']
+    ])
+    assert.equal(items[0].icon, 'icons/x.svg')
+    assert.notEqual(items[1].icon, 'icons/x.svg')
+  })
+})
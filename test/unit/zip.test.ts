@@ -0,0 +1,100 @@
+/*
+ *  Copyright (c) Microsoft Corporation.
+ *  Licensed under the MIT license.
+ */
+
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { MIME } from '../../src/constants.js'
+import { verifyHardBinding } from '../../src/certs/hardBinding.js'
+import { getManifestFromMetadata } from '../../src/certs/metadata.js'
+import { sniffMimeType } from '../../src/certs/sniff.js'
+import { decode, decodeDirectory, readEntry } from '../../src/certs/zip.js'
+import { ascii, concat, readFixture, signedManifestStore, uint16, uint32 } from './helpers.js'
+
+function uint64 (value: number): Uint8Array {
+  return concat(uint32(value % 0x100000000, true), uint32(Math.floor(value / 0x100000000), true))
+}
+
+/*
+  The package with a ZIP64 end of central directory record and locator, and an end of central directory record
+  whose fields are left to ZIP64 and which is followed by a comment
+*/
+function zip64 (zip: Uint8Array, comment: string): Uint8Array {
+  const { entries, centralDirectoryOffset, centralDirectoryLength } = decodeDirectory(zip)
+  const zip64Offset = centralDirectoryOffset + centralDirectoryLength
+  return concat(
+    zip.subarray(0, zip64Offset),
+    // size of the rest of the record, versions made by and needed, disk numbers
+    uint32(0x06064B50, true), uint64(44), uint16(45, true), uint16(45, true), uint32(0), uint32(0),
+    uint64(entries.length), uint64(entries.length), uint64(centralDirectoryLength), uint64(centralDirectoryOffset),
+    uint32(0x07064B50, true), uint32(0), uint64(zip64Offset), uint32(1, true),
+    uint32(0x06054B50, true), uint16(0), uint16(0), uint16(0xFFFF, true), uint16(0xFFFF, true), uint32(0xFFFFFFFF, true), uint32(0xFFFFFFFF, true),
+    uint16(comment.length, true), ascii(comment)
+  )
+}
+
+describe('zip', () => {
+  it('extracts the manifest store from the content_credential.c2pa entry of an EPUB package', async () => {
+    const epub = readFixture('manifest.epub')
+    assert.equal(sniffMimeType(epub), MIME.EPUB)
+    assert.deepEqual(await getManifestFromMetadata(MIME.EPUB, epub), signedManifestStore())
+  })
+
+  it('extracts the manifest store of an EPUB package signed by c2pa-rs, whose entries are followed by data descriptors', async () => {
+    const epub = readFixture('manifest_c2pa-rs.epub')
+    assert.equal(sniffMimeType(epub), MIME.EPUB)
+    const { entries } = decodeDirectory(epub)
+    assert.deepEqual(entries.map((entry) => entry.name), ['mimetype', 'META-INF/container.xml', 'content.opf', 'META-INF/', 'META-INF/content_credential.c2pa'])
+    // the data descriptors of fflate have a signature and 32-bit sizes
+    assert.deepEqual(entries.slice(0, 3).map((entry) => entry.end - entry.dataOffset - entry.compressedSize), [16, 16, 16])
+    const store = await getManifestFromMetadata(MIME.EPUB, epub)
+    assert.ok(store != null)
+    assert.deepEqual(await verifyHardBinding(store, epub), { assertion: 'c2pa.hash.collection.data', alg: 'sha256', valid: true, errors: [] })
+  })
+
+  it('binds the central directory of a package signed by c2pa-rs but the CRC-32 of the manifest entry\'s record', async () => {
+    const epub = readFixture('manifest_c2pa-rs.epub')
+    const store = await getManifestFromMetadata(MIME.EPUB, epub)
+    assert.ok(store != null)
+    const { entries } = decodeDirectory(epub)
+
+    const manifestCrc32 = epub.slice()
+    manifestCrc32[entries[4].recordOffset + 16] ^= 0xFF
+    assert.equal((await verifyHardBinding(store, manifestCrc32))?.valid, true)
+
+    const attributes = epub.slice()
+    // the external attributes of the 'mimetype' record
+    attributes[entries[0].recordOffset + 38] ^= 0xFF
+    assert.deepEqual((await verifyHardBinding(store, attributes))?.errors, ['c2pa.hash.collection.data: ZIP central directory hash does not match'])
+  })
+
+  it('reads the ZIP64 end of central directory record, and an end of central directory record followed by a comment', async () => {
+    const epub = zip64(readFixture('manifest.epub'), 'a comment')
+    assert.equal(decodeDirectory(epub).entries.length, 3)
+    assert.equal(sniffMimeType(epub), MIME.EPUB)
+    assert.deepEqual(await decode(epub), signedManifestStore())
+  })
+
+  it('inflates a deflated entry', async () => {
+    const epub = readFixture('manifest.epub')
+    const container = decodeDirectory(epub).entries.find((entry) => entry.name === 'META-INF/container.xml')
+    assert.ok(container != null)
+    const xml = new TextDecoder().decode(await readEntry(epub, container))
+    assert.ok(xml.startsWith('<?xml'))
+    assert.equal(xml.length, container.uncompressedSize)
+  })
+
+  it('sniffs a package whose mimetype entry names a type outside the ZIP family as ZIP', () => {
+    const epub = readFixture('manifest.epub').slice()
+    const mimetype = decodeDirectory(epub).entries[0]
+    // same length as 'application/epub+zip'
+    epub.set(ascii('image/jpeg          '), mimetype.dataOffset)
+    assert.equal(sniffMimeType(epub), MIME.ZIP)
+  })
+
+  it('rejects a truncated file', async () => {
+    const epub = readFixture('manifest.epub')
+    await assert.rejects(decode(epub.subarray(0, epub.length - 10)), /ZIP end of central directory not found/)
+  })
+})